@@ -0,0 +1,188 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { getCredentialType } from '@/lib/credentialTypes';
+import { KeyRound, Plus } from 'lucide-react';
+
+interface CredentialSelectProps {
+  credentialType: string;
+  value: string | undefined;
+  onChange: (credentialId: string | undefined) => void;
+}
+
+interface CredentialSummary {
+  id: string;
+  name: string;
+}
+
+// Radix Select items cannot have an empty value
+const NO_CREDENTIAL = '__none__';
+
+export default function CredentialSelect({ credentialType, value, onChange }: CredentialSelectProps) {
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([]);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const definition = getCredentialType(credentialType);
+
+  const loadCredentials = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('credentials')
+      .select('id, name')
+      .eq('type', credentialType)
+      .order('name');
+
+    if (error) {
+      console.error('Error loading credentials:', error);
+      return;
+    }
+    setCredentials(data || []);
+  }, [credentialType]);
+
+  useEffect(() => {
+    loadCredentials();
+  }, [loadCredentials]);
+
+  const resetDialog = () => {
+    setName('');
+    setValues({});
+    setDialogOpen(false);
+  };
+
+  const saveCredential = async () => {
+    if (!definition) return;
+
+    const missing = definition.fields.filter(f => f.required && !values[f.key]?.trim());
+    if (!name.trim() || missing.length > 0) {
+      toast({
+        title: 'Missing fields',
+        description: `Enter a name${missing.length > 0 ? ` and ${missing.map(f => f.label).join(', ')}` : ''}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Values are encrypted by the credentials function, the browser never stores them
+      const { data, error } = await supabase.functions.invoke('credentials', {
+        body: { name, type: credentialType, data: values },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      await loadCredentials();
+      onChange(data.credential.id);
+      toast({ title: 'Credential saved', description: `${name} is stored encrypted` });
+      resetDialog();
+    } catch (error) {
+      console.error('Error saving credential:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the credential',
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex gap-2">
+      <Select
+        value={value || NO_CREDENTIAL}
+        onValueChange={(val) => onChange(val === NO_CREDENTIAL ? undefined : val)}
+      >
+        <SelectTrigger className="h-9">
+          <SelectValue placeholder="Select credential" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_CREDENTIAL}>None (enter values below)</SelectItem>
+          {credentials.map((credential) => (
+            <SelectItem key={credential.id} value={credential.id}>
+              {credential.name}
+            </SelectItem>
+          ))}
+          {value && !credentials.some(c => c.id === value) && (
+            <SelectItem value={value}>Unavailable credential</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      <Button size="icon" variant="outline" className="h-9 w-9 shrink-0" onClick={() => setDialogOpen(true)} disabled={!definition}>
+        <Plus className="h-4 w-4" />
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => (open ? setDialogOpen(true) : resetDialog())}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-4 w-4" /> New {definition?.label} Credential
+            </DialogTitle>
+            <DialogDescription>
+              Values are encrypted and never stored in the workflow, so it can be shared or exported safely.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="credential-name">Name</Label>
+              <Input
+                id="credential-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={`My ${definition?.label} account`}
+              />
+            </div>
+            {definition?.fields.map((field) => (
+              <div key={field.key} className="space-y-2">
+                <Label htmlFor={`credential-${field.key}`} className="flex items-center gap-1">
+                  {field.label}
+                  {field.required && <span className="text-destructive">*</span>}
+                </Label>
+                {field.multiline ? (
+                  <Textarea
+                    id={`credential-${field.key}`}
+                    value={values[field.key] || ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                    className="font-mono text-xs min-h-[100px]"
+                  />
+                ) : (
+                  <Input
+                    id={`credential-${field.key}`}
+                    type={field.secret ? 'password' : 'text'}
+                    autoComplete="off"
+                    value={values[field.key] || ''}
+                    onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+                    placeholder={field.placeholder}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={resetDialog}>Cancel</Button>
+            <Button onClick={saveCredential} disabled={saving}>
+              {saving ? 'Saving...' : 'Save Credential'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
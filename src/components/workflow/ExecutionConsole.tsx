@@ -3,13 +3,15 @@ import { supabase } from '@/integrations/supabase/client';
 import { useWorkflowStore } from '@/stores/workflowStore';
 import {
   CheckCircle, XCircle, Loader2, Clock, ChevronDown, ChevronUp,
-  Terminal, RefreshCw, Trash2
+  Terminal, RefreshCw, Trash2, Hourglass, Square, Ban
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { cn } from '@/lib/utils';
 import { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { cancelExecution, isCancellable } from '@/lib/api/executions';
 
 interface Execution {
   id: string;
@@ -21,6 +23,7 @@ interface Execution {
   logs: Json | null;
   output: Json | null;
   input?: Json | null;
+  partial_until?: string | null;
 }
 
 interface ExecutionConsoleProps {
@@ -29,10 +32,11 @@ interface ExecutionConsoleProps {
 }
 
 export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionConsoleProps) {
-  const { workflowId, updateNodeStatus, resetWorkflow, resetAllNodeStatuses } = useWorkflowStore();
+  const { workflowId, nodes, updateNodeStatus, resetWorkflow, resetAllNodeStatuses } = useWorkflowStore();
   const [executions, setExecutions] = useState<Execution[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedExecution, setSelectedExecution] = useState<Execution | null>(null);
+  const { toast } = useToast();
 
   const loadExecutions = async () => {
     if (!workflowId) return;
@@ -41,7 +45,7 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
     try {
       const { data, error } = await supabase
         .from('executions')
-        .select('id, status, started_at, finished_at, duration_ms, error, logs, output, input')
+        .select('id, status, started_at, finished_at, duration_ms, error, logs, output, input, partial_until')
         .eq('workflow_id', workflowId)
         .order('started_at', { ascending: false })
         .limit(10);
@@ -167,6 +171,8 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
       case 'success': return <CheckCircle className="h-3 w-3 text-success" />;
       case 'failed': return <XCircle className="h-3 w-3 text-destructive" />;
       case 'running': return <Loader2 className="h-3 w-3 text-primary animate-spin" />;
+      case 'waiting': return <Hourglass className="h-3 w-3 text-warning" />;
+      case 'cancelled': return <Ban className="h-3 w-3 text-muted-foreground" />;
       default: return <Clock className="h-3 w-3 text-muted-foreground" />;
     }
   };
@@ -176,10 +182,26 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
       case 'success': return 'bg-success/10 text-success border-success/20';
       case 'failed': return 'bg-destructive/10 text-destructive border-destructive/20';
       case 'running': return 'bg-primary/10 text-primary border-primary/20';
+      case 'waiting': return 'bg-warning/10 text-warning border-warning/20';
       default: return 'bg-muted text-muted-foreground';
     }
   };
 
+  const stopExecution = async (executionId: string) => {
+    try {
+      const cancelled = await cancelExecution(executionId);
+      toast({
+        title: cancelled ? 'Stopping...' : 'Already finished',
+        description: cancelled
+          ? 'The execution stops after the running nodes are aborted'
+          : 'This execution is no longer running',
+      });
+    } catch (error) {
+      console.error('Error stopping execution:', error);
+      toast({ title: 'Error', description: 'Failed to stop execution', variant: 'destructive' });
+    }
+  };
+
   const formatDuration = (ms: number | null) => {
     if (!ms) return '-';
     if (ms < 1000) return `${ms}ms`;
@@ -193,7 +215,7 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
         if (typeof log === 'object' && log !== null) {
           const nodeName = log.nodeName || log.nodeId || `Node ${i + 1}`;
           const status = log.status || 'unknown';
-          const statusIcon = status === 'success' ? '✓' : status === 'failed' ? '✗' : status === 'running' ? '⟳' : '○';
+          const statusIcon = status === 'success' ? '✓' : status === 'failed' ? '✗' : status === 'running' ? '⟳' : status === 'cancelled' ? '⊘' : '○';
 
           let logText = `\n${'='.repeat(60)}\n`;
           logText += `${statusIcon} [${i + 1}] ${nodeName} (${status})\n`;
@@ -307,6 +329,9 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
                         <Badge variant="outline" className={cn("text-xs px-1 py-0", getStatusColor(exec.status))}>
                           {exec.status}
                         </Badge>
+                        {exec.partial_until && (
+                          <Badge variant="outline" className="text-xs px-1 py-0">partial</Badge>
+                        )}
                       </div>
                       <div className="flex items-center justify-between mt-1 text-muted-foreground text-xs">
                         <span>{new Date(exec.started_at).toLocaleTimeString()}</span>
@@ -339,6 +364,21 @@ export default function ExecutionConsole({ isExpanded, onToggle }: ExecutionCons
                     <span className="text-xs text-muted-foreground">
                       Duration: {formatDuration(selectedExecution.duration_ms)}
                     </span>
+                    {selectedExecution.partial_until && (
+                      <Badge variant="outline" className="text-xs">
+                        partial: up to {nodes.find(n => n.id === selectedExecution.partial_until)?.data.label || selectedExecution.partial_until}
+                      </Badge>
+                    )}
+                    {isCancellable(selectedExecution.status) && (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-6 px-2 ml-auto"
+                        onClick={() => stopExecution(selectedExecution.id)}
+                      >
+                        <Square className="mr-1 h-3 w-3" /> Stop
+                      </Button>
+                    )}
                   </div>
 
                   {selectedExecution.error && (
@@ -0,0 +1,127 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { loadExecutionValue } from '@/lib/api/executions';
+import { Pin, PinOff, History } from 'lucide-react';
+
+interface PinnedDataSettingsProps {
+  workflowId: string | null;
+  nodeId: string;
+  pinnedData: unknown;
+  onPinnedDataChange: (pinnedData: unknown | undefined) => void;
+}
+
+interface ExecutionLogEntry {
+  nodeId: string;
+  status: string;
+  output?: unknown;
+  iteration?: number;
+}
+
+// Secrets in logged values are masked with this text (supabase/functions/_shared/redaction.ts)
+const REDACTED = '[REDACTED]';
+
+const formatJson = (value: unknown) => (value === undefined ? '' : JSON.stringify(value, null, 2));
+
+export default function PinnedDataSettings({ workflowId, nodeId, pinnedData, onPinnedDataChange }: PinnedDataSettingsProps) {
+  const [text, setText] = useState(formatJson(pinnedData));
+  const [loadingLastOutput, setLoadingLastOutput] = useState(false);
+  const { toast } = useToast();
+  const isPinned = pinnedData !== undefined;
+
+  useEffect(() => {
+    setText(formatJson(pinnedData));
+  }, [nodeId, pinnedData]);
+
+  const pinText = () => {
+    try {
+      onPinnedDataChange(JSON.parse(text));
+      toast({ title: 'Data pinned', description: 'Manual runs use this output instead of executing the node' });
+    } catch {
+      toast({ title: 'Invalid JSON', description: 'Pinned data must be valid JSON', variant: 'destructive' });
+    }
+  };
+
+  const pinLastOutput = async () => {
+    if (!workflowId || workflowId === 'new') {
+      toast({ title: 'Save first', description: 'Save and run the workflow before pinning its output', variant: 'destructive' });
+      return;
+    }
+
+    setLoadingLastOutput(true);
+    try {
+      const { data, error } = await supabase
+        .from('executions')
+        .select('id, logs')
+        .eq('workflow_id', workflowId)
+        .order('started_at', { ascending: false })
+        .limit(20);
+
+      if (error) throw error;
+
+      // Most recent successful output of this node (loop body iterations are skipped)
+      for (const execution of data || []) {
+        const logs = (execution.logs as unknown as ExecutionLogEntry[]) || [];
+        const log = logs.find(l => l.nodeId === nodeId && l.status === 'success' && l.iteration === undefined);
+        if (log && log.output !== undefined) {
+          // Large outputs are stored separately, pin the full value rather than the reference
+          const output = await loadExecutionValue(execution.id, log.output);
+          if (JSON.stringify(output).includes(REDACTED)) {
+            toast({
+              title: 'Output has masked secrets',
+              description: 'The logged output hides secrets, pin the data as JSON instead',
+              variant: 'destructive',
+            });
+            return;
+          }
+          onPinnedDataChange(output);
+          toast({ title: 'Data pinned', description: 'Pinned the output of the last execution' });
+          return;
+        }
+      }
+
+      toast({ title: 'No output found', description: 'Run the workflow first so this node produces an output', variant: 'destructive' });
+    } catch (error) {
+      console.error('Error loading last output:', error);
+      toast({ title: 'Error', description: 'Failed to load the last execution output', variant: 'destructive' });
+    } finally {
+      setLoadingLastOutput(false);
+    }
+  };
+
+  const unpin = () => {
+    onPinnedDataChange(undefined);
+    toast({ title: 'Data unpinned', description: 'Manual runs execute this node again' });
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {isPinned
+          ? 'Manual runs use this output instead of executing the node. Webhook and scheduled runs ignore it.'
+          : 'Pin an output to skip this node during manual runs, e.g. to avoid calling real APIs while testing downstream nodes.'}
+      </p>
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder='{"key": "value"}'
+        className="font-mono text-xs min-h-[120px]"
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={pinText} disabled={!text.trim()}>
+          <Pin className="mr-2 h-3 w-3" /> Pin JSON
+        </Button>
+        <Button size="sm" variant="outline" onClick={pinLastOutput} disabled={loadingLastOutput}>
+          <History className="mr-2 h-3 w-3" /> {loadingLastOutput ? 'Loading...' : 'Pin Last Output'}
+        </Button>
+        {isPinned && (
+          <Button size="sm" variant="ghost" onClick={unpin}>
+            <PinOff className="mr-2 h-3 w-3" /> Unpin
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
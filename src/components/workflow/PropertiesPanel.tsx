@@ -1,6 +1,6 @@
 import { useWorkflowStore } from '@/stores/workflowStore';
 import { useState, useCallback, useEffect } from 'react';
-import { getNodeDefinition, ConfigField } from './nodeTypes';
+import { getNodeDefinition, ConfigField, NODE_SETTINGS_FIELDS, hasNodeSettings } from './nodeTypes';
 import { NODE_USAGE_GUIDES } from './nodeUsageGuides';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -11,13 +11,17 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import NodeUsageCard from './NodeUsageCard';
 import GoogleSheetsSettings from './GoogleSheetsSettings';
+import PinnedDataSettings from './PinnedDataSettings';
+import CredentialSelect from './CredentialSelect';
+import WorkflowSelect from './WorkflowSelect';
+import { getCredentialType } from '@/lib/credentialTypes';
 import {
   Trash2, X, Play, Webhook, Clock, Globe, Brain, Sparkles, Gem, Link,
   GitBranch, GitMerge, Repeat, Timer, ShieldAlert, Code, Braces, Table,
   Type, Combine, Send, Mail, MessageSquare, Database, Box, FileText, Heart,
   Filter, Variable, Hash, MessageCircle, DatabaseZap, FileOutput, HelpCircle,
   XCircle, Layers, Edit, Edit3, Tag, Code2, ListChecks, ArrowUpDown, List, Terminal,
-  Calculator, Lock, Rss
+  Calculator, Lock, Rss, Workflow as WorkflowIcon
 } from 'lucide-react';
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -26,11 +30,11 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   Combine, Send, Mail, MessageSquare, Database, Box, FileText, Heart,
   Filter, Variable, Hash, MessageCircle, DatabaseZap, FileOutput,
   XCircle, Layers, Edit, Edit3, Tag, Function: Code2, ListChecks, ArrowUpDown, List, Terminal,
-  Calculator, Lock, Rss
+  Calculator, Lock, Rss, Workflow: WorkflowIcon
 };
 
 export default function PropertiesPanel() {
-  const { selectedNode, selectNode, updateNodeConfig, deleteSelectedNode } = useWorkflowStore();
+  const { selectedNode, selectNode, updateNodeConfig, setNodePinnedData, deleteSelectedNode, workflowId } = useWorkflowStore();
 
   // Resizable sidebar state
   const [width, setWidth] = useState(400); // Increased default width from 320px (w-80) to 400px
@@ -96,6 +100,16 @@ export default function PropertiesPanel() {
     updateNodeConfig(selectedNode.id, { [key]: value });
   };
 
+  // Config keys provided by the selected credential are hidden and not kept in the workflow
+  const credentialType = nodeDefinition?.configFields.find(f => f.type === 'credential')?.credentialType;
+  const credentialKeys = getCredentialType(credentialType ?? '')?.fields.map(f => f.key) ?? [];
+  const hasCredential = Boolean(selectedNode.data.config.credentialId);
+
+  const handleCredentialChange = (key: string, credentialId: string | undefined) => {
+    const clearedValues = credentialId ? Object.fromEntries(credentialKeys.map(k => [k, undefined])) : {};
+    updateNodeConfig(selectedNode.id, { ...clearedValues, [key]: credentialId });
+  };
+
   // Stop event propagation to prevent ReactFlow from stealing focus
   const handleInputMouseDown = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -180,6 +194,23 @@ export default function PropertiesPanel() {
           </Select>
         );
 
+      case 'credential':
+        return (
+          <CredentialSelect
+            credentialType={field.credentialType ?? ''}
+            value={(selectedNode.data.config[field.key] as string | undefined) || undefined}
+            onChange={(credentialId) => handleCredentialChange(field.key, credentialId)}
+          />
+        );
+
+      case 'workflow':
+        return (
+          <WorkflowSelect
+            value={(selectedNode.data.config[field.key] as string | undefined) || undefined}
+            onChange={(workflowId) => handleConfigChange(field.key, workflowId)}
+          />
+        );
+
       case 'boolean':
         return (
           <Switch
@@ -194,6 +225,21 @@ export default function PropertiesPanel() {
     }
   };
 
+  const renderFieldRow = (field: ConfigField) => (
+    <div key={field.key} className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={field.key} className="text-sm flex items-center gap-1">
+          {field.label}
+          {field.required && <span className="text-destructive">*</span>}
+        </Label>
+      </div>
+      {field.helpText && (
+        <p className="text-xs text-muted-foreground">{field.helpText}</p>
+      )}
+      {renderField(field)}
+    </div>
+  );
+
   return (
     <div
       className="border-l border-border bg-card h-full flex flex-col relative transition-all duration-75"
@@ -258,25 +304,37 @@ export default function PropertiesPanel() {
                   <h3 className="text-xs font-semibold uppercase text-muted-foreground tracking-wide">
                     Configuration
                   </h3>
-                  {nodeDefinition.configFields.map((field) => (
-                    <div key={field.key} className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <Label htmlFor={field.key} className="text-sm flex items-center gap-1">
-                          {field.label}
-                          {field.required && <span className="text-destructive">*</span>}
-                        </Label>
-                      </div>
-                      {field.helpText && (
-                        <p className="text-xs text-muted-foreground">{field.helpText}</p>
-                      )}
-                      {renderField(field)}
-                    </div>
-                  ))}
+                  {nodeDefinition.configFields
+                    .filter(field => !(hasCredential && credentialKeys.includes(field.key)))
+                    .map(renderFieldRow)}
                 </div>
               ) : null}
             </>
           )}
 
+          {/* Execution Settings */}
+          {hasNodeSettings(selectedNode.data.type) && (
+            <div className="space-y-4">
+              <h3 className="text-xs font-semibold uppercase text-muted-foreground tracking-wide">
+                Settings
+              </h3>
+              {NODE_SETTINGS_FIELDS.map(renderFieldRow)}
+            </div>
+          )}
+
+          {/* Pinned Data */}
+          <div className="space-y-4">
+            <h3 className="text-xs font-semibold uppercase text-muted-foreground tracking-wide">
+              Pinned Data
+            </h3>
+            <PinnedDataSettings
+              workflowId={workflowId}
+              nodeId={selectedNode.id}
+              pinnedData={selectedNode.data.pinnedData}
+              onPinnedDataChange={(pinnedData) => setNodePinnedData(selectedNode.id, pinnedData)}
+            />
+          </div>
+
           {/* Node ID */}
           <div>
             <Label className="text-xs text-muted-foreground">Node ID</Label>
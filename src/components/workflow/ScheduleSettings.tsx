@@ -43,6 +43,7 @@ export default function ScheduleSettings({ workflowId }: ScheduleSettingsProps)
   const [cronExpression, setCronExpression] = useState('0 * * * *');
   const [selectedPreset, setSelectedPreset] = useState<SchedulePreset>('every-hour');
   const [loading, setLoading] = useState(false);
+  const [runTimes, setRunTimes] = useState<{ last_run_at: string | null; next_run_at: string | null } | null>(null);
   const { toast } = useToast();
 
   useEffect(() => {
@@ -77,6 +78,14 @@ export default function ScheduleSettings({ workflowId }: ScheduleSettingsProps)
     } else {
       setEnabled(false);
     }
+
+    // Last and next run as recorded by the scheduler (covers schedule and interval nodes too)
+    const { data: schedule } = await supabase
+      .from('workflow_schedules')
+      .select('last_run_at, next_run_at')
+      .eq('workflow_id', workflowId)
+      .maybeSingle();
+    setRunTimes(schedule);
   };
 
   const handlePresetChange = (value: SchedulePreset) => {
@@ -203,7 +212,7 @@ export default function ScheduleSettings({ workflowId }: ScheduleSettingsProps)
                   className="font-mono"
                 />
                 <p className="text-xs text-muted-foreground">
-                  Format: minute hour day-of-month month day-of-week
+                  Format: minute hour day-of-month month day-of-week (UTC)
                 </p>
               </div>
 
@@ -214,6 +223,16 @@ export default function ScheduleSettings({ workflowId }: ScheduleSettingsProps)
                   <p className="text-sm text-muted-foreground">
                     {parseCronDescription(cronExpression)}
                   </p>
+                  {runTimes?.next_run_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Next run: {new Date(runTimes.next_run_at).toLocaleString()}
+                    </p>
+                  )}
+                  {runTimes?.last_run_at && (
+                    <p className="text-xs text-muted-foreground">
+                      Last run: {new Date(runTimes.last_run_at).toLocaleString()}
+                    </p>
+                  )}
                 </div>
               </div>
 
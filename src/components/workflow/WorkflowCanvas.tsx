@@ -1,4 +1,4 @@
-import { useCallback, useRef, useEffect } from 'react';
+import { useCallback, useRef, useEffect, useState } from 'react';
 import {
   ReactFlow,
   Background,
@@ -14,13 +14,19 @@ import '@xyflow/react/dist/style.css';
 import { useWorkflowStore, NodeData } from '@/stores/workflowStore';
 import { NodeTypeDefinition } from './nodeTypes';
 import WorkflowNode from './WorkflowNode';
+import { PlayCircle } from 'lucide-react';
 
 const nodeTypes = {
   custom: WorkflowNode,
 };
 
-function WorkflowCanvasInner() {
+interface WorkflowCanvasProps {
+  onExecuteUpTo?: (nodeId: string) => void;
+}
+
+function WorkflowCanvasInner({ onExecuteUpTo }: WorkflowCanvasProps) {
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
+  const [contextMenu, setContextMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null);
   const { screenToFlowPosition } = useReactFlow();
   const {
     nodes,
@@ -145,10 +151,26 @@ function WorkflowCanvasInner() {
 
   const onPaneClick = useCallback(() => {
     selectNode(null);
+    setContextMenu(null);
   }, [selectNode]);
 
+  // Right-click on a node opens its context menu, positioned relative to the canvas
+  const onNodeContextMenu = useCallback(
+    (event: React.MouseEvent, node: Node<NodeData>) => {
+      if (!onExecuteUpTo) return;
+      event.preventDefault();
+      const bounds = reactFlowWrapper.current?.getBoundingClientRect();
+      setContextMenu({
+        nodeId: node.id,
+        x: event.clientX - (bounds?.left ?? 0),
+        y: event.clientY - (bounds?.top ?? 0),
+      });
+    },
+    [onExecuteUpTo]
+  );
+
   return (
-    <div ref={reactFlowWrapper} className="flex-1 h-full">
+    <div ref={reactFlowWrapper} className="flex-1 h-full relative">
       <ReactFlow
         nodes={nodes}
         edges={edges}
@@ -161,6 +183,8 @@ function WorkflowCanvasInner() {
         onNodeClick={onNodeClick}
         onEdgeClick={onEdgeClick}
         onPaneClick={onPaneClick}
+        onNodeContextMenu={onNodeContextMenu}
+        onMoveStart={() => setContextMenu(null)}
         nodeTypes={nodeTypes}
         fitView
         snapToGrid
@@ -186,14 +210,33 @@ function WorkflowCanvasInner() {
           maskColor="hsl(var(--background) / 0.8)"
         />
       </ReactFlow>
+
+      {contextMenu && onExecuteUpTo && (
+        <div
+          className="absolute z-50 min-w-[10rem] rounded-md border border-border bg-popover p-1 text-popover-foreground shadow-md"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onMouseLeave={() => setContextMenu(null)}
+        >
+          <button
+            className="flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-sm hover:bg-accent hover:text-accent-foreground"
+            onClick={() => {
+              onExecuteUpTo(contextMenu.nodeId);
+              setContextMenu(null);
+            }}
+          >
+            <PlayCircle className="h-4 w-4" />
+            Execute up to here
+          </button>
+        </div>
+      )}
     </div>
   );
 }
 
-export default function WorkflowCanvas() {
+export default function WorkflowCanvas({ onExecuteUpTo }: WorkflowCanvasProps) {
   return (
     <ReactFlowProvider>
-      <WorkflowCanvasInner />
+      <WorkflowCanvasInner onExecuteUpTo={onExecuteUpTo} />
     </ReactFlowProvider>
   );
 }
@@ -16,6 +16,8 @@ import { cn } from '@/lib/utils';
 import WebhookSettings from './WebhookSettings';
 import ScheduleSettings from './ScheduleSettings';
 import AgentSettings from './AgentSettings';
+import WorkflowSettings from './WorkflowSettings';
+import WorkflowProblems from './WorkflowProblems';
 
 interface WorkflowHeaderProps {
   onSave: () => void;
@@ -30,6 +32,7 @@ export default function WorkflowHeader({ onSave, onRun, isSaving, isRunning, sho
   const navigate = useNavigate();
   const { workflowId, workflowName, setWorkflowName, isDirty } = useWorkflowStore();
   const [isEditing, setIsEditing] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
 
   return (
     <header className="h-14 border-b border-border bg-card flex items-center justify-between px-4">
@@ -80,6 +83,8 @@ export default function WorkflowHeader({ onSave, onRun, isSaving, isRunning, sho
           AI Editor
         </Button>
 
+        <WorkflowProblems />
+
         <Button variant="outline" size="sm" onClick={onSave} disabled={isSaving || !isDirty}>
           <Save className="mr-2 h-4 w-4" />
           {isSaving ? 'Saving...' : 'Save'}
@@ -97,13 +102,14 @@ export default function WorkflowHeader({ onSave, onRun, isSaving, isRunning, sho
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end">
-            <DropdownMenuItem>Workflow Settings</DropdownMenuItem>
+            <DropdownMenuItem onSelect={() => setSettingsOpen(true)}>Workflow Settings</DropdownMenuItem>
             <DropdownMenuItem>Version History</DropdownMenuItem>
             <DropdownMenuItem>Export as JSON</DropdownMenuItem>
             <DropdownMenuSeparator />
             <DropdownMenuItem className="text-destructive">Delete Workflow</DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
+        <WorkflowSettings workflowId={workflowId} open={settingsOpen} onOpenChange={setSettingsOpen} />
       </div>
     </header>
   );
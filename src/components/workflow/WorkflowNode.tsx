@@ -1,8 +1,9 @@
-import { memo } from 'react';
-import { Handle, Position, NodeProps, Node } from '@xyflow/react';
+import { Fragment, memo, useEffect } from 'react';
+import { Handle, Position, NodeProps, Node, useUpdateNodeInternals } from '@xyflow/react';
 import { cn } from '@/lib/utils';
 import { NodeData } from '@/stores/workflowStore';
-import { NODE_CATEGORIES } from './nodeTypes';
+import { NODE_CATEGORIES, getNodeDefinition } from './nodeTypes';
+import { SWITCH_FALLBACK_HANDLE, getSwitchOutputHandles } from '@nodes/logic/switch-cases.ts';
 import {
   Play, Webhook, Clock, Globe, Brain, Sparkles, Gem, Link, GitBranch,
   GitMerge, Repeat, Timer, ShieldAlert, Code, Braces, Table, Type,
@@ -10,7 +11,7 @@ import {
   CheckCircle, XCircle, Loader2,
   FileText, DatabaseZap, Calendar, Users,
   Layers, Edit, Edit3, Tag, Code2, ListChecks,
-  ArrowUpDown, List, Terminal, Calculator, Lock, Rss
+  ArrowUpDown, List, Terminal, Calculator, Lock, Rss, Pin, Workflow as WorkflowIcon
 } from 'lucide-react';
 
 const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
@@ -19,37 +20,30 @@ const iconMap: Record<string, React.ComponentType<{ className?: string }>> = {
   Combine, Send, Mail, MessageSquare, Database, Box, FileText, DatabaseZap,
   Calendar, CheckCircle, Users,
   XCircle, Layers, Edit, Edit3, Tag, Function: Code2, ListChecks, ArrowUpDown, List, Terminal,
-  Calculator, Lock, Rss
+  Calculator, Lock, Rss, Workflow: WorkflowIcon
 };
 
 type WorkflowNodeProps = Node<NodeData>;
 
-const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeProps>) => {
+const WorkflowNode = memo(({ id, data, selected }: NodeProps<WorkflowNodeProps>) => {
   const category = NODE_CATEGORIES.find((c) => c.id === data.category);
   const IconComponent = iconMap[data.icon] || Box;
   const isIfElseNode = data.type === 'if_else';
   const isSwitchNode = data.type === 'switch';
+  const isLoopNode = data.type === 'loop' || data.type === 'split_in_batches';
+  const hasErrorOutput = data.config?.onError === 'error_output';
+  const isPinned = data.pinnedData !== undefined;
+  const inputHandles = getNodeDefinition(data.type)?.inputHandles;
 
-  // Parse Switch cases to create output handles
-  // This will automatically update when data.config.cases changes
-  let switchCases: Array<{ value: string; label?: string }> = [];
-  if (isSwitchNode && data.config?.cases) {
-    try {
-      const casesConfig = data.config.cases;
-      if (typeof casesConfig === 'string') {
-        switchCases = JSON.parse(casesConfig);
-      } else if (Array.isArray(casesConfig)) {
-        switchCases = casesConfig;
-      }
-    } catch (error) {
-      console.error('Failed to parse Switch cases:', error);
-    }
-  }
+  // Switch output handles: one per case, then the fallback
+  const switchOutputs = isSwitchNode ? getSwitchOutputHandles(data.config ?? {}) : [];
+  const switchOutputsKey = switchOutputs.map((output) => output.id).join('\n');
 
-  // Create a key based on cases to help React identify when handles need to update
-  const switchCasesKey = isSwitchNode
-    ? JSON.stringify(switchCases.map(c => c.value).sort())
-    : '';
+  // React Flow caches handle positions, refresh them when the cases change
+  const updateNodeInternals = useUpdateNodeInternals();
+  useEffect(() => {
+    if (isSwitchNode) updateNodeInternals(id);
+  }, [id, isSwitchNode, switchOutputsKey, updateNodeInternals]);
 
   const status = data.executionStatus || 'idle';
 
@@ -87,11 +81,41 @@ const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeProps>) =>
           <XCircle className="h-4 w-4 text-red-500" />
         </div>
       )}
-      <Handle
-        type="target"
-        position={Position.Top}
-        className="!w-3 !h-3 !bg-muted-foreground !border-2 !border-background"
-      />
+      {/* Pinned output: manual runs use it instead of executing the node */}
+      {isPinned && (
+        <div
+          className="absolute -top-2.5 left-3 flex items-center gap-1 rounded-full border border-purple-500/30 bg-purple-500/10 px-1.5 py-0.5 text-[10px] font-medium text-purple-600 z-10"
+          title="Pinned data: manual runs use the pinned output"
+        >
+          <Pin className="h-2.5 w-2.5" />
+          pinned
+        </div>
+      )}
+      {inputHandles ? (
+        <>
+          <div className="absolute -top-6 left-1/2 -translate-x-1/2 flex gap-8 text-xs text-muted-foreground whitespace-nowrap">
+            {inputHandles.map((handle) => (
+              <span key={handle.id} className="font-medium">{handle.label}</span>
+            ))}
+          </div>
+          {inputHandles.map((handle, idx) => (
+            <Handle
+              key={handle.id}
+              type="target"
+              id={handle.id}
+              position={Position.Top}
+              className="!w-3 !h-3 !bg-muted-foreground !border-2 !border-background"
+              style={{ left: `${((idx + 1) * 100) / (inputHandles.length + 1)}%` }}
+            />
+          ))}
+        </>
+      ) : (
+        <Handle
+          type="target"
+          position={Position.Top}
+          className="!w-3 !h-3 !bg-muted-foreground !border-2 !border-background"
+        />
+      )}
 
       <div className="flex items-center gap-3">
         <div
@@ -106,6 +130,19 @@ const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeProps>) =>
         </div>
       </div>
 
+      {/* Error output handle (On Error: Route to Error Output) */}
+      {hasErrorOutput && (
+        <>
+          <span className="absolute -right-10 top-1/2 -translate-y-1/2 text-xs text-red-600 font-medium">Error</span>
+          <Handle
+            type="source"
+            id="error"
+            position={Position.Right}
+            className="!w-3 !h-3 !bg-red-500 !border-2 !border-background"
+          />
+        </>
+      )}
+
       {isIfElseNode ? (
         <div className="relative">
           <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 flex gap-8 text-xs text-muted-foreground">
@@ -127,57 +164,58 @@ const WorkflowNode = memo(({ data, selected }: NodeProps<WorkflowNodeProps>) =>
             style={{ left: '65%' }}
           />
         </div>
-      ) : isSwitchNode ? (
-        switchCases.length > 0 ? (
-          <div key={switchCasesKey} className="relative mt-2 pb-2 min-h-[40px]">
-            {/* Output handles - dynamically positioned based on number of cases */}
-            {switchCases.map((c, idx) => {
-              // Calculate position: evenly distribute handles across the bottom
-              // For 1 case: 50% (center)
-              // For 2 cases: 30% and 70%
-              // For 3+ cases: evenly spaced
-              let leftPercent: string;
-              if (switchCases.length === 1) {
-                leftPercent = '50%';
-              } else if (switchCases.length === 2) {
-                leftPercent = idx === 0 ? '30%' : '70%';
-              } else {
-                // For 3+ cases, distribute evenly: 20%, 40%, 60%, 80%, etc.
-                const spacing = 60 / (switchCases.length - 1);
-                leftPercent = `${20 + (idx * spacing)}%`;
-              }
-
-              return (
-                <Handle
-                  key={`${c.value}-${switchCasesKey}`}
-                  type="source"
-                  id={c.value}
-                  position={Position.Bottom}
-                  className="!w-3.5 !h-3.5 !bg-blue-500 hover:!bg-blue-600 !border-2 !border-background !relative z-10"
-                  style={{
-                    left: leftPercent,
-                    transform: 'translateX(-50%)'
-                  }}
-                />
-              );
-            })}
-            {/* Labels below handles */}
-            <div className="absolute -bottom-6 left-0 right-0 flex justify-center gap-2 text-xs text-muted-foreground flex-wrap px-1">
-              {switchCases.map((c, idx) => (
-                <span key={`label-${idx}-${c.value}`} className="text-xs font-medium whitespace-nowrap">
-                  {c.label || c.value}
-                </span>
-              ))}
-            </div>
+      ) : isLoopNode ? (
+        <div className="relative">
+          <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 flex gap-8 text-xs text-muted-foreground">
+            <span className="text-blue-600 font-medium">Each</span>
+            <span className="font-medium">Done</span>
           </div>
-        ) : (
-          // No cases configured yet - show single default handle
           <Handle
             type="source"
+            id="each"
+            position={Position.Bottom}
+            className="!w-3 !h-3 !bg-blue-500 !border-2 !border-background"
+            style={{ left: '35%' }}
+          />
+          <Handle
+            type="source"
+            id="done"
             position={Position.Bottom}
             className="!w-3 !h-3 !bg-muted-foreground !border-2 !border-background"
+            style={{ left: '65%' }}
           />
-        )
+        </div>
+      ) : isSwitchNode ? (
+        <div className="relative">
+          {/* Output handles evenly spaced across the bottom, labels below them */}
+          {switchOutputs.map((output, idx) => {
+            const left = `${((idx + 1) * 100) / (switchOutputs.length + 1)}%`;
+            const isFallback = output.id === SWITCH_FALLBACK_HANDLE;
+            return (
+              <Fragment key={output.id}>
+                <Handle
+                  type="source"
+                  id={output.id}
+                  position={Position.Bottom}
+                  className={cn(
+                    '!w-3 !h-3 !border-2 !border-background',
+                    isFallback ? '!bg-muted-foreground' : '!bg-blue-500 hover:!bg-blue-600'
+                  )}
+                  style={{ left }}
+                />
+                <span
+                  className={cn(
+                    'absolute -bottom-6 -translate-x-1/2 text-xs font-medium whitespace-nowrap',
+                    isFallback ? 'text-muted-foreground' : 'text-blue-600'
+                  )}
+                  style={{ left }}
+                >
+                  {output.label}
+                </span>
+              </Fragment>
+            );
+          })}
+        </div>
       ) : (
         <Handle
           type="source"
@@ -0,0 +1,81 @@
+import { useMemo, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useWorkflowStore } from '@/stores/workflowStore';
+import { validateWorkflow } from '@/lib/workflowValidation';
+import { cn } from '@/lib/utils';
+
+/**
+ * Problems of the workflow (the checks the engine runs before starting it).
+ * Errors block a run, warnings do not; clicking a problem selects its node.
+ */
+export default function WorkflowProblems() {
+  const { nodes, edges, selectNode } = useWorkflowStore();
+  const [open, setOpen] = useState(false);
+  const problems = useMemo(() => validateWorkflow(nodes, edges), [nodes, edges]);
+
+  const errorCount = problems.filter((p) => p.severity === 'error').length;
+  const warningCount = problems.length - errorCount;
+
+  const showProblem = (nodeId?: string) => {
+    const node = nodes.find((n) => n.id === nodeId);
+    if (node) {
+      selectNode(node);
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'gap-1.5',
+            errorCount > 0 ? 'text-destructive' : warningCount > 0 ? 'text-amber-600' : 'text-muted-foreground'
+          )}
+          title="Workflow problems"
+        >
+          {errorCount > 0 ? (
+            <AlertCircle className="h-4 w-4" />
+          ) : warningCount > 0 ? (
+            <AlertTriangle className="h-4 w-4" />
+          ) : (
+            <CheckCircle className="h-4 w-4" />
+          )}
+          {problems.length > 0 && <span className="text-xs font-medium">{problems.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <div className="border-b border-border px-3 py-2 text-sm font-medium">
+          {problems.length === 0
+            ? 'No problems found'
+            : `${errorCount} error${errorCount === 1 ? '' : 's'}, ${warningCount} warning${warningCount === 1 ? '' : 's'}`}
+        </div>
+        {problems.length > 0 && (
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {problems.map((problem, idx) => (
+              <li key={`${problem.code}-${problem.nodeId ?? problem.edgeId ?? ''}-${idx}`}>
+                <button
+                  type="button"
+                  onClick={() => showProblem(problem.nodeId)}
+                  disabled={!problem.nodeId}
+                  className="flex w-full items-start gap-2 px-3 py-1.5 text-left text-xs hover:bg-muted disabled:hover:bg-transparent"
+                >
+                  {problem.severity === 'error' ? (
+                    <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+                  ) : (
+                    <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-600" />
+                  )}
+                  <span>{problem.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+
+interface WorkflowSelectProps {
+  value: string | undefined;
+  onChange: (workflowId: string) => void;
+}
+
+interface WorkflowSummary {
+  id: string;
+  name: string;
+  // Inputs declared on the workflow's Workflow Trigger node
+  inputs: Record<string, string> | null;
+}
+
+function getDeclaredInputs(nodes: unknown): Record<string, string> | null {
+  if (!Array.isArray(nodes)) return null;
+  const trigger = nodes.find(n => n?.data?.type === 'workflow_trigger');
+  let inputs = trigger?.data?.config?.inputs;
+  if (typeof inputs === 'string') {
+    try {
+      inputs = inputs.trim() ? JSON.parse(inputs) : null;
+    } catch {
+      return null;
+    }
+  }
+  return inputs && typeof inputs === 'object' && !Array.isArray(inputs) ? inputs : null;
+}
+
+export default function WorkflowSelect({ value, onChange }: WorkflowSelectProps) {
+  const [workflows, setWorkflows] = useState<WorkflowSummary[]>([]);
+
+  useEffect(() => {
+    const loadWorkflows = async () => {
+      const { data, error } = await supabase
+        .from('workflows')
+        .select('id, name, nodes')
+        .order('name');
+
+      if (error) {
+        console.error('Error loading workflows:', error);
+        return;
+      }
+      setWorkflows((data || []).map(w => ({ id: w.id, name: w.name, inputs: getDeclaredInputs(w.nodes) })));
+    };
+
+    loadWorkflows();
+  }, []);
+
+  const selected = workflows.find(w => w.id === value);
+
+  return (
+    <div className="space-y-2">
+      <Select value={value || undefined} onValueChange={onChange}>
+        <SelectTrigger className="h-9">
+          <SelectValue placeholder="Select workflow" />
+        </SelectTrigger>
+        <SelectContent>
+          {workflows.map((workflow) => (
+            <SelectItem key={workflow.id} value={workflow.id}>
+              {workflow.name}
+            </SelectItem>
+          ))}
+          {value && workflows.length > 0 && !selected && (
+            <SelectItem value={value}>Unavailable workflow</SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {selected.inputs
+            ? `Inputs: ${Object.entries(selected.inputs).map(([name, type]) => `${name} (${type})`).join(', ')}`
+            : 'This workflow accepts any input'}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import WorkflowStaticData from './WorkflowStaticData';
+
+interface WorkflowSettingsProps {
+  workflowId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const MAX_CONCURRENCY_LIMIT = 20;
+const DEFAULT_MAX_CONCURRENT_EXECUTIONS = 5;
+const MAX_CONCURRENT_EXECUTIONS_LIMIT = 100;
+
+export default function WorkflowSettings({ workflowId, open, onOpenChange }: WorkflowSettingsProps) {
+  const [maxConcurrency, setMaxConcurrency] = useState(DEFAULT_MAX_CONCURRENCY);
+  const [maxConcurrentExecutions, setMaxConcurrentExecutions] = useState(DEFAULT_MAX_CONCURRENT_EXECUTIONS);
+  // One field path per line
+  const [redactedFields, setRedactedFields] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadSettings = useCallback(async () => {
+    if (!workflowId || workflowId === 'new') return;
+
+    const { data, error } = await supabase
+      .from('workflows')
+      .select('max_concurrency, max_concurrent_executions, redacted_fields')
+      .eq('id', workflowId)
+      .single();
+
+    if (error) {
+      console.error('Error loading workflow settings:', error);
+      return;
+    }
+
+    setMaxConcurrency(data?.max_concurrency ?? DEFAULT_MAX_CONCURRENCY);
+    setMaxConcurrentExecutions(data?.max_concurrent_executions ?? DEFAULT_MAX_CONCURRENT_EXECUTIONS);
+    setRedactedFields((data?.redacted_fields ?? []).join('\n'));
+  }, [workflowId]);
+
+  useEffect(() => {
+    if (open) {
+      loadSettings();
+    }
+  }, [open, loadSettings]);
+
+  const handleSave = async () => {
+    if (!workflowId || workflowId === 'new') {
+      toast({
+        title: 'Save workflow first',
+        description: 'Please save the workflow before changing its settings.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const value = Math.min(Math.max(Math.floor(maxConcurrency) || 1, 1), MAX_CONCURRENCY_LIMIT);
+    const executionLimit = Math.min(
+      Math.max(Math.floor(maxConcurrentExecutions) || 1, 1),
+      MAX_CONCURRENT_EXECUTIONS_LIMIT
+    );
+    const redactedPaths = redactedFields.split(/[\n,]/).map((path) => path.trim()).filter(Boolean);
+    setLoading(true);
+
+    const { error } = await supabase
+      .from('workflows')
+      .update({ max_concurrency: value, max_concurrent_executions: executionLimit, redacted_fields: redactedPaths })
+      .eq('id', workflowId);
+
+    setLoading(false);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update workflow settings.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setMaxConcurrency(value);
+    setMaxConcurrentExecutions(executionLimit);
+    setRedactedFields(redactedPaths.join('\n'));
+    toast({
+      title: 'Settings saved',
+      description: value === 1
+        ? 'Nodes will run one at a time.'
+        : `Up to ${value} independent nodes will run in parallel.`,
+    });
+
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Workflow Settings</DialogTitle>
+          <DialogDescription>
+            Configure how this workflow is executed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-2">
+            <Label>Max Parallel Nodes</Label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY_LIMIT}
+              value={maxConcurrency}
+              onChange={(e) => setMaxConcurrency(parseInt(e.target.value, 10) || 1)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Nodes on independent branches run at the same time, up to this limit. Set to 1 to run nodes one at a time.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Max Concurrent Executions</Label>
+            <Input
+              type="number"
+              min={1}
+              max={MAX_CONCURRENT_EXECUTIONS_LIMIT}
+              value={maxConcurrentExecutions}
+              onChange={(e) => setMaxConcurrentExecutions(parseInt(e.target.value, 10) || 1)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Webhook calls beyond this many running executions are queued and started in order as executions finish.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label>Redacted Fields</Label>
+            <Textarea
+              value={redactedFields}
+              placeholder={'ssn\ncustomer.cardNumber\nbody.*.secretAnswer'}
+              onChange={(e) => setRedactedFields(e.target.value)}
+              className="min-h-[80px] font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Masked in execution logs, one per line: a field name hides it at any depth, a dot path hides it at that
+              position of node inputs and outputs (* matches any field). Credential values and keys like password,
+              apiKey, token or authorization are always masked.
+            </p>
+          </div>
+          {workflowId && workflowId !== 'new' && <WorkflowStaticData workflowId={workflowId} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={loading}>
+            {loading ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+interface WorkflowStaticDataProps {
+  workflowId: string;
+}
+
+interface StaticDataEntry {
+  key: string;
+  // Value as edited: JSON text
+  value: string;
+  saved: string;
+}
+
+function toEntry(key: string, value: unknown): StaticDataEntry {
+  const text = JSON.stringify(value, null, 2);
+  return { key, value: text, saved: text };
+}
+
+/**
+ * Values the workflow keeps across executions ($static, changed by the Static Data node).
+ * Changes here are saved right away, independently of the other settings.
+ */
+export default function WorkflowStaticData({ workflowId }: WorkflowStaticDataProps) {
+  const [entries, setEntries] = useState<StaticDataEntry[]>([]);
+  const [newKey, setNewKey] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadStaticData = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('workflow_static_data')
+      .select('key, value')
+      .eq('workflow_id', workflowId)
+      .order('key');
+
+    if (error) {
+      console.error('Error loading static data:', error);
+      return;
+    }
+
+    setEntries((data ?? []).map((row) => toEntry(row.key, row.value)));
+  }, [workflowId]);
+
+  useEffect(() => {
+    loadStaticData();
+  }, [loadStaticData]);
+
+  const showError = (description: string) => {
+    toast({ title: 'Error', description, variant: 'destructive' });
+  };
+
+  const saveEntry = async (key: string, text: string) => {
+    let value: Json;
+    try {
+      value = JSON.parse(text) as Json;
+    } catch {
+      showError(`The value of "${key}" is not valid JSON.`);
+      return false;
+    }
+
+    setLoading(true);
+    const { error } = await supabase
+      .from('workflow_static_data')
+      .upsert({ workflow_id: workflowId, key, value }, { onConflict: 'workflow_id,key' });
+    setLoading(false);
+
+    if (error) {
+      showError(`Failed to save "${key}".`);
+      return false;
+    }
+
+    const entry = toEntry(key, value);
+    setEntries((prev) =>
+      prev.some((e) => e.key === key)
+        ? prev.map((e) => (e.key === key ? entry : e))
+        : [...prev, entry].sort((a, b) => a.key.localeCompare(b.key))
+    );
+    return true;
+  };
+
+  const addEntry = async () => {
+    const key = newKey.trim();
+    if (!key) return;
+    if (entries.some((e) => e.key === key)) {
+      showError(`"${key}" already exists.`);
+      return;
+    }
+    if (await saveEntry(key, 'null')) {
+      setNewKey('');
+    }
+  };
+
+  const deleteEntry = async (key: string) => {
+    setLoading(true);
+    const { error } = await supabase
+      .from('workflow_static_data')
+      .delete()
+      .eq('workflow_id', workflowId)
+      .eq('key', key);
+    setLoading(false);
+
+    if (error) {
+      showError(`Failed to delete "${key}".`);
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.key !== key));
+  };
+
+  const resetAll = async () => {
+    if (!confirm('Delete all static data of this workflow? The next execution starts without stored values.')) return;
+
+    setLoading(true);
+    const { error } = await supabase
+      .from('workflow_static_data')
+      .delete()
+      .eq('workflow_id', workflowId);
+    setLoading(false);
+
+    if (error) {
+      showError('Failed to reset static data.');
+      return;
+    }
+    setEntries([]);
+    toast({ title: 'Static data reset', description: 'All stored values were deleted.' });
+  };
+
+  const updateValue = (key: string, value: string) => {
+    setEntries((prev) => prev.map((e) => (e.key === key ? { ...e, value } : e)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Static Data</Label>
+        <Button variant="ghost" size="sm" onClick={resetAll} disabled={loading || entries.length === 0}>
+          Reset All
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Values kept across executions, read in expressions as {'{{$static.key}}'} and changed by the Static Data node.
+        Values are JSON; changes are saved right away.
+      </p>
+
+      {entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground italic">No stored values.</p>
+      ) : (
+        <div className="max-h-64 space-y-3 overflow-y-auto pr-1">
+          {entries.map((entry) => (
+            <div key={entry.key} className="space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <code className="truncate text-xs font-medium">{entry.key}</code>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Save value"
+                    onClick={() => saveEntry(entry.key, entry.value)}
+                    disabled={loading || entry.value === entry.saved}
+                  >
+                    <Save className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Delete value"
+                    onClick={() => deleteEntry(entry.key)}
+                    disabled={loading}
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={entry.value}
+                onChange={(e) => updateValue(entry.key, e.target.value)}
+                className="min-h-[60px] font-mono text-xs"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          value={newKey}
+          placeholder="New key, e.g. lastSeenId"
+          onChange={(e) => setNewKey(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addEntry();
+          }}
+        />
+        <Button variant="outline" size="icon" title="Add value" onClick={addEntry} disabled={loading || !newKey.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
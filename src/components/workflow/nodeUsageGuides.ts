@@ -1,133 +1,26 @@
+import { NODE_SCHEMAS } from '@nodes/index.ts';
 import { NodeUsageGuide } from './nodeTypes';
 
 export const NODE_USAGE_GUIDES: Record<string, NodeUsageGuide> = {
-  // Trigger Nodes
-  manual_trigger: {
-    overview: 'Starts your workflow when you click the "Run" button. Perfect for testing or on-demand tasks. No input required - fires once per manual execution.',
-    inputs: ['None - This is a start node'],
-    outputs: ['trigger', 'workflow_id', 'executed_at'],
-    example: `Connect → OpenAI GPT → Slack Message
-
-When you click Run, the workflow executes.
-Output: { 
-  trigger: "manual",
-  workflow_id: "uuid",
-  executed_at: "2024-01-15T10:30:00Z"
-}`,
-    tips: ['Use for testing before adding automated triggers', 'Can pass custom input data when running', 'workflow_id is auto-generated', 'executed_at is ISO-8601 timestamp'],
-  },
-
-  schedule: {
-    overview: 'Runs your workflow automatically on a schedule using a simple time picker. Select your time (HH:MM format) and timezone, and the workflow will execute daily at that time. Great for daily reports, periodic checks, or recurring tasks.',
-    inputs: ['None - Triggered by schedule'],
-    outputs: ['trigger', 'time', 'cron', 'timezone', 'executed_at'],
-    example: `Time: "09:00"
-Timezone: "Asia/Kolkata" (IST)
-Meaning: Daily at 9:00 AM Indian Standard Time
-
-Time: "14:30"
-Timezone: "America/New_York"
-Meaning: Daily at 2:30 PM Eastern Time
-
-Output: {
-  trigger: "schedule",
-  time: "09:00",
-  cron: "0 9 * * *",
-  timezone: "Asia/Kolkata",
-  executed_at: "2024-01-15T03:30:00Z"
-}`,
-    tips: ['Use 24-hour format (e.g., 09:00 for 9 AM, 14:30 for 2:30 PM)', 'Select your timezone from the dropdown (IST, UTC, etc.)', 'Workflow runs daily at the specified time', 'Test with manual trigger first', 'Timezone conversion is handled automatically'],
-  },
-
-  webhook: {
-    overview: 'Receives HTTP requests from external services. Use this to trigger workflows from other apps, APIs, or services. Parses headers, query parameters, and JSON body safely.',
-    inputs: ['HTTP request body', 'Headers', 'Query params'],
-    outputs: ['trigger', 'method', 'headers', 'query', 'body'],
-    example: `Webhook URL: https://your-app.com/api/webhook/abc123
-
-External Service sends POST:
+  // Guides of registered node types live in their modules
+  ...Object.fromEntries(NODE_SCHEMAS.filter(schema => schema.usageGuide).map(schema => [schema.type, schema.usageGuide])),
+
+  execute_workflow: {
+    overview: 'Runs another of your workflows with mapped inputs. Waits for it and returns its output, or queues it (fire and forget). The called execution is linked to this one and can be opened from the execution details.',
+    inputs: ['any'],
+    outputs: ['wait: output of the called workflow', 'fire and forget: executionId, workflowId, status'],
+    example: `Inputs (JSON):
 {
-  "event": "order_created",
-  "data": { "id": 123, "total": 99.99 }
+  "orderId": "{{input.id}}",
+  "email": "{{input.customer.email}}"
 }
 
-Output: { 
-  trigger: "webhook",
-  method: "POST",
-  headers: {"Content-Type": "application/json"},
-  query: {},
-  body: {"event": "order_created", "data": {...}}
-}`,
-    tips: ['Copy the webhook URL after saving', 'Supports GET, POST, PUT methods', 'Headers and query params are available in output', 'JSON body is parsed safely'],
-  },
-
-  chat_trigger: {
-    overview: 'Triggers workflow from chat / AI / UI messages. Perfect for chatbot integrations and AI assistants. Requires message and session_id.',
-    inputs: ['message (required)', 'session_id (required)', 'user_context (optional)'],
-    outputs: ['trigger', 'message', 'session_id', 'user_context'],
-    example: `Chat Input:
-{
-  "message": "Hello, how can I help?",
-  "session_id": "session_123",
-  "user_context": {"name": "John", "role": "user"}
-}
-
-Output: {
-  trigger: "chat",
-  message: "Hello, how can I help?",
-  session_id: "session_123",
-  user_context: {"name": "John", "role": "user"}
-}`,
-    tips: ['message cannot be empty', 'session_id is required', 'user_context is optional and normalized to object', 'Perfect for chatbot integrations'],
-  },
-
-  error_trigger: {
-    overview: 'Automatically fires when any node fails in the workflow. Global scope - cannot be manually executed. Fires on unhandled exceptions.',
-    inputs: ['Error information from failed node'],
-    outputs: ['trigger', 'failed_node', 'error_message', 'stack_trace'],
-    example: `When a node fails:
-
-Output: {
-  trigger: "error",
-  failed_node: "http_request",
-  error_message: "HTTP Request failed: Connection timeout",
-  stack_trace: "Error: Connection timeout\n    at executeNode..."
-}`,
-    tips: ['Cannot be manually executed', 'Fires automatically on node failures', 'Global scope - catches all errors', 'Use for error logging and recovery workflows'],
-  },
-
-  interval: {
-    overview: 'Runs workflow repeatedly at fixed intervals. Non-blocking and prevents duplicate executions. Supports seconds (s), minutes (m), and hours (h) units.',
-    inputs: ['None - Triggered by interval'],
-    outputs: ['trigger', 'interval', 'executed_at'],
-    example: `Interval: "10m" (every 10 minutes)
-Interval: "30s" (every 30 seconds)
-Interval: "1h" (every 1 hour)
+Wait for Completion output (last node of the called workflow):
+{ "invoiceId": "INV-123", "sent": true }
 
-Output: {
-  trigger: "interval",
-  interval: "10m",
-  executed_at: "2024-01-15T10:30:00Z"
-}`,
-    tips: ['Use format: number + unit (s/m/h)', 'Examples: 30s, 5m, 1h', 'Non-blocking execution', 'Duplicate executions are prevented', 'Deactivate when not needed'],
-  },
-
-  workflow_trigger: {
-    overview: 'Triggers one workflow from another workflow. Accepts source workflow_id and passes execution payload. Prevents circular triggers.',
-    inputs: ['payload from source workflow'],
-    outputs: ['trigger', 'source_workflow_id', 'payload'],
-    example: `Source Workflow A triggers Target Workflow B:
-
-Workflow B receives:
-{
-  trigger: "workflow",
-  source_workflow_id: "workflow-a-uuid",
-  payload: {
-    "order_id": 123,
-    "status": "completed"
-  }
-}`,
-    tips: ['source_workflow_id is required', 'Payload is passed from source workflow', 'Prevents circular triggers', 'Great for workflow orchestration'],
+Fire and Forget output:
+{ "executionId": "…", "workflowId": "…", "status": "queued" }`,
+    tips: ['Declare inputs on the Workflow Trigger node of the called workflow', 'A single {{expression}} keeps its type (numbers, objects)', 'A failed called workflow fails this node', 'Workflows can be nested up to 5 levels', 'Use fire and forget for workflows with long Wait nodes'],
   },
 
   // AI Processing
@@ -213,51 +106,75 @@ If score is 0.3 → Takes FALSE branch
 
 Connect TRUE → Send Happy Email
 Connect FALSE → Send Followup Email`,
-    tips: ['Use {{input.field}} to reference data', 'Supports ==, !=, >, <, >=, <=', 'Combine conditions with && or ||'],
+    tips: ['Use {{input.field}} or input.field to reference data', 'Supports ==, !=, >, <, >=, <=, + - * / %, !, ?? and cond ? a : b', 'Combine conditions with && or ||', 'Helpers: len, lower, upper, contains, startsWith, isEmpty, round, sum... e.g. contains(lower(input.subject), "urgent")', 'Missing fields are undefined instead of errors: input.user.address.city'],
   },
 
   switch: {
-    overview: 'Routes to different branches based on matching values. Like multiple if/else statements combined.',
+    overview: 'Routes to different branches based on rules. Each case has its own output; values no case matches go to the Fallback output.',
     inputs: ['value to match'],
-    outputs: ['matched_case', 'default'],
+    outputs: ['one output per case', 'fallback'],
     example: `Expression: {{input.status}}
 Cases: [
   {"value": "pending", "label": "Pending"},
   {"value": "approved", "label": "Approved"},
-  {"value": "rejected", "label": "Rejected"}
+  {"operator": "starts_with", "value": "rej", "ignoreCase": true, "label": "Rejected"}
 ]
 
-Connects to different nodes based on status value.`,
-    tips: ['Add a default case for unmatched values', 'Great for status-based routing', 'Each case can connect to different nodes'],
+Expression: {{input.total}}
+Cases: [
+  {"operator": "lt", "value": 100, "output": "small"},
+  {"operator": "between", "min": 100, "max": 1000, "output": "medium"},
+  {"operator": "expression", "value": "input.total > 1000 && input.country == 'DE'", "output": "large_de"}
+]`,
+    tips: [
+      'Connect the Fallback output to handle unmatched values',
+      'Match "All matching cases" sends the input to every matching output instead of the first',
+      'Case values and bounds can hold templates, e.g. {"operator": "gt", "value": "{{input.limit}}"}',
+      'Set "output" to name the output of rule-based cases',
+      'Templates can hold expressions, e.g. {{lower(input.status)}}',
+    ],
   },
 
   loop: {
-    overview: 'Iterates over an array of items, executing connected nodes for each item. Useful for batch processing.',
+    overview: 'Iterates over an array of items and runs the nodes connected to its "Each" output once per item. The results are collected and passed to the "Done" output.',
     inputs: ['array of items'],
-    outputs: ['current_item', 'index', 'results'],
+    outputs: ['each: { item, index, total }', 'done: array of results'],
     example: `Input: { items: ["email1", "email2", "email3"] }
 Array Expression: {{input.items}}
 
-Loop executes 3 times:
-• Iteration 1: current_item = "email1"
-• Iteration 2: current_item = "email2"
-• Iteration 3: current_item = "email3"`,
-    tips: ['Set max iterations to prevent infinite loops', 'Access current item with {{loop.item}}', 'Results collected after all iterations'],
+"Each" branch runs 3 times:
+• Iteration 1: { item: "email1", index: 0, total: 3 }
+• Iteration 2: { item: "email2", index: 1, total: 3 }
+• Iteration 3: { item: "email3", index: 2, total: 3 }
+
+"Done" receives the output of the last node in the branch for every iteration.`,
+    tips: ['Set max iterations to prevent infinite loops', 'Access current item with {{item}}', 'Iterations skipped by an If/Else inside the branch produce no result'],
+  },
+
+  split_in_batches: {
+    overview: 'Splits an array into batches and runs the nodes connected to its "Each" output once per batch. Useful for rate-limited APIs.',
+    inputs: ['array of items'],
+    outputs: ['each: items of one batch', 'done: combined results'],
+    example: `Input: { items: [1, 2, 3, 4, 5] }
+Batch Size: 2
+
+"Each" branch runs 3 times with [1, 2], [3, 4] and [5].
+"Done" receives the results of all batches as one list.`,
+    tips: ['Nodes inside the branch run once per item of the batch', 'Combine with Wait to throttle requests'],
   },
 
   wait: {
-    overview: 'Pauses workflow execution for a specified duration. Use for rate limiting or delays between actions.',
+    overview: 'Pauses workflow execution for a duration, until a date/time, or until a resume webhook is called. Short waits (up to 5s) sleep in place; longer waits suspend the execution (status "waiting") and resume it later without holding the function open.',
     inputs: ['any (passes through)'],
-    outputs: ['input (unchanged)'],
-    example: `Duration: 5000 (5 seconds)
-
-API Call → Wait (5s) → API Call
-Prevents hitting rate limits.
+    outputs: ['input (unchanged)', 'resume (webhook mode: data sent to the resume webhook)', 'resumedBy (webhook mode: "webhook" or "timeout")'],
+    example: `Resume: After Duration, Duration: 3600000 (1 hour)
+Resume: At Date/Time, Resume At: 2025-01-31T09:00:00Z
 
-Common durations:
-• 1000ms = 1 second
-• 60000ms = 1 minute`,
-    tips: ['Use between API calls to avoid rate limits', 'Data passes through unchanged', 'Duration is in milliseconds'],
+Approval flow (webhook mode):
+Form → Send Email (approval link) → Wait (On Webhook Call) → If/Else
+The execution page shows the resume URL while waiting.
+POST {"approved": true} to it → {{input.resume.approved}}`,
+    tips: ['Use between API calls to avoid rate limits', 'Data passes through unchanged', 'Duration is in milliseconds', 'Suspended executions are resumed by the resume-execution function (schedule it every minute)', 'Waits inside loop bodies cannot suspend - keep them under 5 seconds'],
   },
 
   error_handler: {
@@ -288,12 +205,12 @@ Input: [
   {name: "Bob", age: 30}
 ]
 Output: [John, Bob] (filtered out Jane)`,
-    tips: ['Use "item" to reference current element', 'Returns new array, original unchanged', 'Chain multiple filters for complex logic'],
+    tips: ['Use "item" to reference current element, or its fields directly (age >= 18)', 'Uses the same expressions as If/Else, e.g. contains(item.tags, "vip") && item.total > 100', 'Returns new array, original unchanged', 'Chain multiple filters for complex logic'],
   },
 
   // Data Transformation
   javascript: {
-    overview: 'Execute custom JavaScript code. Full access to input data with ability to transform, calculate, or process as needed.',
+    overview: 'Execute custom JavaScript code in an isolated sandbox with access to the input data. The sandbox has no network, environment or file access; console output is shown in the execution log.',
     inputs: ['any data as "input"'],
     outputs: ['return value'],
     example: `Code:
@@ -308,7 +225,7 @@ return {
 
 Input: {items: [{price: 10}, {price: 20}]}
 Output: {total: 30, count: 2, average: 15}`,
-    tips: ['Always return a value', 'Input available as "input" variable', 'Use for complex transformations'],
+    tips: ['Always return a value', 'Input available as "input" variable', 'Use for complex transformations', 'helpers: get, isEmpty, toNumber, sum, groupBy, unique, chunk, formatDate', 'Limits: 60s time, 64MB memory, 5MB input/output', 'Standard JavaScript built-ins plus setTimeout; web APIs such as fetch, URL or TextEncoder are not available'],
   },
 
   json_parser: {
@@ -337,7 +254,7 @@ Output: ["john@test.com", "jane@test.com"]`,
 
 Input: {name: "John", orderId: 123, shipDate: "Jan 20"}
 Output: "Hello John! Your order #123 ships on Jan 20."`,
-    tips: ['Use {{variable}} for substitution', 'Supports nested: {{user.name}}', 'Great for email/message templates'],
+    tips: ['Use {{variable}} for substitution', 'Supports nested: {{user.name}}', 'Reach earlier nodes with {{$node["Fetch Orders"].output.items[0].id}} and the trigger data with {{$trigger.body}}', '{{$execution.id}} and {{$workflow.name}} identify the run', 'Great for email/message templates'],
   },
 
   http_request: {
@@ -352,7 +269,7 @@ Output: {
   response: {id: 1, name: "John"},
   status: 200
 }`,
-    tips: ['Use {{input.x}} in URL for dynamic values', 'Add auth headers for protected APIs', 'Set timeout for slow APIs'],
+    tips: ['Use {{input.x}} in URL for dynamic values', 'Use {{$node["Node Name"].output.field}} for data from any earlier node', 'Add auth headers for protected APIs', 'Set timeout for slow APIs'],
   },
 
   set_variable: {
@@ -368,6 +285,25 @@ Useful for storing computed values to use in multiple places.`,
     tips: ['Access with {{variables.name}}', 'Great for values used multiple times', 'Persists through entire workflow'],
   },
 
+  static_data: {
+    overview: 'Read and update values that are kept across executions of the workflow, like the cursor of a polling workflow. Each update of a key is atomic, so concurrent executions never lose a write.',
+    inputs: ['any value'],
+    outputs: ['input fields', 'staticData.key', 'staticData.value', 'staticData.updated'],
+    example: `Poll new rows since the last run:
+1. Database Read with filter id > {{$static.lastSeenId ?? 0}}
+2. Static Data - Operation: Keep Maximum, Key: lastSeenId, Value: {{input.id}}
+
+Count runs:
+Operation: Increment, Key: runCount
+Later nodes and runs read {{$static.runCount}}`,
+    tips: [
+      'Every expression can read the values as {{$static.key}}',
+      'Use a single {{expression}} as value to store numbers, lists or objects',
+      'Compare and Set only writes while the stored value equals Expected Value (updated tells whether it did)',
+      'View, edit or reset the values in the workflow settings',
+    ],
+  },
+
   google_sheets: {
     overview: 'Read or write data from Google Sheets. Connect your spreadsheets to workflows for data analysis, validation, and automation.',
     inputs: ['spreadsheet_id', 'range', 'data (for write operations)'],
@@ -397,22 +333,6 @@ AI Agent can then analyze, filter, or process this data.`,
     ],
   },
 
-  merge_data: {
-    overview: 'Combine data from multiple sources. Merge objects together or concatenate arrays.',
-    inputs: ['multiple data inputs'],
-    outputs: ['merged_data'],
-    example: `Mode: "merge"
-Inputs from two nodes:
-  1: {name: "John", age: 30}
-  2: {email: "john@test.com"}
-
-Output: {name: "John", age: 30, email: "john@test.com"}
-
-Mode: "concat" for arrays:
-  [1,2] + [3,4] = [1,2,3,4]`,
-    tips: ['Merge combines object properties', 'Concat joins arrays', 'Connect multiple nodes as inputs'],
-  },
-
   database_read: {
     overview: 'Read data from your database tables. Query with filters, ordering, and limits.',
     inputs: ['filter criteria'],
@@ -47,50 +47,127 @@ export type Database = {
         }
         Relationships: []
       }
+      credentials: {
+        Row: {
+          created_at: string
+          data: string
+          id: string
+          name: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data: string
+          id?: string
+          name: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: string
+          id?: string
+          name?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       executions: {
         Row: {
           duration_ms: number | null
           error: string | null
+          error_handled: boolean
           finished_at: string | null
           id: string
           input: Json | null
           logs: Json | null
           output: Json | null
+          parent_execution_id: string | null
+          partial_until: string | null
+          queued_at: string | null
+          resume_at: string | null
+          resume_state: Json | null
+          resume_token: string | null
+          retry_of: string | null
           started_at: string
           status: Database["public"]["Enums"]["execution_status"]
+          trace_id: string | null
+          traceparent: string | null
           trigger: Database["public"]["Enums"]["execution_trigger"]
           user_id: string | null
           workflow_id: string
+          workflow_snapshot: Json | null
         }
         Insert: {
           duration_ms?: number | null
           error?: string | null
+          error_handled?: boolean
           finished_at?: string | null
           id?: string
           input?: Json | null
           logs?: Json | null
           output?: Json | null
+          parent_execution_id?: string | null
+          partial_until?: string | null
+          queued_at?: string | null
+          resume_at?: string | null
+          resume_state?: Json | null
+          resume_token?: string | null
+          retry_of?: string | null
           started_at?: string
           status?: Database["public"]["Enums"]["execution_status"]
+          trace_id?: string | null
+          traceparent?: string | null
           trigger?: Database["public"]["Enums"]["execution_trigger"]
           user_id?: string | null
           workflow_id: string
+          workflow_snapshot?: Json | null
         }
         Update: {
           duration_ms?: number | null
           error?: string | null
+          error_handled?: boolean
           finished_at?: string | null
           id?: string
           input?: Json | null
           logs?: Json | null
           output?: Json | null
+          parent_execution_id?: string | null
+          partial_until?: string | null
+          queued_at?: string | null
+          resume_at?: string | null
+          resume_state?: Json | null
+          resume_token?: string | null
+          retry_of?: string | null
           started_at?: string
           status?: Database["public"]["Enums"]["execution_status"]
+          trace_id?: string | null
+          traceparent?: string | null
           trigger?: Database["public"]["Enums"]["execution_trigger"]
           user_id?: string | null
           workflow_id?: string
+          workflow_snapshot?: Json | null
         }
         Relationships: [
+          {
+            foreignKeyName: "executions_parent_execution_id_fkey"
+            columns: ["parent_execution_id"]
+            isOneToOne: false
+            referencedRelation: "executions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "executions_retry_of_fkey"
+            columns: ["retry_of"]
+            isOneToOne: false
+            referencedRelation: "executions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "executions_workflow_id_fkey"
             columns: ["workflow_id"]
@@ -332,6 +409,67 @@ export type Database = {
         }
         Relationships: []
       }
+      workflow_schedules: {
+        Row: {
+          last_run_at: string | null
+          next_run_at: string | null
+          state: Json
+          updated_at: string
+          workflow_id: string
+        }
+        Insert: {
+          last_run_at?: string | null
+          next_run_at?: string | null
+          state?: Json
+          updated_at?: string
+          workflow_id: string
+        }
+        Update: {
+          last_run_at?: string | null
+          next_run_at?: string | null
+          state?: Json
+          updated_at?: string
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_schedules_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: true
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_static_data: {
+        Row: {
+          key: string
+          updated_at: string
+          value: Json
+          workflow_id: string
+        }
+        Insert: {
+          key: string
+          updated_at?: string
+          value?: Json
+          workflow_id: string
+        }
+        Update: {
+          key?: string
+          updated_at?: string
+          value?: Json
+          workflow_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_static_data_workflow_id_fkey"
+            columns: ["workflow_id"]
+            isOneToOne: false
+            referencedRelation: "workflows"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workflow_versions: {
         Row: {
           comment: string | null
@@ -385,8 +523,11 @@ export type Database = {
           id: string
           is_public: boolean
           is_template: boolean
+          max_concurrency: number
+          max_concurrent_executions: number
           name: string
           nodes: Json
+          redacted_fields: string[]
           status: Database["public"]["Enums"]["workflow_status"]
           tags: string[] | null
           team_id: string | null
@@ -404,8 +545,11 @@ export type Database = {
           id?: string
           is_public?: boolean
           is_template?: boolean
+          max_concurrency?: number
+          max_concurrent_executions?: number
           name: string
           nodes?: Json
+          redacted_fields?: string[]
           status?: Database["public"]["Enums"]["workflow_status"]
           tags?: string[] | null
           team_id?: string | null
@@ -423,8 +567,11 @@ export type Database = {
           id?: string
           is_public?: boolean
           is_template?: boolean
+          max_concurrency?: number
+          max_concurrent_executions?: number
           name?: string
           nodes?: Json
+          redacted_fields?: string[]
           status?: Database["public"]["Enums"]["workflow_status"]
           tags?: string[] | null
           team_id?: string | null
@@ -449,6 +596,19 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_queued_executions: {
+        Args: { batch_size?: number; stale_after?: unknown; user_limit?: number }
+        Returns: Database["public"]["Tables"]["executions"]["Row"][]
+      }
+      get_scheduled_workflows: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          cron_expression: string
+          id: string
+          nodes: Json
+          user_id: string
+        }[]
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -464,6 +624,19 @@ export type Database = {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
       }
+      update_workflow_static_data: {
+        Args: {
+          _expected?: Json
+          _key: string
+          _operation: string
+          _value?: Json
+          _workflow_id: string
+        }
+        Returns: {
+          updated: boolean
+          value: Json
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -473,7 +646,8 @@ export type Database = {
         | "success"
         | "failed"
         | "cancelled"
-      execution_trigger: "manual" | "webhook" | "schedule"
+        | "waiting"
+      execution_trigger: "manual" | "webhook" | "schedule" | "workflow"
       invitation_status: "pending" | "accepted" | "rejected" | "expired"
       team_role: "owner" | "admin" | "member" | "viewer"
       workflow_status: "draft" | "active" | "paused" | "archived"
@@ -611,8 +785,9 @@ export const Constants = {
         "success",
         "failed",
         "cancelled",
+        "waiting",
       ],
-      execution_trigger: ["manual", "webhook", "schedule"],
+      execution_trigger: ["manual", "webhook", "schedule", "workflow"],
       invitation_status: ["pending", "accepted", "rejected", "expired"],
       team_role: ["owner", "admin", "member", "viewer"],
       workflow_status: ["draft", "active", "paused", "archived"],
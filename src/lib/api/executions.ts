@@ -0,0 +1,79 @@
+/**
+ * Execution API Client
+ * Operations on running executions
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+
+// Statuses of executions that can still be stopped
+const CANCELLABLE_STATUSES = ['pending', 'running', 'waiting'] as const;
+
+export function isCancellable(status: string): boolean {
+  return (CANCELLABLE_STATUSES as readonly string[]).includes(status);
+}
+
+/**
+ * Cancel an execution. A running engine notices the status within a few seconds,
+ * aborts the running nodes and records the logs; waiting executions are not resumed.
+ * Returns false when the execution had already finished.
+ */
+export async function cancelExecution(executionId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('executions')
+    .update({
+      status: 'cancelled',
+      error: 'Execution was cancelled',
+      finished_at: new Date().toISOString(),
+      resume_at: null,
+    })
+    .eq('id', executionId)
+    .in('status', [...CANCELLABLE_STATUSES])
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+/**
+ * Load data the engine offloaded from an execution (see ExternalDataReference and
+ * BinaryReference in supabase/functions/_shared/binary-data.ts)
+ */
+export async function loadExecutionData(executionId: string, path: string): Promise<Blob> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('Not authenticated');
+  }
+
+  const params = new URLSearchParams({ executionId, path });
+  const response = await fetch(
+    `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/execution-data?${params}`,
+    { headers: { Authorization: `Bearer ${session.access_token}` } }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Failed to load execution data' }));
+    throw new Error(error.error || 'Failed to load execution data');
+  }
+
+  return response.blob();
+}
+
+// A large value the engine offloaded (ExternalDataReference in supabase/functions/_shared/binary-data.ts)
+export interface ExternalDataReference {
+  _externalData: true;
+  path: string;
+  size: number;
+  preview: string;
+}
+
+export const isExternalDataReference = (value: unknown): value is ExternalDataReference =>
+  !!value && typeof value === 'object' && (value as Record<string, unknown>)._externalData === true;
+
+/**
+ * Resolve a logged value: an offloaded value is loaded, other values are returned unchanged
+ */
+export async function loadExecutionValue(executionId: string, value: unknown): Promise<unknown> {
+  if (!isExternalDataReference(value)) return value;
+  const blob = await loadExecutionData(executionId, value.path);
+  return JSON.parse(await blob.text());
+}
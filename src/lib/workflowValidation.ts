@@ -1,62 +1,23 @@
-
-import { Node, Edge } from '@xyflow/react';
+import {
+    validateWorkflow as validateWorkflowDefinition,
+    type ValidatedEdge,
+    type ValidatedNode,
+    type WorkflowValidationError,
+} from '@nodes/validation.ts';
 import { NODE_TYPES } from '@/components/workflow/nodeTypes';
-
-export interface WorkflowValidationError {
-    nodeId?: string;
-    message: string;
-    severity: 'error' | 'warning';
-}
-
-export function validateWorkflow(nodes: Node[], edges: Edge[]): WorkflowValidationError[] {
-    const errors: WorkflowValidationError[] = [];
-    const nodeIds = new Set(nodes.map(n => n.id));
-
-    // 1. Check for Independent/Orphan Nodes (except triggers)
-    nodes.forEach(node => {
-        // Skip triggers (including backward compatibility for old types)
-        if (['manual_trigger', 'webhook', 'webhook_trigger_response', 'schedule', 'chat_trigger', 
-             'error_trigger', 'interval', 'workflow_trigger', 'http_trigger'].includes(node.data.type as string)) {
-            return;
-        }
-
-        const hasIncoming = edges.some(e => e.target === node.id);
-        if (!hasIncoming) {
-            errors.push({
-                nodeId: node.id,
-                message: `Node "${node.data.label}" is disconnected (no input).`,
-                severity: 'warning'
-            });
-        }
+import { CREDENTIAL_TYPES } from '@/lib/credentialTypes';
+
+export { hasValidationErrors, type WorkflowValidationError } from '@nodes/validation.ts';
+
+/**
+ * Problems of the workflow in the builder: the same checks execute-workflow runs before it
+ * starts a workflow (see supabase/functions/_shared/nodes/validation.ts)
+ */
+export function validateWorkflow(nodes: ValidatedNode[], edges: ValidatedEdge[]): WorkflowValidationError[] {
+    return validateWorkflowDefinition(nodes, edges, {
+        getCredentialFields: (credentialType) =>
+            CREDENTIAL_TYPES.find(t => t.type === credentialType)?.fields.map(f => f.key) ?? [],
     });
-
-    // 2. Validate If/Else Output
-    const ifElseNodes = nodes.filter(n => n.data.type === 'if_else');
-    ifElseNodes.forEach(node => {
-        const outputs = edges.filter(e => e.source === node.id);
-        const hasTrue = outputs.some(e => e.sourceHandle === 'true');
-        const hasFalse = outputs.some(e => e.sourceHandle === 'false');
-
-        if (!hasTrue) {
-            errors.push({
-                nodeId: node.id,
-                message: `If/Else node "${node.data.label}" missing TRUE path.`,
-                severity: 'error'
-            });
-        }
-        if (!hasFalse) {
-            errors.push({
-                nodeId: node.id,
-                message: `If/Else node "${node.data.label}" missing FALSE path.`,
-                severity: 'warning'
-            });
-        }
-    });
-
-    // 3. Loop Detection (Simple Cycle Check)
-    // (Optional - BFS/DFS to detect cycles if loops aren't allowed)
-
-    return errors;
 }
 
 // Keep existing validateAndFixWorkflow for AI usage compatibility if needed, 
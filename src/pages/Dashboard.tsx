@@ -3,7 +3,7 @@ import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/lib/auth";
 import { useRole } from "@/hooks/useRole";
 import { supabase } from "@/integrations/supabase/client";
-import { Zap, Plus, Play, CheckCircle, XCircle, FolderOpen, LayoutTemplate, History, Settings, MoreHorizontal, Copy, Trash2, Clock, Bot, Workflow, MessageSquare, Sparkles, Wrench, ArrowLeft } from "lucide-react";
+import { Zap, Plus, Play, CheckCircle, XCircle, Hourglass, Timer, FolderOpen, LayoutTemplate, History, Settings, MoreHorizontal, Copy, Trash2, Clock, Bot, Workflow, MessageSquare, Sparkles, Wrench, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -34,6 +34,8 @@ export default function Dashboard() {
     executionsToday: 0,
     successRate: 100,
     failed: 0,
+    queued: 0,
+    avgQueueWaitMs: 0,
   });
   const [showCreateOptions, setShowCreateOptions] = useState(false);
 
@@ -123,11 +125,31 @@ export default function Dashboard() {
       const failed = allExecutions?.filter(e => e.status === 'failed').length || 0;
       const successRate = totalExecutions > 0 ? Math.round((successful / totalExecutions) * 100) : 100;
 
+      // Execution queue: queued executions and how long executions queued today waited to start
+      const { count: queuedCount } = await supabase
+        .from('executions')
+        .select('*', { count: 'exact', head: true })
+        .eq('status', 'pending')
+        .not('queued_at', 'is', null);
+
+      const { data: queuedToday } = await supabase
+        .from('executions')
+        .select('queued_at, started_at')
+        .neq('status', 'pending')
+        .gte('queued_at', today.toISOString());
+
+      const waits = (queuedToday || [])
+        .filter(e => e.queued_at)
+        .map(e => Math.max(new Date(e.started_at).getTime() - new Date(e.queued_at as string).getTime(), 0));
+      const avgQueueWaitMs = waits.length > 0 ? waits.reduce((sum, w) => sum + w, 0) / waits.length : 0;
+
       setStats({
         total: totalCount || 0,
         executionsToday: todayCount || 0,
         successRate,
         failed,
+        queued: queuedCount || 0,
+        avgQueueWaitMs,
       });
     } catch (error) {
       console.error('Error loading stats:', error);
@@ -147,6 +169,12 @@ export default function Dashboard() {
     }
   }, [user, loadWorkflows, loadStats]);
 
+  const formatWait = (ms: number) => {
+    if (ms < 1000) return `${Math.round(ms)}ms`;
+    if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+    return `${Math.floor(ms / 60_000)}m ${Math.round((ms % 60_000) / 1000)}s`;
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'active': return 'bg-success/10 text-success border-success/20';
@@ -309,12 +337,14 @@ export default function Dashboard() {
         </div>
 
         {/* Stats */}
-        <div className="grid gap-4 md:grid-cols-4 mb-8">
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-6 mb-8">
           {[
             { label: "Total Workflows", value: stats.total.toString(), icon: Zap, color: "text-primary" },
             { label: "Executions Today", value: stats.executionsToday.toString(), icon: Play, color: "text-secondary" },
             { label: "Success Rate", value: `${stats.successRate}%`, icon: CheckCircle, color: "text-success" },
             { label: "Failed", value: stats.failed.toString(), icon: XCircle, color: "text-destructive" },
+            { label: "Queued", value: stats.queued.toString(), icon: Hourglass, color: "text-warning" },
+            { label: "Avg Queue Wait", value: formatWait(stats.avgQueueWaitMs), icon: Timer, color: "text-muted-foreground" },
           ].map((stat) => (
             <Card key={stat.label}>
               <CardHeader className="flex flex-row items-center justify-between pb-2">
@@ -4,35 +4,87 @@ import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   ArrowLeft, Clock, CheckCircle, XCircle, Loader2, 
-  RefreshCw, ChevronDown, ChevronRight 
+  RefreshCw, ChevronDown, ChevronRight, Hourglass, Square, Ban, Download 
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from '@/hooks/use-toast';
 import { Tables, Json } from '@/integrations/supabase/types';
+import {
+  cancelExecution,
+  isCancellable,
+  isExternalDataReference,
+  loadExecutionData,
+  loadExecutionValue,
+} from '@/lib/api/executions';
 
 type Execution = Tables<'executions'> & {
   workflows?: { name: string } | null;
 };
 
+// Executions started by this execution's Execute Workflow nodes
+type ChildExecution = Pick<Tables<'executions'>, 'id' | 'status' | 'started_at'> & {
+  workflows?: { name: string } | null;
+};
+
 interface ExecutionLog {
   nodeId: string;
   nodeName: string;
-  status: 'running' | 'success' | 'failed' | 'skipped';
+  status: 'running' | 'success' | 'failed' | 'skipped' | 'waiting' | 'cancelled';
   startedAt: string;
   finishedAt?: string;
   input?: unknown;
   output?: unknown;
   error?: string;
+  inputItems?: number;
+  outputItems?: number;
+  iteration?: number;
+  errorHandling?: boolean;
+  reused?: boolean;
+  pinned?: boolean;
+  console?: { level: string; message: string }[];
 }
 
+// Files the engine offloaded to the execution data store (supabase/functions/_shared/binary-data.ts)
+interface BinaryReference {
+  _binary: true;
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+const isBinaryReference = (value: unknown): value is BinaryReference =>
+  !!value && typeof value === 'object' && (value as Record<string, unknown>)._binary === true;
+
+// Files referenced by a value (fields and items, a few levels deep)
+const findBinaryReferences = (value: unknown, depth = 0): BinaryReference[] => {
+  if (isBinaryReference(value)) return [value];
+  if (!value || typeof value !== 'object' || depth >= 3) return [];
+  return Object.values(value).flatMap(child => findBinaryReferences(child, depth + 1));
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export default function ExecutionDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
   const { user, loading: authLoading } = useAuth();
   const [execution, setExecution] = useState<Execution | null>(null);
+  const [childExecutions, setChildExecutions] = useState<ChildExecution[]>([]);
   const [loading, setLoading] = useState(true);
   const [expandedNodes, setExpandedNodes] = useState<Set<string>>(new Set());
 
@@ -58,6 +110,15 @@ export default function ExecutionDetail() {
 
       if (error) throw error;
       setExecution(data);
+
+      const { data: children, error: childrenError } = await supabase
+        .from('executions')
+        .select('id, status, started_at, workflows(name)')
+        .eq('parent_execution_id', executionId)
+        .order('started_at', { ascending: true });
+
+      if (childrenError) throw childrenError;
+      setChildExecutions(children || []);
     } catch (error) {
       console.error('Error loading execution:', error);
       toast({
@@ -102,6 +163,59 @@ export default function ExecutionDetail() {
     }
   };
 
+  const retryFromFailedNode = async (useCurrentVersion: boolean) => {
+    if (!execution) return;
+
+    try {
+      toast({ title: 'Retrying...', description: 'Resuming from the failed node' });
+
+      const { data, error } = await supabase.functions.invoke('execute-workflow', {
+        body: { workflowId: execution.workflow_id, retryOf: execution.id, useCurrentVersion },
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: data.status === 'success' ? 'Success' : 'Failed',
+        description: data.status === 'success' ? 'Workflow executed successfully' : 'Workflow execution failed',
+        variant: data.status === 'success' ? 'default' : 'destructive',
+      });
+
+      if (data.executionId) {
+        navigate(`/execution/${data.executionId}`);
+      }
+    } catch (error) {
+      console.error('Retry from failed node error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to retry execution from the failed node',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const stopExecution = async () => {
+    if (!execution) return;
+
+    try {
+      const cancelled = await cancelExecution(execution.id);
+      toast({
+        title: cancelled ? 'Stopping...' : 'Already finished',
+        description: cancelled
+          ? 'The execution stops after the running nodes are aborted'
+          : 'This execution is no longer running',
+      });
+      loadExecution(execution.id);
+    } catch (error) {
+      console.error('Stop execution error:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to stop execution',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const toggleNode = (nodeId: string) => {
     setExpandedNodes(prev => {
       const next = new Set(prev);
@@ -119,6 +233,8 @@ export default function ExecutionDetail() {
       case 'success': return <CheckCircle className="h-4 w-4 text-success" />;
       case 'failed': return <XCircle className="h-4 w-4 text-destructive" />;
       case 'running': return <Loader2 className="h-4 w-4 text-primary animate-spin" />;
+      case 'waiting': return <Hourglass className="h-4 w-4 text-warning" />;
+      case 'cancelled': return <Ban className="h-4 w-4 text-muted-foreground" />;
       default: return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
   };
@@ -128,6 +244,7 @@ export default function ExecutionDetail() {
       case 'success': return 'bg-success/10 text-success border-success/20';
       case 'failed': return 'bg-destructive/10 text-destructive border-destructive/20';
       case 'running': return 'bg-primary/10 text-primary border-primary/20';
+      case 'waiting': return 'bg-warning/10 text-warning border-warning/20';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -165,7 +282,30 @@ export default function ExecutionDetail() {
               </div>
               <div>
                 <span className="text-lg font-bold">{execution.workflows?.name || 'Execution'}</span>
-                <div className="text-xs text-muted-foreground font-mono">{execution.id.slice(0, 8)}...</div>
+                <div className="text-xs text-muted-foreground font-mono">
+                  {execution.id.slice(0, 8)}...
+                  {execution.retry_of && (
+                    <>
+                      {' '}retry of{' '}
+                      <Link to={`/execution/${execution.retry_of}`} className="underline">
+                        {execution.retry_of.slice(0, 8)}...
+                      </Link>
+                    </>
+                  )}
+                  {execution.parent_execution_id && (
+                    <>
+                      {' '}called by{' '}
+                      <Link to={`/execution/${execution.parent_execution_id}`} className="underline">
+                        {execution.parent_execution_id.slice(0, 8)}...
+                      </Link>
+                    </>
+                  )}
+                </div>
+                {execution.trace_id && (
+                  <div className="text-xs text-muted-foreground font-mono select-all" title="Trace id (OpenTelemetry)">
+                    trace {execution.trace_id}
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -173,11 +313,43 @@ export default function ExecutionDetail() {
             <Badge variant="outline" className={getStatusColor(execution.status)}>
               {execution.status}
             </Badge>
-            {execution.status === 'failed' && (
-              <Button size="sm" onClick={retryExecution}>
-                <RefreshCw className="mr-2 h-4 w-4" /> Retry
+            {execution.partial_until && (
+              <Badge variant="outline">partial</Badge>
+            )}
+            {execution.error_handled && (
+              <Badge variant="outline" className="bg-orange-500/10 text-orange-500 border-orange-500/20">
+                error handled
+              </Badge>
+            )}
+            {isCancellable(execution.status) && (
+              <Button size="sm" variant="destructive" onClick={stopExecution}>
+                <Square className="mr-2 h-4 w-4" /> Stop
               </Button>
             )}
+            {(execution.status === 'failed' || execution.status === 'cancelled') && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm">
+                    <RefreshCw className="mr-2 h-4 w-4" /> Retry <ChevronDown className="ml-2 h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem
+                    onClick={() => retryFromFailedNode(false)}
+                    disabled={!execution.workflow_snapshot}
+                  >
+                    From {execution.status === 'cancelled' ? 'where it stopped' : 'failed node'} (original version)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => retryFromFailedNode(true)}>
+                    From {execution.status === 'cancelled' ? 'where it stopped' : 'failed node'} (current version)
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={retryExecution}>
+                    Whole workflow
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
       </header>
@@ -222,6 +394,30 @@ export default function ExecutionDetail() {
           </Card>
         </div>
 
+        {/* Waiting */}
+        {execution.status === 'waiting' && (
+          <Card className="mb-8 border-warning/50">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-warning">Waiting</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              <p>
+                {execution.resume_at
+                  ? `Resumes automatically at ${new Date(execution.resume_at).toLocaleString()}.`
+                  : 'Resumes when the resume webhook is called.'}
+              </p>
+              {execution.resume_token && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Resume webhook (GET or POST, the JSON body is passed to the Wait node):</p>
+                  <code className="block text-xs font-mono bg-muted p-2 rounded break-all">
+                    {`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/resume-execution?executionId=${execution.id}&token=${execution.resume_token}`}
+                  </code>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Error Message */}
         {execution.error && (
           <Card className="mb-8 border-destructive/50">
@@ -232,6 +428,11 @@ export default function ExecutionDetail() {
               <pre className="text-sm text-destructive whitespace-pre-wrap font-mono bg-destructive/10 p-3 rounded">
                 {execution.error}
               </pre>
+              {execution.error_handled && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  Error Trigger branches ran for this failure. Their steps are marked "error handling" below.
+                </p>
+              )}
             </CardContent>
           </Card>
         )}
@@ -248,9 +449,9 @@ export default function ExecutionDetail() {
               <div className="space-y-2">
                 {logs.map((log, index) => (
                   <Collapsible
-                    key={log.nodeId}
-                    open={expandedNodes.has(log.nodeId)}
-                    onOpenChange={() => toggleNode(log.nodeId)}
+                    key={`${log.nodeId}-${index}`}
+                    open={expandedNodes.has(`${log.nodeId}-${index}`)}
+                    onOpenChange={() => toggleNode(`${log.nodeId}-${index}`)}
                   >
                     <CollapsibleTrigger asChild>
                       <div className="flex items-center justify-between p-3 rounded-lg bg-muted/50 hover:bg-muted cursor-pointer transition-colors">
@@ -260,12 +461,40 @@ export default function ExecutionDetail() {
                           </div>
                           {getStatusIcon(log.status)}
                           <span className="font-medium">{log.nodeName}</span>
+                          {log.errorHandling && (
+                            <Badge variant="outline" className="text-xs bg-orange-500/10 text-orange-500 border-orange-500/20">
+                              error handling
+                            </Badge>
+                          )}
+                          {log.pinned && (
+                            <Badge variant="outline" className="text-xs bg-purple-500/10 text-purple-600 border-purple-500/20">
+                              pinned
+                            </Badge>
+                          )}
+                          {log.reused && (
+                            <Badge variant="outline" className="text-xs">
+                              reused
+                            </Badge>
+                          )}
+                          {log.iteration !== undefined && (
+                            <span className="text-xs text-muted-foreground">iteration {log.iteration + 1}</span>
+                          )}
                         </div>
                         <div className="flex items-center gap-3">
+                          {log.finishedAt && (
+                            <span className="text-xs text-muted-foreground">
+                              {formatDuration(new Date(log.finishedAt).getTime() - new Date(log.startedAt).getTime())}
+                            </span>
+                          )}
+                          {log.outputItems !== undefined && (
+                            <span className="text-xs text-muted-foreground">
+                              {log.inputItems ?? 0} → {log.outputItems} {log.outputItems === 1 ? 'item' : 'items'}
+                            </span>
+                          )}
                           <Badge variant="outline" className={getStatusColor(log.status)}>
                             {log.status}
                           </Badge>
-                          {expandedNodes.has(log.nodeId) ? (
+                          {expandedNodes.has(`${log.nodeId}-${index}`) ? (
                             <ChevronDown className="h-4 w-4" />
                           ) : (
                             <ChevronRight className="h-4 w-4" />
@@ -278,16 +507,27 @@ export default function ExecutionDetail() {
                         {log.input !== undefined && (
                           <div>
                             <div className="text-xs font-semibold uppercase text-muted-foreground mb-1">Input</div>
-                            <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-40">
-                              {JSON.stringify(log.input, null, 2)}
-                            </pre>
+                            <ExecutionData executionId={execution.id} value={log.input} className="max-h-40 p-2" />
                           </div>
                         )}
                         {log.output !== undefined && (
                           <div>
                             <div className="text-xs font-semibold uppercase text-muted-foreground mb-1">Output</div>
+                            <ExecutionData executionId={execution.id} value={log.output} className="max-h-40 p-2" />
+                          </div>
+                        )}
+                        {log.console && log.console.length > 0 && (
+                          <div>
+                            <div className="text-xs font-semibold uppercase text-muted-foreground mb-1">Console</div>
                             <pre className="text-xs bg-muted p-2 rounded overflow-x-auto max-h-40">
-                              {JSON.stringify(log.output, null, 2)}
+                              {log.console.map((line, lineIndex) => (
+                                <div
+                                  key={lineIndex}
+                                  className={line.level === 'error' ? 'text-destructive' : line.level === 'warn' ? 'text-warning' : undefined}
+                                >
+                                  [{line.level}] {line.message}
+                                </div>
+                              ))}
                             </pre>
                           </div>
                         )}
@@ -308,6 +548,39 @@ export default function ExecutionDetail() {
           </CardContent>
         </Card>
 
+        {childExecutions.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="text-sm">Sub-workflow Executions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {childExecutions.map((child) => (
+                <Link
+                  key={child.id}
+                  to={`/execution/${child.id}`}
+                  className="flex items-center justify-between rounded-lg border p-3 hover:bg-muted/50"
+                >
+                  <div className="flex items-center gap-3">
+                    {getStatusIcon(child.status)}
+                    <div>
+                      <div className="text-sm font-medium">{child.workflows?.name || 'Workflow'}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{child.id.slice(0, 8)}...</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(child.started_at).toLocaleString()}
+                    </span>
+                    <Badge variant="outline" className={getStatusColor(child.status)}>
+                      {child.status}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Input/Output */}
         <div className="grid gap-4 md:grid-cols-2 mt-8">
           <Card>
@@ -325,9 +598,7 @@ export default function ExecutionDetail() {
               <CardTitle className="text-sm">Output</CardTitle>
             </CardHeader>
             <CardContent>
-              <pre className="text-xs bg-muted p-3 rounded overflow-x-auto max-h-60">
-                {JSON.stringify(execution.output, null, 2) || 'null'}
-              </pre>
+              <ExecutionData executionId={execution.id} value={execution.output} className="max-h-60 p-3" />
             </CardContent>
           </Card>
         </div>
@@ -335,3 +606,61 @@ export default function ExecutionDetail() {
     </div>
   );
 }
+
+/**
+ * A logged value: offloaded values show their preview until loaded, files get download buttons
+ */
+function ExecutionData({ executionId, value, className }: { executionId: string; value: unknown; className: string }) {
+  const [loaded, setLoaded] = useState<unknown>(undefined);
+  const [loading, setLoading] = useState(false);
+
+  const external = isExternalDataReference(value) && loaded === undefined ? value : null;
+  const shown = loaded !== undefined ? loaded : value;
+
+  const loadFullData = async () => {
+    if (!external) return;
+    setLoading(true);
+    try {
+      setLoaded(await loadExecutionValue(executionId, external));
+    } catch (error) {
+      console.error('Error loading execution data:', error);
+      toast({ title: 'Error', description: 'Failed to load the full data', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const download = async (file: BinaryReference) => {
+    try {
+      const blob = await loadExecutionData(executionId, file.path);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error downloading file:', error);
+      toast({ title: 'Error', description: `Failed to download ${file.fileName}`, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <pre className={`text-xs bg-muted rounded overflow-x-auto ${className}`}>
+        {external ? `${external.preview}…` : JSON.stringify(shown, null, 2) || 'null'}
+      </pre>
+      {external && (
+        <Button size="sm" variant="outline" onClick={loadFullData} disabled={loading}>
+          {loading && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          Load full data ({formatBytes(external.size)})
+        </Button>
+      )}
+      {findBinaryReferences(shown).map(file => (
+        <Button key={file.path} size="sm" variant="outline" className="mr-2" onClick={() => download(file)}>
+          <Download className="mr-2 h-3 w-3" /> {file.fileName} ({formatBytes(file.size)})
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@ import { useAuth } from '@/lib/auth';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   Search, Clock, CheckCircle, XCircle, Loader2, 
-  ChevronRight, RefreshCw, Filter, Edit 
+  ChevronRight, RefreshCw, Filter, Edit, Hourglass, Ban 
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -99,6 +99,8 @@ export default function Executions() {
       case 'failed': return <XCircle className="h-4 w-4 text-destructive" />;
       case 'running': return <Loader2 className="h-4 w-4 text-primary animate-spin" />;
       case 'pending': return <Clock className="h-4 w-4 text-muted-foreground" />;
+      case 'waiting': return <Hourglass className="h-4 w-4 text-warning" />;
+      case 'cancelled': return <Ban className="h-4 w-4 text-muted-foreground" />;
       default: return <Clock className="h-4 w-4 text-muted-foreground" />;
     }
   };
@@ -109,6 +111,7 @@ export default function Executions() {
       case 'failed': return 'bg-destructive/10 text-destructive border-destructive/20';
       case 'running': return 'bg-primary/10 text-primary border-primary/20';
       case 'pending': return 'bg-muted text-muted-foreground';
+      case 'waiting': return 'bg-warning/10 text-warning border-warning/20';
       default: return 'bg-muted text-muted-foreground';
     }
   };
@@ -182,7 +185,9 @@ export default function Executions() {
               <SelectItem value="success">Success</SelectItem>
               <SelectItem value="failed">Failed</SelectItem>
               <SelectItem value="running">Running</SelectItem>
+              <SelectItem value="waiting">Waiting</SelectItem>
               <SelectItem value="pending">Pending</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
             </SelectContent>
           </Select>
         </div>
@@ -11,8 +11,10 @@ import WorkflowCanvas from '@/components/workflow/WorkflowCanvas';
 import PropertiesPanel from '@/components/workflow/PropertiesPanel';
 import ExecutionConsole from '@/components/workflow/ExecutionConsole';
 import { Edge } from '@xyflow/react';
+import { FunctionsHttpError } from '@supabase/supabase-js';
 import { Json } from '@/integrations/supabase/types';
 import AIAssistant from '@/components/workflow/AIAssistant';
+import { validateWorkflow } from '@/lib/workflowValidation';
 
 export default function WorkflowBuilder() {
   const { id } = useParams();
@@ -130,7 +132,8 @@ export default function WorkflowBuilder() {
     }
   }, [nodes, edges, user, navigate, setWorkflowId, setIsDirty]);
 
-  const handleRun = useCallback(async () => {
+  // Runs the saved workflow; with runUntil only that node and its ancestors run (partial execution)
+  const executeWorkflow = useCallback(async (runUntil?: string) => {
     const workflowId = useWorkflowStore.getState().workflowId;
 
     if (nodes.length === 0) {
@@ -151,6 +154,29 @@ export default function WorkflowBuilder() {
       return;
     }
 
+    // The engine refuses workflows with errors, the problems list (header) shows all of them.
+    // A partial run only needs the nodes it runs (runUntil and its ancestors) to be valid.
+    const runNodeIds = new Set(runUntil ? [runUntil] : nodes.map((n) => n.id));
+    for (let added = true; runUntil && added;) {
+      added = false;
+      edges.forEach((e) => {
+        if (runNodeIds.has(e.target) && !runNodeIds.has(e.source)) {
+          runNodeIds.add(e.source);
+          added = true;
+        }
+      });
+    }
+    const validationErrors = validateWorkflow(nodes, edges)
+      .filter((e) => e.severity === 'error' && (!e.nodeId || runNodeIds.has(e.nodeId)));
+    if (validationErrors.length > 0) {
+      toast({
+        title: `Fix ${validationErrors.length} problem${validationErrors.length === 1 ? '' : 's'} before running`,
+        description: validationErrors[0].message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // Reset all node statuses to 'idle' before starting new execution
     resetAllNodeStatuses();
 
@@ -161,17 +187,34 @@ export default function WorkflowBuilder() {
     }
 
     toast({
-      title: 'Running workflow',
+      title: runUntil ? 'Running workflow up to node' : 'Running workflow',
       description: 'Execution started...',
     });
 
     try {
       const { data, error } = await supabase.functions.invoke('execute-workflow', {
-        body: { workflowId, input: {} },
+        body: runUntil ? { workflowId, input: {}, runUntil } : { workflowId, input: {} },
       });
 
+      // The saved version has errors (the engine validates it again before running)
+      if (error instanceof FunctionsHttpError) {
+        const body = await error.context.json().catch(() => null);
+        if (body?.validationErrors) {
+          toast({
+            title: 'Workflow has errors',
+            description: body.validationErrors[0]?.message ?? body.error,
+            variant: 'destructive',
+          });
+          return;
+        }
+      }
       if (error) throw error;
 
+      if (data.status === 'cancelled') {
+        toast({ title: 'Execution cancelled', description: 'The logs of the nodes that ran are kept' });
+        return;
+      }
+
       toast({
         title: data.status === 'success' ? 'Execution complete' : 'Execution failed',
         description: data.status === 'success'
@@ -192,7 +235,9 @@ export default function WorkflowBuilder() {
     } finally {
       setIsRunning(false);
     }
-  }, [nodes, consoleExpanded]);
+  }, [nodes, edges, consoleExpanded]);
+
+  const handleRun = useCallback(() => executeWorkflow(), [executeWorkflow]);
 
 
   const onDragStart = useCallback((event: React.DragEvent, nodeType: NodeTypeDefinition) => {
@@ -223,7 +268,7 @@ export default function WorkflowBuilder() {
       <div className="flex-1 flex flex-col overflow-hidden relative">
         <div className="flex-1 flex overflow-hidden">
           <NodeLibrary onDragStart={onDragStart} />
-          <WorkflowCanvas />
+          <WorkflowCanvas onExecuteUpTo={executeWorkflow} />
           <PropertiesPanel />
           <AIAssistant isOpen={showAI} onClose={() => setShowAI(false)} />
         </div>
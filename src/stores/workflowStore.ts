@@ -10,7 +10,9 @@ import {
   addEdge,
 } from '@xyflow/react';
 
-export type NodeCategory = 'triggers' | 'ai' | 'logic' | 'data' | 'database' | 'storage' | 'output' | 'http_api' | 'google';
+import type { NodeCategory } from '@nodes/index.ts';
+
+export type { NodeCategory };
 
 export interface NodeData {
   label: string;
@@ -19,6 +21,8 @@ export interface NodeData {
   icon: string;
   config: Record<string, unknown>;
   executionStatus?: 'idle' | 'running' | 'success' | 'error';
+  // Output used instead of executing the node during manual runs
+  pinnedData?: unknown;
   [key: string]: unknown;
 }
 
@@ -48,6 +52,7 @@ interface WorkflowState {
   onReconnect: (oldEdge: Edge, newConnection: Connection) => void;
   addNode: (node: WorkflowNode) => void;
   updateNodeConfig: (nodeId: string, config: Record<string, unknown>) => void;
+  setNodePinnedData: (nodeId: string, pinnedData: unknown | undefined) => void;
   updateNodeStatus: (nodeId: string, status: 'idle' | 'running' | 'success' | 'error') => void;
   resetAllNodeStatuses: () => void;
   selectNode: (node: WorkflowNode | null) => void;
@@ -153,6 +158,29 @@ export const useWorkflowStore = create<WorkflowState>((set, get) => ({
     });
   },
 
+  setNodePinnedData: (nodeId, pinnedData) => {
+    const { nodes, edges } = get();
+    const newUndoStack = [...get().undoStack, { nodes: [...nodes], edges: [...edges] }];
+
+    const updatedNodes = nodes.map((node) => {
+      if (node.id !== nodeId) return node;
+      const { pinnedData: _previous, ...data } = node.data;
+      return { ...node, data: pinnedData === undefined ? data : { ...data, pinnedData } };
+    });
+    const selectedNode = get().selectedNode;
+    const updatedSelectedNode = selectedNode?.id === nodeId
+      ? updatedNodes.find(n => n.id === nodeId) || null
+      : selectedNode;
+
+    set({
+      nodes: updatedNodes,
+      selectedNode: updatedSelectedNode,
+      isDirty: true,
+      undoStack: newUndoStack,
+      redoStack: [],
+    });
+  },
+
   updateNodeStatus: (nodeId, status) => {
     // Status updates don't need to be in history/undo stack
     set({
@@ -0,0 +1,238 @@
+/**
+ * Execution data store
+ *
+ * Large node inputs/outputs and binary files are kept out of the executions row. They are
+ * stored under `<executionId>/` in the private "execution-data" Storage bucket, or in a local
+ * directory when BINARY_DATA_MODE=filesystem (development, BINARY_DATA_PATH sets the directory).
+ * Rows keep small references instead:
+ * - ExternalDataReference: an offloaded JSON value with a preview (logs, resume state)
+ * - BinaryReference: a file written by a node, passed to downstream nodes in place of base64
+ * Data that the executions row keeps masked is stored unmasked under `private/<executionId>/`:
+ * the trigger input, the resume state of a waiting execution and the results (see ExecutionResults).
+ */
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+  readFile(path: string): Promise<Uint8Array>;
+  writeFile(path: string, data: Uint8Array): Promise<void>;
+  mkdir(path: string, options?: { recursive?: boolean }): Promise<void>;
+};
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { BinaryReference } from "./nodes/types.ts";
+
+export type { BinaryReference };
+
+export const EXECUTION_DATA_BUCKET = "execution-data";
+const DEFAULT_FILESYSTEM_PATH = "/tmp/execution-data";
+
+// Values larger than this (as JSON) are offloaded
+export const INLINE_DATA_LIMIT_BYTES = 64 * 1024;
+const PREVIEW_LENGTH = 1000;
+
+export interface ExternalDataReference {
+  _externalData: true;
+  path: string;
+  size: number;
+  preview: string;
+}
+
+export interface ExecutionDataStore {
+  put(path: string, data: Uint8Array, contentType: string): Promise<void>;
+  get(path: string): Promise<Uint8Array>;
+}
+
+class StorageBucketStore implements ExecutionDataStore {
+  constructor(private supabase: SupabaseClient, private bucket: string) {}
+
+  async put(path: string, data: Uint8Array, contentType: string): Promise<void> {
+    const { error } = await this.supabase.storage.from(this.bucket).upload(path, data, { contentType, upsert: true });
+    if (error) {
+      throw new Error(`Failed to store execution data ${path}: ${error.message}`);
+    }
+  }
+
+  async get(path: string): Promise<Uint8Array> {
+    const { data, error } = await this.supabase.storage.from(this.bucket).download(path);
+    if (error || !data) {
+      throw new Error(`Failed to load execution data ${path}: ${error?.message ?? "not found"}`);
+    }
+    return new Uint8Array(await data.arrayBuffer());
+  }
+}
+
+class FilesystemStore implements ExecutionDataStore {
+  constructor(private root: string) {}
+
+  async put(path: string, data: Uint8Array): Promise<void> {
+    const filePath = `${this.root}/${path}`;
+    await Deno.mkdir(filePath.split("/").slice(0, -1).join("/"), { recursive: true });
+    await Deno.writeFile(filePath, data);
+  }
+
+  async get(path: string): Promise<Uint8Array> {
+    return await Deno.readFile(`${this.root}/${path}`);
+  }
+}
+
+export function createExecutionDataStore(supabase: SupabaseClient): ExecutionDataStore {
+  if (Deno.env.get("BINARY_DATA_MODE") === "filesystem") {
+    return new FilesystemStore(Deno.env.get("BINARY_DATA_PATH") || DEFAULT_FILESYSTEM_PATH);
+  }
+  return new StorageBucketStore(supabase, EXECUTION_DATA_BUCKET);
+}
+
+export function isExternalDataReference(value: unknown): value is ExternalDataReference {
+  return !!value && typeof value === "object" && (value as Record<string, unknown>)._externalData === true &&
+    typeof (value as Record<string, unknown>).path === "string";
+}
+
+export function isBinaryReference(value: unknown): value is BinaryReference {
+  return !!value && typeof value === "object" && (value as Record<string, unknown>)._binary === true &&
+    typeof (value as Record<string, unknown>).path === "string";
+}
+
+/**
+ * Only paths inside the execution's own folder can be read back
+ */
+export function isExecutionDataPath(path: string, executionId: string): boolean {
+  return path.startsWith(`${executionId}/`) && !path.split("/").includes("..");
+}
+
+/**
+ * Stores `value` and returns a reference to it when its JSON exceeds the inline limit;
+ * smaller values (and references) are returned unchanged
+ */
+export async function offloadValue(
+  store: ExecutionDataStore,
+  executionId: string,
+  value: unknown,
+  limit = INLINE_DATA_LIMIT_BYTES
+): Promise<unknown> {
+  if (value === undefined || value === null || typeof value === "number" || typeof value === "boolean") return value;
+  if (isExternalDataReference(value) || isBinaryReference(value)) return value;
+
+  const json = JSON.stringify(value);
+  const bytes = new TextEncoder().encode(json);
+  if (bytes.length <= limit) return value;
+
+  const path = `${executionId}/${crypto.randomUUID()}.json`;
+  await store.put(path, bytes, "application/json");
+  const reference: ExternalDataReference = {
+    _externalData: true,
+    path,
+    size: bytes.length,
+    preview: json.slice(0, PREVIEW_LENGTH),
+  };
+  return reference;
+}
+
+/**
+ * Loads the value behind an ExternalDataReference (other values are returned unchanged)
+ */
+export async function loadValue(store: ExecutionDataStore, value: unknown): Promise<unknown> {
+  if (!isExternalDataReference(value)) return value;
+  return JSON.parse(new TextDecoder().decode(await store.get(value.path)));
+}
+
+function getPrivateDataPath(executionId: string, name: string): string {
+  return `private/${executionId}/${name}.json`;
+}
+
+/**
+ * Stores a value the executions row keeps masked. Private data is stored outside the
+ * execution's folder, so the execution-data function never serves it.
+ */
+export async function storePrivateData(
+  store: ExecutionDataStore,
+  executionId: string,
+  name: string,
+  value: unknown
+): Promise<void> {
+  const bytes = new TextEncoder().encode(JSON.stringify(value));
+  await store.put(getPrivateDataPath(executionId, name), bytes, "application/json");
+}
+
+/**
+ * Value stored with storePrivateData, or null when there is none
+ */
+export async function loadPrivateData<T>(store: ExecutionDataStore, executionId: string, name: string): Promise<T | null> {
+  let data: Uint8Array;
+  try {
+    data = await store.get(getPrivateDataPath(executionId, name));
+  } catch {
+    return null;
+  }
+  return JSON.parse(new TextDecoder().decode(data));
+}
+
+/**
+ * Unmasked results of a finished run. The executions row keeps the output and logs with secrets
+ * masked (see redaction.ts); retries and callers waiting for the output
+ * (Execute Workflow nodes, webhooks) read them from here.
+ */
+export interface ExecutionResults {
+  output: unknown;
+  nodeOutputs: Record<string, unknown>;
+}
+
+export async function storeExecutionResults(
+  store: ExecutionDataStore,
+  executionId: string,
+  results: ExecutionResults
+): Promise<void> {
+  await storePrivateData(store, executionId, "results", results);
+}
+
+/**
+ * Results stored when the execution finished, or null when there are none
+ * (the run ended before storing them)
+ */
+export function loadExecutionResults(store: ExecutionDataStore, executionId: string): Promise<ExecutionResults | null> {
+  return loadPrivateData(store, executionId, "results");
+}
+
+/**
+ * Trigger input as received. It is stored before the execution is created, whose row keeps
+ * a masked copy; the engine runs on this one (the row's is used when none was stored).
+ */
+export async function storeExecutionInput(store: ExecutionDataStore, executionId: string, input: unknown): Promise<void> {
+  await storePrivateData(store, executionId, "input", input);
+}
+
+// Null when none was stored (scheduled runs, which have no caller data)
+export function loadExecutionInput(store: ExecutionDataStore, executionId: string): Promise<unknown> {
+  return loadPrivateData(store, executionId, "input");
+}
+
+const MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  json: "application/json",
+  csv: "text/csv",
+  txt: "text/plain",
+  html: "text/html",
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  zip: "application/zip",
+};
+
+export function guessMimeType(fileName: string): string {
+  return MIME_TYPES[fileName.split(".").pop()?.toLowerCase() ?? ""] ?? "application/octet-stream";
+}
+
+export async function writeBinary(
+  store: ExecutionDataStore,
+  executionId: string,
+  data: Uint8Array,
+  fileName: string,
+  mimeType = guessMimeType(fileName)
+): Promise<BinaryReference> {
+  const safeName = fileName.split("/").pop()?.replace(/[^\w.-]/g, "_") || "file";
+  const path = `${executionId}/${crypto.randomUUID()}-${safeName}`;
+  await store.put(path, data, mimeType);
+  return { _binary: true, path, fileName: safeName, mimeType, size: data.length };
+}
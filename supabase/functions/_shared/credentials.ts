@@ -0,0 +1,109 @@
+/**
+ * Encrypted credentials shared by the credentials API and execute-workflow
+ *
+ * Credential values are encrypted with AES-GCM before they are stored in public.credentials.data.
+ * The key is derived from the CREDENTIALS_ENCRYPTION_KEY secret, so the stored data is useless
+ * without the edge functions' environment.
+ */
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+export interface CredentialSchema {
+  // Config keys the credential provides to a node
+  fields: string[];
+  required: string[];
+  // Fields whose values are masked in execution logs
+  secrets: string[];
+}
+
+/**
+ * Credential types and the node config keys they hold (see src/lib/credentialTypes.ts for the form definitions)
+ */
+export const CREDENTIAL_SCHEMAS: Record<string, CredentialSchema> = {
+  openai: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  anthropic: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  google_ai: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  azure_openai: { fields: ["endpoint", "apiKey"], required: ["endpoint", "apiKey"], secrets: ["apiKey"] },
+  hugging_face: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  cohere: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  api_key: { fields: ["apiKey"], required: ["apiKey"], secrets: ["apiKey"] },
+  twilio: { fields: ["accountSid", "authToken"], required: ["accountSid", "authToken"], secrets: ["authToken"] },
+  aws: { fields: ["accessKeyId", "secretAccessKey"], required: ["accessKeyId", "secretAccessKey"], secrets: ["secretAccessKey"] },
+  database_login: { fields: ["username", "password"], required: ["username", "password"], secrets: ["password"] },
+  ftp_login: { fields: ["username", "password"], required: ["username"], secrets: ["password"] },
+  ssh_login: { fields: ["username", "password", "privateKey"], required: ["username"], secrets: ["password", "privateKey"] },
+};
+
+const ENCRYPTION_VERSION = "v1";
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, b => String.fromCharCode(b)).join(""));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+
+async function getEncryptionKey(): Promise<CryptoKey> {
+  const secret = Deno.env.get("CREDENTIALS_ENCRYPTION_KEY");
+  if (!secret) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY is not configured");
+  }
+  const keyBytes = await crypto.subtle.digest("SHA-256", encoder.encode(secret));
+  return crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, ["encrypt", "decrypt"]);
+}
+
+/**
+ * Keeps the schema's fields and reports missing required ones
+ */
+export function validateCredentialData(
+  type: string,
+  data: unknown
+): { data: Record<string, string>; error?: undefined } | { data?: undefined; error: string } {
+  const schema = CREDENTIAL_SCHEMAS[type];
+  if (!schema) {
+    return { error: `Unknown credential type: ${type}` };
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    return { error: "Credential data must be an object" };
+  }
+
+  const values: Record<string, string> = {};
+  for (const field of schema.fields) {
+    const value = (data as Record<string, unknown>)[field];
+    if (typeof value === "string" && value.trim()) {
+      values[field] = value.trim();
+    }
+  }
+
+  const missing = schema.required.filter(field => !values[field]);
+  if (missing.length > 0) {
+    return { error: `Missing required credential fields: ${missing.join(", ")}` };
+  }
+  return { data: values };
+}
+
+export async function encryptCredentialData(data: Record<string, string>): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    await getEncryptionKey(),
+    encoder.encode(JSON.stringify(data))
+  );
+  return `${ENCRYPTION_VERSION}:${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+export async function decryptCredentialData(encrypted: string): Promise<Record<string, string>> {
+  const [version, iv, ciphertext] = encrypted.split(":");
+  if (version !== ENCRYPTION_VERSION || !iv || !ciphertext) {
+    throw new Error("Unsupported credential encryption format");
+  }
+
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    await getEncryptionKey(),
+    fromBase64(ciphertext)
+  );
+  return JSON.parse(decoder.decode(plaintext));
+}
@@ -0,0 +1,39 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { CronError, getNextCronRun, parseCron } from "./cron.ts";
+
+const nextRun = (expression: string, after: string, timeZone: string) =>
+  getNextCronRun(parseCron(expression), new Date(after), timeZone)?.toISOString();
+
+// New York springs forward on 2025-03-09 (02:00 EST -> 03:00 EDT) and falls back on 2025-11-02 (02:00 EDT -> 01:00 EST)
+
+Deno.test("a fixed-time job in the skipped hour runs when the clock jumps forward", () => {
+  assertEquals(nextRun("30 2 * * *", "2025-03-09T05:00:00Z", "America/New_York"), "2025-03-09T07:00:00.000Z");
+});
+
+Deno.test("a wildcard-hour job skips the skipped hour", () => {
+  assertEquals(nextRun("30 * * * *", "2025-03-09T06:45:00Z", "America/New_York"), "2025-03-09T07:30:00.000Z");
+});
+
+Deno.test("a fixed-time job runs once when the clock falls back", () => {
+  assertEquals(nextRun("30 1 * * *", "2025-11-02T04:00:00Z", "America/New_York"), "2025-11-02T05:30:00.000Z");
+  assertEquals(nextRun("30 1 * * *", "2025-11-02T05:30:00Z", "America/New_York"), "2025-11-03T06:30:00.000Z");
+});
+
+Deno.test("a wildcard-hour job runs again in the repeated hour", () => {
+  assertEquals(nextRun("30 * * * *", "2025-11-02T05:30:00Z", "America/New_York"), "2025-11-02T06:30:00.000Z");
+});
+
+Deno.test("a midnight job runs at the first instant of a day whose midnight is skipped", () => {
+  // Sao Paulo sprang forward at midnight on 2018-11-04 (00:00 -> 01:00)
+  assertEquals(nextRun("0 0 * * *", "2018-11-03T12:00:00Z", "America/Sao_Paulo"), "2018-11-04T03:00:00.000Z");
+});
+
+Deno.test("a day matches either day field when both are restricted", () => {
+  // Friday the 3rd comes before the 13th
+  assertEquals(nextRun("0 0 13 * 5", "2025-01-01T00:00:00Z", "UTC"), "2025-01-03T00:00:00.000Z");
+});
+
+Deno.test("invalid expressions throw a CronError", () => {
+  assertThrows(() => parseCron("* * * *"), CronError);
+  assertThrows(() => parseCron("61 * * * *"), CronError);
+});
@@ -0,0 +1,291 @@
+/**
+ * Cron expressions for the scheduler
+ *
+ * Standard 5-field syntax (minute hour day-of-month month day-of-week) with lists, ranges,
+ * steps, month and weekday names (7 = Sunday) and the @hourly/@daily/@weekly/@monthly/@yearly
+ * macros. As in Vixie cron, a day matches when either day field matches if both are restricted.
+ *
+ * Next runs are computed in an IANA time zone and follow cron's DST rules:
+ * - fixed-time jobs (specific hours) scheduled in the skipped hour run when the clock jumps forward,
+ *   and run only once when the clock falls back
+ * - jobs with a wildcard hour follow real time: nothing runs in the skipped hour, and the
+ *   repeated hour runs again
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Fields starting with "*" are unrestricted
+  dayOfMonthWildcard: boolean;
+  dayOfWeekWildcard: boolean;
+  hourWildcard: boolean;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+const MINUTE_MS = 60_000;
+// Searching stops after this many years without a matching time (e.g. "0 0 30 2 *")
+const MAX_SEARCH_YEARS = 5;
+
+export class CronError extends Error {
+  constructor(message: string, expression: string) {
+    super(`Invalid cron expression "${expression}": ${message}`);
+    this.name = "CronError";
+  }
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string,
+  names: string[] = [],
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  const parseValue = (raw: string) => {
+    const nameIndex = names.indexOf(raw.toUpperCase());
+    const value = nameIndex >= 0 ? nameIndex + nameOffset : Number(raw);
+    if (!/^\d+$/.test(raw) && nameIndex < 0) {
+      throw new CronError(`"${raw}" is not a number`, expression);
+    }
+    if (value < min || value > max) {
+      throw new CronError(`${value} is outside ${min}-${max}`, expression);
+    }
+    return value;
+  };
+
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronError(`invalid step "${stepText}"`, expression);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === "*") {
+      start = min;
+      end = max;
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-");
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) {
+        throw new CronError(`range ${range} is reversed`, expression);
+      }
+    } else {
+      start = parseValue(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const source = MACROS[trimmed.toLowerCase()] ?? trimmed;
+  const fields = source.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new CronError("expected 5 fields (minute hour day-of-month month day-of-week)", expression);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, expression, WEEKDAY_NAMES);
+  // 7 is Sunday as well
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    minutes: parseField(minute, 0, 59, expression),
+    hours: parseField(hour, 0, 23, expression),
+    daysOfMonth: parseField(dayOfMonth, 1, 31, expression),
+    months: parseField(month, 1, 12, expression, MONTH_NAMES, 1),
+    daysOfWeek,
+    dayOfMonthWildcard: dayOfMonth.startsWith("*"),
+    dayOfWeekWildcard: dayOfWeek.startsWith("*"),
+    hourWildcard: hour.startsWith("*"),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getWallClock(time: number, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      weekday: "short",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(time))) {
+    parts[part.type] = part.value;
+  }
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+  };
+}
+
+// Wall clock time as if it were UTC, to compare and step wall clock times
+function wallClockValue(clock: Pick<WallClock, "year" | "month" | "day" | "hour" | "minute">): number {
+  return Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+}
+
+/**
+ * First instant at or after which the zone's wall clock shows the given local date at midnight
+ * (later if midnight is skipped by a DST change)
+ */
+function startOfLocalDay(year: number, month: number, day: number, timeZone: string): number {
+  const target = Date.UTC(year, month - 1, day);
+  // The offset is at most ±14h, so the instant lies within a day of the UTC guess
+  let time = target - 14 * 60 * MINUTE_MS;
+  let clock = getWallClock(time, timeZone);
+  // Jump by the remaining wall clock difference, then correct minute by minute across offset changes
+  time += Math.max(target - wallClockValue(clock), 0);
+  clock = getWallClock(time, timeZone);
+  while (wallClockValue(clock) < target) {
+    time += Math.max(target - wallClockValue(clock), MINUTE_MS);
+    clock = getWallClock(time, timeZone);
+  }
+  while (wallClockValue(getWallClock(time - MINUTE_MS, timeZone)) >= target) {
+    time -= MINUTE_MS;
+  }
+  return time;
+}
+
+function matchesDay(schedule: CronSchedule, clock: WallClock): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(clock.day);
+  const dayOfWeek = schedule.daysOfWeek.has(clock.weekday);
+  if (schedule.dayOfMonthWildcard || schedule.dayOfWeekWildcard) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+function matchesClock(schedule: CronSchedule, clock: WallClock): boolean {
+  return schedule.months.has(clock.month) &&
+    matchesDay(schedule, clock) &&
+    schedule.hours.has(clock.hour) &&
+    schedule.minutes.has(clock.minute);
+}
+
+/**
+ * Next run strictly after `after`, in the given IANA time zone (null if none within 5 years)
+ */
+export function getNextCronRun(schedule: CronSchedule, after: Date, timeZone = "UTC"): Date | null {
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = time + MAX_SEARCH_YEARS * 366 * 24 * 60 * MINUTE_MS;
+
+  while (time < limit) {
+    const clock = getWallClock(time, timeZone);
+    const previous = getWallClock(time - MINUTE_MS, timeZone);
+    const wallStep = wallClockValue(clock) - wallClockValue(previous);
+
+    // The clock jumped forward: fixed-time jobs of the skipped wall clock times run now
+    if (wallStep > MINUTE_MS && !schedule.hourWildcard) {
+      for (let skipped = wallClockValue(previous) + MINUTE_MS; skipped < wallClockValue(clock); skipped += MINUTE_MS) {
+        const date = new Date(skipped);
+        const skippedClock: WallClock = {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          hour: date.getUTCHours(),
+          minute: date.getUTCMinutes(),
+          weekday: date.getUTCDay(),
+        };
+        if (matchesClock(schedule, skippedClock)) {
+          return new Date(time);
+        }
+      }
+    }
+
+    if (!schedule.months.has(clock.month)) {
+      const nextMonth = clock.month === 12 ? { year: clock.year + 1, month: 1 } : { year: clock.year, month: clock.month + 1 };
+      time = startOfLocalDay(nextMonth.year, nextMonth.month, 1, timeZone);
+      continue;
+    }
+    if (!matchesDay(schedule, clock)) {
+      const tomorrow = new Date(Date.UTC(clock.year, clock.month - 1, clock.day + 1));
+      time = startOfLocalDay(tomorrow.getUTCFullYear(), tomorrow.getUTCMonth() + 1, tomorrow.getUTCDate(), timeZone);
+      continue;
+    }
+    if (!schedule.hours.has(clock.hour)) {
+      time += (60 - clock.minute) * MINUTE_MS;
+      continue;
+    }
+    if (!schedule.minutes.has(clock.minute)) {
+      const nextMinute = [...schedule.minutes].sort((a, b) => a - b).find(m => m > clock.minute);
+      time += ((nextMinute ?? 60) - clock.minute) * MINUTE_MS;
+      continue;
+    }
+
+    // The clock fell back: fixed-time jobs do not run again in the repeated wall clock time
+    if (!schedule.hourWildcard) {
+      const earlierOffset = wallClockValue(getWallClock(time - 3 * 60 * MINUTE_MS, timeZone)) - (time - 3 * 60 * MINUTE_MS);
+      const offset = wallClockValue(clock) - time;
+      if (earlierOffset > offset) {
+        const firstOccurrence = time - (earlierOffset - offset);
+        if (wallClockValue(getWallClock(firstOccurrence, timeZone)) === wallClockValue(clock)) {
+          time += MINUTE_MS;
+          continue;
+        }
+      }
+    }
+
+    return new Date(time);
+  }
+
+  return null;
+}
@@ -0,0 +1,42 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { evaluateExpression, ExpressionError } from "./expressions.ts";
+
+const input = { user: { name: "Ann", age: 20, tags: ["vip"] }, raw: '{"a":{"b":3}}', items: [1, 2, 3] };
+const evaluate = (source: string) => evaluateExpression(source, { variables: { input }, implicit: input.user });
+
+Deno.test("operators follow JavaScript precedence", () => {
+  assertEquals(evaluate("1 + 2 * 3"), 7);
+  assertEquals(evaluate("input.user.age > 18 ? 'adult' : 'minor'"), "adult");
+  assertEquals(evaluate("input.missing ?? 'default'"), "default");
+});
+
+Deno.test("paths are null-safe and read JSON strings", () => {
+  assertEquals(evaluate("input.missing.deep"), undefined);
+  assertEquals(evaluate("input.raw.a.b"), 3);
+  assertEquals(evaluate("input.items[-1]"), 3);
+});
+
+Deno.test("conditions can use helpers, methods, templates and bare fields", () => {
+  assertEquals(evaluate("input.user.age >= 18 && contains(input.user.tags, 'vip')"), true);
+  assertEquals(evaluate("lower(input.user.name).startsWith('a')"), true);
+  assertEquals(evaluate("{{input.user.age}} > 18"), true);
+  assertEquals(evaluate("age > 18"), true);
+  assertEquals(evaluate("sum(input.items)"), 6);
+});
+
+Deno.test("prototypes cannot be reached", () => {
+  assertEquals(evaluate("input.constructor"), undefined);
+  assertEquals(evaluate("input.user.name.constructor"), undefined);
+  assertEquals(evaluate("input['__proto__']"), undefined);
+});
+
+Deno.test("only whitelisted functions and methods can be called", () => {
+  assertThrows(() => evaluate("eval('1')"), ExpressionError, 'Unknown function "eval"');
+  assertThrows(() => evaluate("input.items.map(1)"), ExpressionError, 'Unknown method "map" for array');
+});
+
+Deno.test("syntax errors point to the column", () => {
+  const error = assertThrows(() => evaluate("1 +"), ExpressionError) as ExpressionError;
+  assertEquals(error.column, 4);
+  assertEquals(error.reason, "Unexpected end of expression");
+});
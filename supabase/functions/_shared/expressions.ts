@@ -0,0 +1,561 @@
+/**
+ * Safe expression language used by templates, If/Else, Switch, Filter and path lookups
+ *
+ * Expressions are parsed and interpreted; they never reach `new Function` or `eval`.
+ * - literals: 42, 1.5, "text", 'text', true, false, null, undefined, [1, 2]
+ * - null-safe paths: input.user.name, items[0], input["first name"] (missing parts give undefined,
+ *   JSON strings are parsed when a property is read from them)
+ * - operators: ! - + * / % < <= > >= == != === !== && || ?? and cond ? a : b
+ * - helper functions (len, lower, contains, ...) and a whitelist of string, array and number methods
+ * - {{ ... }} inside an expression is a group, so "{{input.age}} > 18" still works
+ *
+ * Syntax and evaluation errors are ExpressionErrors that point to the column.
+ */
+
+export class ExpressionError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly expression: string,
+    // 1-based column of the offending token
+    public readonly column: number
+  ) {
+    super(`${reason} at column ${column}\n  ${expression}\n  ${" ".repeat(Math.max(0, column - 1))}^`);
+    this.name = "ExpressionError";
+  }
+}
+
+export interface ExpressionContext {
+  // Named variables, e.g. input or item
+  variables: Record<string, unknown>;
+  // Value whose properties are also available as bare identifiers (e.g. `age` for input.age)
+  implicit?: unknown;
+}
+
+type Token =
+  | { kind: "number"; value: number; pos: number }
+  | { kind: "string"; value: string; pos: number }
+  | { kind: "identifier"; value: string; pos: number }
+  | { kind: "punct"; value: string; pos: number }
+  | { kind: "end"; value: ""; pos: number };
+
+export type ExpressionNode =
+  | { type: "literal"; value: unknown; pos: number }
+  | { type: "identifier"; name: string; pos: number }
+  | { type: "member"; object: ExpressionNode; property: ExpressionNode; pos: number }
+  | { type: "call"; callee: ExpressionNode; args: ExpressionNode[]; pos: number }
+  | { type: "unary"; operator: string; argument: ExpressionNode; pos: number }
+  | { type: "binary"; operator: string; left: ExpressionNode; right: ExpressionNode; pos: number }
+  | { type: "conditional"; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode; pos: number }
+  | { type: "array"; elements: ExpressionNode[]; pos: number };
+
+// Longest operators first so "===" is not read as "==" followed by "="
+const PUNCTUATORS = [
+  "{{", "}}", "===", "!==", "?.", "??", "==", "!=", "<=", ">=", "&&", "||",
+  "(", ")", "[", "]", ",", ".", "?", ":", "!", "+", "-", "*", "/", "%", "<", ">",
+];
+
+const KEYWORDS: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+
+// Properties that would reach into prototypes are never read
+const BLOCKED_PROPERTIES = new Set(["__proto__", "prototype", "constructor"]);
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "==": 4, "!=": 4, "===": 4, "!==": 4,
+  "<": 5, "<=": 5, ">": 5, ">=": 5,
+  "+": 6, "-": 6,
+  "*": 7, "/": 7, "%": 7,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    // A property path segment such as the 0 in items.0.name
+    const afterDot = previous?.kind === "punct" && (previous.value === "." || previous.value === "?.");
+    const afterOperand = previous !== undefined && (
+      previous.kind === "identifier" || previous.kind === "string" ||
+      (previous.kind === "punct" && (previous.value === ")" || previous.value === "]" || previous.value === "}}"))
+    );
+
+    if (/[0-9]/.test(ch) || (ch === "." && !afterOperand && /[0-9]/.test(source[i + 1] ?? ""))) {
+      const pattern = afterDot ? /^\d+/ : /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/;
+      const match = pattern.exec(source.slice(i))!;
+      tokens.push({ kind: "number", value: parseFloat(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === "\\") {
+          const next = source[i + 1];
+          if (next === undefined) break;
+          if (next === "u") {
+            const hex = source.slice(i + 2, i + 6);
+            if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+              throw new ExpressionError("Invalid \\u escape in string", source, i + 1);
+            }
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 6;
+            continue;
+          }
+          value += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f", v: "\v", "0": "\0" } as Record<string, string>)[next] ?? next;
+          i += 2;
+          continue;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionError("Unterminated string", source, start + 1);
+      }
+      i++;
+      tokens.push({ kind: "string", value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: "identifier", value: match[0], pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find(p => source.startsWith(p, i));
+    if (!punct) {
+      throw new ExpressionError(`Unexpected character "${ch}"`, source, i + 1);
+    }
+    tokens.push({ kind: "punct", value: punct, pos: i });
+    i += punct.length;
+  }
+
+  tokens.push({ kind: "end", value: "", pos: source.length });
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly source: string, private readonly tokens: Token[]) {}
+
+  parse(): ExpressionNode {
+    if (this.peek().kind === "end") {
+      throw this.error("Expression is empty", this.peek());
+    }
+    const node = this.parseConditional();
+    if (this.peek().kind !== "end") {
+      throw this.error(`Unexpected ${describe(this.peek())}`, this.peek());
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.kind === "punct" && token.value === value;
+  }
+
+  private expect(value: string): Token {
+    if (!this.isPunct(value)) {
+      throw this.error(`Expected "${value}" but found ${describe(this.peek())}`, this.peek());
+    }
+    return this.next();
+  }
+
+  private error(reason: string, token: Token): ExpressionError {
+    return new ExpressionError(reason, this.source, token.pos + 1);
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(1);
+    if (!this.isPunct("?")) return test;
+
+    const token = this.next();
+    const consequent = this.parseConditional();
+    this.expect(":");
+    const alternate = this.parseConditional();
+    return { type: "conditional", test, consequent, alternate, pos: token.pos };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== "punct") return left;
+      const precedence = BINARY_PRECEDENCE[token.value];
+      if (precedence === undefined || precedence < minPrecedence) return left;
+
+      this.next();
+      const right = this.parseBinary(precedence + 1);
+      left = { type: "binary", operator: token.value, left, right, pos: token.pos };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (token.kind === "punct" && (token.value === "!" || token.value === "-" || token.value === "+")) {
+      this.next();
+      return { type: "unary", operator: token.value, argument: this.parseUnary(), pos: token.pos };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+
+    while (true) {
+      const token = this.peek();
+      if (token.kind !== "punct") return node;
+
+      if (token.value === "." || token.value === "?.") {
+        this.next();
+        const name = this.next();
+        if (name.kind === "punct" && name.value === "[" && token.value === "?.") {
+          // input?.["key"]
+          const property = this.parseConditional();
+          this.expect("]");
+          node = { type: "member", object: node, property, pos: name.pos };
+          continue;
+        }
+        if (name.kind !== "identifier" && name.kind !== "number") {
+          throw this.error(`Expected a property name after "${token.value}" but found ${describe(name)}`, name);
+        }
+        node = { type: "member", object: node, property: { type: "literal", value: name.value, pos: name.pos }, pos: name.pos };
+      } else if (token.value === "[") {
+        this.next();
+        const property = this.parseConditional();
+        this.expect("]");
+        node = { type: "member", object: node, property, pos: token.pos };
+      } else if (token.value === "(") {
+        this.next();
+        const args = this.parseList(")");
+        node = { type: "call", callee: node, args, pos: token.pos };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    if (this.isPunct(close)) {
+      this.next();
+      return items;
+    }
+    while (true) {
+      items.push(this.parseConditional());
+      if (this.isPunct(",")) {
+        this.next();
+        continue;
+      }
+      this.expect(close);
+      return items;
+    }
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.kind) {
+      case "number":
+      case "string":
+        return { type: "literal", value: token.value, pos: token.pos };
+      case "identifier":
+        if (token.value in KEYWORDS) {
+          return { type: "literal", value: KEYWORDS[token.value], pos: token.pos };
+        }
+        return { type: "identifier", name: token.value, pos: token.pos };
+      case "punct":
+        if (token.value === "(") {
+          const node = this.parseConditional();
+          this.expect(")");
+          return node;
+        }
+        if (token.value === "{{") {
+          const node = this.parseConditional();
+          this.expect("}}");
+          return node;
+        }
+        if (token.value === "[") {
+          return { type: "array", elements: this.parseList("]"), pos: token.pos };
+        }
+        throw this.error(`Unexpected ${describe(token)}`, token);
+      default:
+        throw this.error("Unexpected end of expression", token);
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case "end": return "end of expression";
+    case "string": return `string "${token.value}"`;
+    default: return `"${token.value}"`;
+  }
+}
+
+const parseCache = new Map<string, ExpressionNode>();
+const PARSE_CACHE_LIMIT = 500;
+
+/**
+ * Parses an expression; throws an ExpressionError pointing to the column on syntax errors
+ */
+export function parseExpression(source: string): ExpressionNode {
+  const cached = parseCache.get(source);
+  if (cached) return cached;
+
+  const node = new Parser(source, tokenize(source)).parse();
+  if (parseCache.size >= PARSE_CACHE_LIMIT) parseCache.clear();
+  parseCache.set(source, node);
+  return node;
+}
+
+function parseJsonString(value: unknown): unknown {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+      try {
+        return JSON.parse(trimmed);
+      } catch {
+        return value;
+      }
+    }
+  }
+  return value;
+}
+
+/**
+ * Null-safe property read that never reaches prototypes
+ */
+export function readProperty(target: unknown, key: unknown): unknown {
+  const object = parseJsonString(target);
+  if (object === null || object === undefined) return undefined;
+
+  const name = typeof key === "number" ? key : String(key);
+  if (typeof name === "string" && BLOCKED_PROPERTIES.has(name)) return undefined;
+
+  if (typeof object === "string" || Array.isArray(object)) {
+    if (name === "length") return object.length;
+    const index = typeof name === "number" ? name : Number(name);
+    if (Number.isInteger(index)) return object[index < 0 ? object.length + index : index];
+  }
+  if (typeof object === "object" && Object.prototype.hasOwnProperty.call(object, name)) {
+    return (object as Record<string | number, unknown>)[name];
+  }
+  return undefined;
+}
+
+const toArray = (value: unknown): unknown[] => {
+  const parsed = parseJsonString(value);
+  return Array.isArray(parsed) ? parsed : [];
+};
+
+const HELPERS: Record<string, (...args: unknown[]) => unknown> = {
+  len: (value) => {
+    const parsed = parseJsonString(value);
+    if (typeof parsed === "string" || Array.isArray(parsed)) return parsed.length;
+    if (parsed && typeof parsed === "object") return Object.keys(parsed).length;
+    return 0;
+  },
+  lower: (value) => String(value ?? "").toLowerCase(),
+  upper: (value) => String(value ?? "").toUpperCase(),
+  trim: (value) => String(value ?? "").trim(),
+  contains: (haystack, needle) => {
+    const parsed = parseJsonString(haystack);
+    if (Array.isArray(parsed)) return parsed.includes(needle);
+    return String(parsed ?? "").includes(String(needle));
+  },
+  startsWith: (value, prefix) => String(value ?? "").startsWith(String(prefix)),
+  endsWith: (value, suffix) => String(value ?? "").endsWith(String(suffix)),
+  matches: (value, pattern) => {
+    try {
+      return new RegExp(String(pattern)).test(String(value ?? ""));
+    } catch {
+      throw new Error(`Invalid regular expression "${pattern}"`);
+    }
+  },
+  isEmpty: (value) => {
+    const parsed = parseJsonString(value);
+    if (parsed === null || parsed === undefined) return true;
+    if (typeof parsed === "string" || Array.isArray(parsed)) return parsed.length === 0;
+    if (typeof parsed === "object") return Object.keys(parsed).length === 0;
+    return false;
+  },
+  exists: (value) => value !== null && value !== undefined,
+  number: (value) => Number(value),
+  string: (value) => (typeof value === "object" && value !== null ? JSON.stringify(value) : String(value ?? "")),
+  boolean: (value) => Boolean(value),
+  round: (value, digits = 0) => {
+    const factor = Math.pow(10, Number(digits) || 0);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(Number(value)),
+  ceil: (value) => Math.ceil(Number(value)),
+  abs: (value) => Math.abs(Number(value)),
+  min: (...values) => Math.min(...(values.length === 1 ? toArray(values[0]) : values).map(Number)),
+  max: (...values) => Math.max(...(values.length === 1 ? toArray(values[0]) : values).map(Number)),
+  sum: (values) => toArray(values).reduce((total: number, value) => total + (Number(value) || 0), 0),
+  join: (values, separator = ",") => toArray(values).join(String(separator)),
+  first: (values) => toArray(values)[0],
+  last: (values) => {
+    const array = toArray(values);
+    return array[array.length - 1];
+  },
+  keys: (value) => {
+    const parsed = parseJsonString(value);
+    return parsed && typeof parsed === "object" ? Object.keys(parsed) : [];
+  },
+  values: (value) => {
+    const parsed = parseJsonString(value);
+    return parsed && typeof parsed === "object" ? Object.values(parsed) : [];
+  },
+  now: () => new Date().toISOString(),
+};
+
+// Methods that can be called on values; none of them take callbacks
+const STRING_METHODS = new Set([
+  "toLowerCase", "toUpperCase", "trim", "trimStart", "trimEnd", "includes", "startsWith", "endsWith",
+  "indexOf", "lastIndexOf", "slice", "substring", "split", "replace", "replaceAll", "padStart", "padEnd",
+  "charAt", "at", "concat", "toString",
+]);
+const ARRAY_METHODS = new Set(["includes", "indexOf", "lastIndexOf", "join", "slice", "at", "concat", "toString"]);
+const NUMBER_METHODS = new Set(["toFixed", "toPrecision", "toString"]);
+
+function callMethod(receiver: unknown, method: string, args: unknown[]): unknown {
+  const allowed =
+    typeof receiver === "string" ? STRING_METHODS :
+    Array.isArray(receiver) ? ARRAY_METHODS :
+    typeof receiver === "number" ? NUMBER_METHODS :
+    null;
+  if (!allowed || !allowed.has(method)) {
+    const kind = Array.isArray(receiver) ? "array" : receiver === null ? "null" : typeof receiver;
+    throw new Error(`Unknown method "${method}" for ${kind}`);
+  }
+  // String patterns only: replace/replaceAll/split never receive functions or regular expressions
+  const safeArgs = args.map(arg => (typeof arg === "function" ? String(arg) : arg));
+  return (receiver as Record<string, (...a: unknown[]) => unknown>)[method](...safeArgs);
+}
+
+function evaluateNode(node: ExpressionNode, context: ExpressionContext, source: string): unknown {
+  const fail = (error: unknown, pos: number): never => {
+    if (error instanceof ExpressionError) throw error;
+    throw new ExpressionError(error instanceof Error ? error.message : String(error), source, pos + 1);
+  };
+  const evaluate = (child: ExpressionNode) => evaluateNode(child, context, source);
+
+  switch (node.type) {
+    case "literal":
+      return node.value;
+
+    case "identifier":
+      if (Object.prototype.hasOwnProperty.call(context.variables, node.name)) {
+        return context.variables[node.name];
+      }
+      return readProperty(context.implicit, node.name);
+
+    case "array":
+      return node.elements.map(evaluate);
+
+    case "member":
+      return readProperty(evaluate(node.object), evaluate(node.property));
+
+    case "call": {
+      const args = node.args.map(evaluate);
+      try {
+        if (node.callee.type === "identifier") {
+          const helper = Object.prototype.hasOwnProperty.call(HELPERS, node.callee.name) ? HELPERS[node.callee.name] : undefined;
+          if (!helper) {
+            throw new Error(`Unknown function "${node.callee.name}"`);
+          }
+          return helper(...args);
+        }
+        if (node.callee.type === "member") {
+          const receiver = parseJsonString(evaluate(node.callee.object));
+          // Null-safe: calling a method on a missing value gives undefined
+          if (receiver === null || receiver === undefined) return undefined;
+          return callMethod(receiver, String(evaluate(node.callee.property)), args);
+        }
+        throw new Error("Only functions and methods can be called");
+      } catch (error) {
+        return fail(error, node.callee.pos);
+      }
+    }
+
+    case "unary": {
+      const value = evaluate(node.argument) as number;
+      switch (node.operator) {
+        case "!": return !value;
+        case "-": return -value;
+        default: return +value;
+      }
+    }
+
+    case "conditional":
+      return evaluate(node.test) ? evaluate(node.consequent) : evaluate(node.alternate);
+
+    case "binary": {
+      if (node.operator === "&&") return evaluate(node.left) && evaluate(node.right);
+      if (node.operator === "||") return evaluate(node.left) || evaluate(node.right);
+      if (node.operator === "??") return evaluate(node.left) ?? evaluate(node.right);
+
+      // Operands keep JavaScript semantics at runtime ("a" + 1, "20" > 18)
+      const left = evaluate(node.left) as number;
+      const right = evaluate(node.right) as number;
+      switch (node.operator) {
+        case "+": return left + right;
+        case "-": return left - right;
+        case "*": return left * right;
+        case "/": return left / right;
+        case "%": return left % right;
+        case "<": return left < right;
+        case "<=": return left <= right;
+        case ">": return left > right;
+        case ">=": return left >= right;
+        case "==": return left == right;
+        case "!=": return left != right;
+        case "===": return left === right;
+        case "!==": return left !== right;
+        default: return fail(new Error(`Unknown operator "${node.operator}"`), node.pos);
+      }
+    }
+  }
+}
+
+/**
+ * Parses and evaluates an expression
+ */
+export function evaluateExpression(source: string, context: ExpressionContext): unknown {
+  return evaluateNode(parseExpression(source), context, source);
+}
+
+/**
+ * Formats a value for insertion into text (objects and arrays as JSON)
+ */
+export function formatExpressionValue(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (value !== null && typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
@@ -78,6 +78,31 @@ export async function fetchWithRetry(
   throw lastError || new Error('Request failed after retries');
 }
 
+/**
+ * Run any async operation with the same backoff behaviour as fetchWithRetry
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  retryOptions: RetryOptions = {},
+  label = 'Operation'
+): Promise<T> {
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  let delay = opts.initialDelay;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= opts.maxRetries) {
+        throw error;
+      }
+      console.log(`[${label}] Attempt ${attempt + 1} failed, retrying in ${delay}ms (attempt ${attempt + 1}/${opts.maxRetries})...`);
+      await sleep(delay);
+      delay = Math.min(delay * opts.backoffMultiplier, opts.maxDelay);
+    }
+  }
+}
+
 /**
  * Parse and format Google API error messages
  */
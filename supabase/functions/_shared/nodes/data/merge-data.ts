@@ -0,0 +1,18 @@
+import { MERGE_CONFIG_FIELDS, MERGE_INPUT_HANDLES, MERGE_USAGE_GUIDE, executeMerge } from "../logic/merge.ts";
+import type { NodeModule } from "../types.ts";
+
+// The Merge node, listed with the data manipulation nodes
+export const mergeData: NodeModule = {
+  schema: {
+    type: 'merge_data',
+    label: 'Merge Data',
+    category: 'data',
+    icon: 'Combine',
+    description: 'Combine the data of two inputs',
+    defaultConfig: { mode: 'merge' },
+    configFields: MERGE_CONFIG_FIELDS,
+    usageGuide: MERGE_USAGE_GUIDE,
+    inputHandles: MERGE_INPUT_HANDLES,
+  },
+  execute: executeMerge,
+};
@@ -0,0 +1,58 @@
+/**
+ * Input and config helpers for node implementations
+ */
+
+/**
+ * Safely extracts input object from unknown input type
+ * Handles various input formats gracefully
+ */
+export function extractInputObject(input: unknown): Record<string, unknown> {
+  if (input && typeof input === 'object' && input !== null) {
+    return input as Record<string, unknown>;
+  }
+  return {};
+}
+
+/**
+ * Type-safe property extraction from record
+ */
+export function getProperty<T>(obj: Record<string, unknown>, key: string, defaultValue: T): T {
+  const value = obj[key];
+  if (value !== undefined && value !== null) {
+    return value as T;
+  }
+  return defaultValue;
+}
+
+/**
+ * Type-safe string property extraction
+ */
+export function getStringProperty(obj: Record<string, unknown>, key: string, defaultValue: string): string {
+  const value = obj[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return defaultValue;
+}
+
+/**
+ * Type-safe number property extraction
+ */
+export function getNumberProperty(obj: Record<string, unknown>, key: string, defaultValue: number): number {
+  const value = obj[key];
+  if (typeof value === 'number') {
+    return value;
+  }
+  return defaultValue;
+}
+
+/**
+ * Type-safe boolean property extraction
+ */
+export function getBooleanProperty(obj: Record<string, unknown>, key: string, defaultValue: boolean): boolean {
+  const value = obj[key];
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  return defaultValue;
+}
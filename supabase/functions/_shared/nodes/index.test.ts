@@ -0,0 +1,29 @@
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { LEGACY_NODE_TYPES } from "./definitions.ts";
+import { NODE_MODULES, NODE_TYPES } from "./index.ts";
+
+// Node types handled by the switch in executeNode (execute-workflow/index.ts)
+async function getEngineSwitchTypes(): Promise<string[]> {
+  const source = await Deno.readTextFile(new URL("../../execute-workflow/index.ts", import.meta.url));
+  const start = source.indexOf("switch (type) {", source.indexOf("async function executeNode("));
+  const end = source.indexOf("\n    default:", start);
+  assert(start >= 0 && end > start, "executeNode's switch over node types not found");
+  return [...source.slice(start, end).matchAll(/^ {4}case ["']([\w-]+)["']:/gm)].map(match => match[1]);
+}
+
+Deno.test("every node type is defined once", () => {
+  const types = NODE_TYPES.map(definition => definition.type);
+  assertEquals(types.filter((type, index) => types.indexOf(type) !== index), []);
+});
+
+Deno.test("the engine's switch handles exactly the node types not migrated to modules", async () => {
+  const switchTypes = await getEngineSwitchTypes();
+  assertEquals(switchTypes.filter((type, index) => switchTypes.indexOf(type) !== index), [], "duplicate case labels");
+  assertEquals([...switchTypes].sort(), LEGACY_NODE_TYPES.map(definition => definition.type).sort());
+});
+
+Deno.test("migrated node types are not left in the engine's switch", async () => {
+  const switchTypes = new Set(await getEngineSwitchTypes());
+  const moduleTypes = NODE_MODULES.flatMap(module => [module.schema.type, ...(module.aliases ?? [])]);
+  assertEquals(moduleTypes.filter(type => switchTypes.has(type)), []);
+});
@@ -0,0 +1,74 @@
+/**
+ * Node registry
+ *
+ * Each node type is one module exporting its schema (what the editor shows) and its execute
+ * function (what the engine runs). The editor's node library and properties panel and the
+ * execute-workflow engine all read node types from here.
+ *
+ * The triggers and the merge nodes are modules so far. The other node types keep their definition
+ * in definitions.ts and their execution in the engine's switch until they are migrated, which
+ * moves both into one module. New node types are always added as modules.
+ */
+
+import { mergeData } from "./data/merge-data.ts";
+import { LEGACY_NODE_TYPES } from "./definitions.ts";
+import { merge } from "./logic/merge.ts";
+import { chatTrigger } from "./triggers/chat-trigger.ts";
+import { errorTrigger } from "./triggers/error-trigger.ts";
+import { interval } from "./triggers/interval.ts";
+import { manualTrigger } from "./triggers/manual-trigger.ts";
+import { schedule } from "./triggers/schedule.ts";
+import { webhook } from "./triggers/webhook.ts";
+import { workflowTrigger } from "./triggers/workflow-trigger.ts";
+import type { NodeModule, NodeTypeDefinition } from "./types.ts";
+
+export type {
+  BinaryDataApi,
+  BinaryReference,
+  ConfigField,
+  NodeCategory,
+  NodeExecutionArgs,
+  NodeModule,
+  NodeTypeDefinition,
+  NodeUsageGuide,
+  StaticDataApi,
+} from "./types.ts";
+
+// In the order the editor lists them
+export const NODE_MODULES: NodeModule[] = [
+  manualTrigger,
+  schedule,
+  webhook,
+  chatTrigger,
+  errorTrigger,
+  interval,
+  workflowTrigger,
+  merge,
+  mergeData,
+];
+
+const modulesByType = new Map<string, NodeModule>();
+for (const module of NODE_MODULES) {
+  for (const type of [module.schema.type, ...(module.aliases ?? [])]) {
+    if (modulesByType.has(type)) {
+      throw new Error(`Node type "${type}" is registered twice`);
+    }
+    modulesByType.set(type, module);
+  }
+}
+
+export const NODE_SCHEMAS: NodeTypeDefinition[] = NODE_MODULES.map(module => module.schema);
+
+// Every node type the editor offers, in the order it lists them
+export const NODE_TYPES: NodeTypeDefinition[] = [...NODE_SCHEMAS, ...LEGACY_NODE_TYPES];
+
+export function getNodeModule(type: string): NodeModule | undefined {
+  return modulesByType.get(type);
+}
+
+/**
+ * Definition of a node type, also for the older type names of migrated modules
+ */
+export function getNodeDefinition(type: string): NodeTypeDefinition | undefined {
+  return getNodeModule(type)?.schema ?? LEGACY_NODE_TYPES.find(definition => definition.type === type);
+}
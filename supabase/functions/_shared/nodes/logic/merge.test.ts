@@ -0,0 +1,75 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import type { NodeExecutionArgs } from "../types.ts";
+import { executeMerge } from "./merge.ts";
+
+const merge = (config: Record<string, unknown>, input: unknown) => executeMerge({ config, input } as NodeExecutionArgs);
+
+const customers = [{ id: 1, name: "John" }, { id: 2, name: "Jane" }];
+const emails = [{ id: 1, email: "john@test.com" }, { id: 3, email: "max@test.com" }];
+const join = (joinType: string) => merge({ mode: "join", joinType }, { input1: customers, input2: emails });
+
+Deno.test("inner join keeps matching items only", () => {
+  assertEquals(join("inner"), [{ id: 1, name: "John", email: "john@test.com" }]);
+});
+
+Deno.test("left join keeps every item of input 1", () => {
+  assertEquals(join("left"), [{ id: 1, name: "John", email: "john@test.com" }, { id: 2, name: "Jane" }]);
+});
+
+Deno.test("right join keeps every item of input 2", () => {
+  assertEquals(join("right"), [{ id: 1, name: "John", email: "john@test.com" }, { id: 3, email: "max@test.com" }]);
+});
+
+Deno.test("full outer join keeps every item", () => {
+  assertEquals(join("full"), [
+    { id: 1, name: "John", email: "john@test.com" },
+    { id: 2, name: "Jane" },
+    { id: 3, email: "max@test.com" },
+  ]);
+});
+
+Deno.test("anti join keeps the items of input 1 without a match", () => {
+  assertEquals(join("anti"), [{ id: 2, name: "Jane" }]);
+});
+
+Deno.test("an item matching several items is combined with each", () => {
+  const orders = [{ id: 1, order: "A" }, { id: 1, order: "B" }];
+  assertEquals(merge({ mode: "join" }, { input1: customers, input2: orders }), [
+    { id: 1, name: "John", order: "A" },
+    { id: 1, name: "John", order: "B" },
+  ]);
+});
+
+Deno.test("items with an empty key match nothing", () => {
+  const result = merge({ mode: "join", joinType: "full" }, { input1: [{ id: null, a: 1 }], input2: [{ id: null, b: 2 }] });
+  assertEquals(result, [{ id: null, a: 1 }, { id: null, b: 2 }]);
+});
+
+Deno.test("joins on several key fields and dot paths", () => {
+  const result = merge(
+    { mode: "join", key1: "customer.id, region", key2: "id, region" },
+    {
+      input1: [{ customer: { id: 1 }, region: "eu", total: 5 }, { customer: { id: 1 }, region: "us", total: 7 }],
+      input2: [{ id: 1, region: "us", name: "John" }],
+    }
+  );
+  assertEquals(result, [{ customer: { id: 1 }, region: "us", total: 7, id: 1, name: "John" }]);
+});
+
+Deno.test("suffix keeps both colliding fields and the shared key once", () => {
+  const result = merge(
+    { mode: "join", onCollision: "suffix" },
+    { input1: [{ id: 1, name: "John" }], input2: [{ id: 1, name: "J. Doe" }] }
+  );
+  assertEquals(result, [{ id: 1, name_1: "John", name_2: "J. Doe" }]);
+});
+
+Deno.test("combining by position stops at the shorter input unless unpaired items are kept", () => {
+  const input = { input1: [{ a: 1 }, { a: 2 }], input2: [{ b: 1 }] };
+  assertEquals(merge({ mode: "position" }, input), [{ a: 1, b: 1 }]);
+  assertEquals(merge({ mode: "position", includeUnpaired: true }, input), [{ a: 1, b: 1 }, { a: 2 }]);
+});
+
+Deno.test("an unknown join type is rejected", () => {
+  assertThrows(() => join("cross"), Error, 'Merge: unknown join type "cross"');
+});
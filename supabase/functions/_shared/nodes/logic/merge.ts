@@ -0,0 +1,263 @@
+import { getBooleanProperty, getStringProperty } from "../helpers.ts";
+import type { ConfigField, NodeExecutionArgs, NodeModule, NodeUsageGuide } from "../types.ts";
+
+type Item = Record<string, unknown>;
+type JoinType = 'inner' | 'left' | 'right' | 'full' | 'anti';
+type CollisionMode = 'prefer_input1' | 'prefer_input2' | 'suffix';
+
+const JOIN_TYPES: JoinType[] = ['inner', 'left', 'right', 'full', 'anti'];
+const COLLISION_MODES: CollisionMode[] = ['prefer_input1', 'prefer_input2', 'suffix'];
+
+// Fields the engine adds to every node input
+const ENGINE_FIELDS = new Set(['_user_id', '_workflow_id']);
+
+export const MERGE_INPUT_HANDLES = [
+  { id: 'input1', label: 'Input 1' },
+  { id: 'input2', label: 'Input 2' },
+];
+
+export const MERGE_CONFIG_FIELDS: ConfigField[] = [
+  { key: 'mode', label: 'Mode', type: 'select', options: [
+    { label: 'Merge Objects', value: 'merge' },
+    { label: 'Combine by Key (Join)', value: 'join' },
+    { label: 'Combine by Position', value: 'position' },
+    { label: 'Append (Input 1, then Input 2)', value: 'append' },
+    { label: 'Concatenate Arrays', value: 'concat' },
+    { label: 'Wait All', value: 'wait_all' },
+  ], defaultValue: 'merge' },
+  { key: 'joinType', label: 'Join Type', type: 'select', options: [
+    { label: 'Inner (matching items only)', value: 'inner' },
+    { label: 'Left (all of Input 1)', value: 'left' },
+    { label: 'Right (all of Input 2)', value: 'right' },
+    { label: 'Full Outer (all items)', value: 'full' },
+    { label: 'Anti (Input 1 items without a match)', value: 'anti' },
+  ], defaultValue: 'inner', helpText: 'For Combine by Key' },
+  { key: 'key1', label: 'Input 1 Key Fields', type: 'text', placeholder: 'id', defaultValue: 'id', helpText: 'For Combine by Key. Comma-separated, dot paths allowed (e.g. customer.id)' },
+  { key: 'key2', label: 'Input 2 Key Fields', type: 'text', placeholder: 'id', defaultValue: 'id', helpText: 'For Combine by Key. Matched in order against the Input 1 key fields' },
+  { key: 'onCollision', label: 'Field Name Collisions', type: 'select', options: [
+    { label: 'Prefer Input 2', value: 'prefer_input2' },
+    { label: 'Prefer Input 1', value: 'prefer_input1' },
+    { label: 'Keep Both (suffix _1 / _2)', value: 'suffix' },
+  ], defaultValue: 'prefer_input2', helpText: 'When combined items both have a field (for Combine by Key and by Position)' },
+  { key: 'includeUnpaired', label: 'Include Unpaired Items', type: 'boolean', defaultValue: false, helpText: 'For Combine by Position: keep the extra items of the longer input' },
+];
+
+export const MERGE_USAGE_GUIDE: NodeUsageGuide = {
+  overview: 'Combines the data arriving at Input 1 and Input 2. Join items on key fields like SQL (inner, left, right, full outer, anti), pair them by position, append them, or merge objects.',
+  inputs: ['Input 1 (left handle)', 'Input 2 (right handle)'],
+  outputs: ['merged items (array) or merged object'],
+  example: `Input 1: [{id: 1, name: "John"}, {id: 2, name: "Jane"}]
+Input 2: [{id: 1, email: "john@test.com"}, {id: 3, email: "max@test.com"}]
+
+Mode: "join", Key Fields: id / id
+  inner: [{id: 1, name: "John", email: "john@test.com"}]
+  left:  + {id: 2, name: "Jane"}
+  full:  + {id: 2, name: "Jane"}, {id: 3, email: "max@test.com"}
+  anti:  [{id: 2, name: "Jane"}]
+
+Mode: "position": item 1 + item 1, item 2 + item 2, ...
+Mode: "append": all items of Input 1, then all of Input 2`,
+  tips: [
+    'Connect the two sources to the Input 1 and Input 2 handles',
+    'Single objects count as one item',
+    'Items whose key fields are empty never match',
+    'An item matching several items produces one result per match',
+    'With "Keep Both", fields present in both items become field_1 and field_2 (shared key fields are kept once)',
+  ],
+};
+
+/**
+ * The inputs by name, Input 1 and Input 2 first: the input1/input2 handles and the outputs keyed
+ * by upstream node id (edges connected before the handles existed). Those outputs stand in for
+ * the handles nothing is connected to, in order; further ones follow.
+ */
+function getInputs(input: unknown): { entries: [string, unknown][]; input1: unknown; input2: unknown } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { entries: [['input1', input]], input1: input, input2: undefined };
+  }
+  const inputObj = input as Record<string, unknown>;
+  const unhandled = Object.entries(inputObj)
+    .filter(([key]) => !ENGINE_FIELDS.has(key) && !MERGE_INPUT_HANDLES.some(handle => handle.id === key));
+  const slots = MERGE_INPUT_HANDLES.map(({ id }): [string, unknown] | undefined =>
+    inputObj[id] !== undefined ? [id, inputObj[id]] : unhandled.shift()
+  );
+  const entries = [...slots.filter((entry): entry is [string, unknown] => entry !== undefined), ...unhandled];
+  return { entries, input1: slots[0]?.[1], input2: slots[1]?.[1] };
+}
+
+function toItems(value: unknown): Item[] {
+  if (value === undefined || value === null) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map(v => (typeof v === 'object' && v !== null && !Array.isArray(v) ? v as Item : { value: v }));
+}
+
+function getPath(item: Item, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined),
+    item
+  );
+}
+
+function parseKeyFields(config: Record<string, unknown>, key: string): string[] {
+  return getStringProperty(config, key, 'id').split(',').map(field => field.trim()).filter(Boolean);
+}
+
+// Items with an empty key field match nothing (like NULL in SQL)
+function getKey(item: Item, fields: string[]): string | null {
+  const values = fields.map(field => getPath(item, field));
+  return values.some(value => value === undefined || value === null) ? null : JSON.stringify(values);
+}
+
+/**
+ * Combines two items. With "suffix", fields present in both are kept as field_1 and field_2,
+ * except `sharedFields` (join keys with the same name, equal by definition)
+ */
+function combineItems(item1: Item | undefined, item2: Item | undefined, onCollision: CollisionMode, sharedFields: Set<string>): Item {
+  if (!item1) return { ...item2 };
+  if (!item2) return { ...item1 };
+  if (onCollision === 'prefer_input1') return { ...item2, ...item1 };
+  if (onCollision === 'prefer_input2') return { ...item1, ...item2 };
+
+  const combined: Item = {};
+  for (const [field, value] of Object.entries(item1)) {
+    combined[field in item2 && !sharedFields.has(field) ? `${field}_1` : field] = value;
+  }
+  for (const [field, value] of Object.entries(item2)) {
+    if (!(field in item1)) {
+      combined[field] = value;
+    } else if (!sharedFields.has(field)) {
+      combined[`${field}_2`] = value;
+    }
+  }
+  return combined;
+}
+
+function joinItems(
+  items1: Item[],
+  items2: Item[],
+  fields1: string[],
+  fields2: string[],
+  joinType: JoinType,
+  onCollision: CollisionMode
+): Item[] {
+  const sharedFields = new Set(fields1.filter((field, i) => field === fields2[i] && !field.includes('.')));
+  const items2ByKey = new Map<string, number[]>();
+  items2.forEach((item, index) => {
+    const key = getKey(item, fields2);
+    if (key !== null) items2ByKey.set(key, [...(items2ByKey.get(key) ?? []), index]);
+  });
+
+  const result: Item[] = [];
+  const matched2 = new Set<number>();
+  for (const item1 of items1) {
+    const key = getKey(item1, fields1);
+    const matches = key === null ? [] : items2ByKey.get(key) ?? [];
+    if (joinType === 'anti') {
+      if (matches.length === 0) result.push({ ...item1 });
+      continue;
+    }
+    if (matches.length === 0) {
+      if (joinType === 'left' || joinType === 'full') result.push({ ...item1 });
+      continue;
+    }
+    for (const index of matches) {
+      matched2.add(index);
+      result.push(combineItems(item1, items2[index], onCollision, sharedFields));
+    }
+  }
+  if (joinType === 'right' || joinType === 'full') {
+    items2.forEach((item2, index) => {
+      if (!matched2.has(index)) result.push({ ...item2 });
+    });
+  }
+  return result;
+}
+
+function getOption<T extends string>(config: Record<string, unknown>, key: string, options: T[], defaultValue: T, label: string): T {
+  const value = getStringProperty(config, key, defaultValue) as T;
+  if (!options.includes(value)) {
+    throw new Error(`Merge: unknown ${label} "${value}". Use one of: ${options.join(', ')}`);
+  }
+  return value;
+}
+
+export function executeMerge({ config, input }: NodeExecutionArgs): unknown {
+  const mode = getStringProperty(config, 'mode', 'merge');
+  const { entries, input1, input2 } = getInputs(input);
+  const values = entries.map(([, value]) => value);
+
+  switch (mode) {
+    case 'join':
+    case 'key_based': {
+      // key_based (older workflows): full outer join of every input on mergeKey, later inputs win
+      const legacy = mode === 'key_based';
+      const fields1 = legacy ? [getStringProperty(config, 'mergeKey', 'id')] : parseKeyFields(config, 'key1');
+      const fields2 = legacy ? fields1 : parseKeyFields(config, 'key2');
+      if (fields1.length === 0 || fields1.length !== fields2.length) {
+        throw new Error('Merge: Combine by Key needs the same number of key fields for Input 1 and Input 2');
+      }
+      const joinType = legacy ? 'full' : getOption(config, 'joinType', JOIN_TYPES, 'inner', 'join type');
+      const onCollision = getOption(config, 'onCollision', COLLISION_MODES, 'prefer_input2', 'collision handling');
+      if (legacy) {
+        return values.slice(1).reduce<Item[]>(
+          (joined, value) => joinItems(joined, toItems(value), fields1, fields2, joinType, onCollision),
+          toItems(values[0])
+        );
+      }
+      return joinItems(toItems(input1), toItems(input2), fields1, fields2, joinType, onCollision);
+    }
+
+    case 'position': {
+      const items1 = toItems(input1);
+      const items2 = toItems(input2);
+      const onCollision = getOption(config, 'onCollision', COLLISION_MODES, 'prefer_input2', 'collision handling');
+      const length = getBooleanProperty(config, 'includeUnpaired', false)
+        ? Math.max(items1.length, items2.length)
+        : Math.min(items1.length, items2.length);
+      return Array.from({ length }, (_, i) => combineItems(items1[i], items2[i], onCollision, new Set()));
+    }
+
+    case 'append':
+    case 'concat': {
+      // Input 1 items, then Input 2 items
+      if (Array.isArray(input)) return input.flat();
+      return values.flatMap(value => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]));
+    }
+
+    case 'wait_all': {
+      // Wait for all inputs, return them by name
+      return Object.fromEntries(entries);
+    }
+
+    case 'merge':
+    default: {
+      // Combine the properties of all object inputs (later inputs win), other values by input name
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) return input;
+      const merged: Record<string, unknown> = {};
+      for (const [key, value] of entries) {
+        if (value === undefined || value === null) continue;
+        if (typeof value === 'object' && !Array.isArray(value)) {
+          Object.assign(merged, value as Record<string, unknown>);
+        } else {
+          merged[key] = value;
+        }
+      }
+      return merged;
+    }
+  }
+}
+
+export const merge: NodeModule = {
+  schema: {
+    type: 'merge',
+    label: 'Merge',
+    category: 'logic',
+    icon: 'GitMerge',
+    description: 'Join, pair or append the data of two inputs',
+    defaultConfig: { mode: 'merge' },
+    configFields: MERGE_CONFIG_FIELDS,
+    usageGuide: MERGE_USAGE_GUIDE,
+    inputHandles: MERGE_INPUT_HANDLES,
+  },
+  execute: executeMerge,
+};
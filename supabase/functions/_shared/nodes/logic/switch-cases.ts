@@ -0,0 +1,164 @@
+/**
+ * Switch cases
+ *
+ * Parsing and matching of the Switch node's cases, shared by the editor (one output handle per
+ * case, plus the fallback output) and the engine (routing). A case matches the value of the
+ * Switch expression with an operator; each case routes to the output handle named after its
+ * value unless it sets `output`.
+ */
+
+export const SWITCH_OPERATORS = [
+  'equals', 'not_equals', 'contains', 'starts_with', 'ends_with', 'regex', 'gt', 'gte', 'lt', 'lte', 'between', 'expression',
+] as const;
+
+export type SwitchOperator = typeof SWITCH_OPERATORS[number];
+
+export interface SwitchCase {
+  // Compared value, regex pattern, or condition for the "expression" operator
+  value?: unknown;
+  label?: string;
+  operator?: SwitchOperator;
+  // Bounds for "between" (inclusive)
+  min?: unknown;
+  max?: unknown;
+  ignoreCase?: boolean;
+  // Output handle id, defaults to the value
+  output?: string;
+}
+
+// Output taken when no case matches
+export const SWITCH_FALLBACK_HANDLE = 'fallback';
+
+/**
+ * The cases of a Switch config (a JSON string or an array); throws when they are invalid
+ */
+export function parseSwitchCases(casesConfig: unknown): SwitchCase[] {
+  let cases: unknown = casesConfig ?? [];
+  if (typeof cases === 'string') {
+    if (!cases.trim()) return [];
+    try {
+      cases = JSON.parse(cases);
+    } catch (error) {
+      throw new Error(`Switch cases must be valid JSON array. Error: ${error instanceof Error ? error.message : 'Invalid JSON'}`);
+    }
+  }
+  if (!Array.isArray(cases)) {
+    throw new Error('Switch cases must be a JSON array. Format: [{"value": "active", "label": "Active"}]');
+  }
+
+  return cases.map((c, index) => {
+    if (typeof c !== 'object' || c === null || Array.isArray(c)) {
+      throw new Error(`Switch case ${index + 1} must be an object like {"value": "active", "label": "Active"}`);
+    }
+    const switchCase = c as SwitchCase;
+    if (switchCase.operator !== undefined && !SWITCH_OPERATORS.includes(switchCase.operator)) {
+      throw new Error(`Switch case ${index + 1}: unknown operator "${switchCase.operator}". Use one of: ${SWITCH_OPERATORS.join(', ')}`);
+    }
+    if (getSwitchCaseHandle(switchCase, index) === SWITCH_FALLBACK_HANDLE) {
+      throw new Error(`Switch case ${index + 1}: "${SWITCH_FALLBACK_HANDLE}" is the fallback output, set another "output" for this case`);
+    }
+    return switchCase;
+  });
+}
+
+export function getSwitchCaseHandle(switchCase: SwitchCase, index: number): string {
+  if (switchCase.output) return switchCase.output;
+  return switchCase.value !== undefined && switchCase.value !== null && switchCase.value !== ''
+    ? String(switchCase.value)
+    : `case_${index + 1}`;
+}
+
+/**
+ * Output handles the editor draws for a Switch config: one per case, then the fallback.
+ * Invalid cases draw only the fallback (the engine reports the error when the node runs).
+ */
+export function getSwitchOutputHandles(config: Record<string, unknown>): { id: string; label: string }[] {
+  let cases: SwitchCase[] = [];
+  try {
+    cases = parseSwitchCases(config.cases);
+  } catch {
+    // Shown as an error by the engine
+  }
+  return [
+    ...cases.map((c, index) => {
+      const id = getSwitchCaseHandle(c, index);
+      return { id, label: c.label || id };
+    }),
+    { id: SWITCH_FALLBACK_HANDLE, label: 'Fallback' },
+  ];
+}
+
+export interface SwitchCaseResolver {
+  // Resolves {{ }} templates in case values
+  resolve(template: string): string;
+  // Evaluates the condition of an "expression" case
+  evaluate(condition: string): boolean;
+}
+
+function toNumber(value: unknown, label: string): number {
+  const number = typeof value === 'number' ? value : Number(String(value ?? '').trim());
+  if (String(value ?? '').trim() === '' || Number.isNaN(number)) {
+    throw new Error(`Switch: ${label} "${String(value ?? '')}" is not a number`);
+  }
+  return number;
+}
+
+/**
+ * Whether `value` (the Switch expression result) matches a case
+ */
+export function matchesSwitchCase(switchCase: SwitchCase, value: string, resolver: SwitchCaseResolver): boolean {
+  const operator = switchCase.operator ?? 'equals';
+  const resolve = (raw: unknown) => (typeof raw === 'string' ? resolver.resolve(raw) : String(raw ?? ''));
+
+  if (operator === 'expression') {
+    return resolver.evaluate(String(switchCase.value ?? ''));
+  }
+  if (operator === 'between') {
+    const number = Number(value);
+    return value !== '' && !Number.isNaN(number) &&
+      number >= toNumber(resolve(switchCase.min), 'minimum') &&
+      number <= toNumber(resolve(switchCase.max), 'maximum');
+  }
+  if (operator === 'gt' || operator === 'gte' || operator === 'lt' || operator === 'lte') {
+    const number = Number(value);
+    if (value === '' || Number.isNaN(number)) return false;
+    const caseNumber = toNumber(resolve(switchCase.value), 'case value');
+    if (operator === 'gt') return number > caseNumber;
+    if (operator === 'gte') return number >= caseNumber;
+    if (operator === 'lt') return number < caseNumber;
+    return number <= caseNumber;
+  }
+
+  const caseValue = resolve(switchCase.value);
+  if (operator === 'regex') {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(caseValue, switchCase.ignoreCase ? 'i' : '');
+    } catch (error) {
+      throw new Error(`Switch: invalid regex "${caseValue}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return pattern.test(value);
+  }
+
+  const actual = switchCase.ignoreCase ? value.toLowerCase() : value;
+  const expected = switchCase.ignoreCase ? caseValue.toLowerCase() : caseValue;
+  switch (operator) {
+    case 'not_equals': return actual !== expected;
+    case 'contains': return actual.includes(expected);
+    case 'starts_with': return actual.startsWith(expected);
+    case 'ends_with': return actual.endsWith(expected);
+    default: return actual === expected;
+  }
+}
+
+/**
+ * The output handles a Switch node routed to, from its output. Outputs logged before the
+ * fallback and multi-match routing only hold the matched case value (null: no match).
+ */
+export function getSwitchRoutedOutputs(output: unknown): string[] | undefined {
+  if (typeof output !== 'object' || output === null) return undefined;
+  const outputObj = output as Record<string, unknown>;
+  if (Array.isArray(outputObj.outputs)) return outputObj.outputs.map(String);
+  if (outputObj.matchedCase === undefined) return undefined;
+  return outputObj.matchedCase === null ? [] : [String(outputObj.matchedCase)];
+}
@@ -0,0 +1,56 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const chatTrigger: NodeModule = {
+  schema: {
+    type: 'chat_trigger',
+    label: 'Chat Trigger',
+    category: 'triggers',
+    icon: 'MessageSquare',
+    description: 'Trigger workflow from chat / AI / UI messages',
+    defaultConfig: {},
+    configFields: [],
+    usageGuide: {
+      overview: 'Triggers workflow from chat / AI / UI messages. Perfect for chatbot integrations and AI assistants. Requires message and session_id.',
+      inputs: ['message (required)', 'session_id (required)', 'user_context (optional)'],
+      outputs: ['trigger', 'message', 'session_id', 'user_context'],
+      example: `Chat Input:
+{
+  "message": "Hello, how can I help?",
+  "session_id": "session_123",
+  "user_context": {"name": "John", "role": "user"}
+}
+
+Output: {
+  trigger: "chat",
+  message: "Hello, how can I help?",
+  session_id: "session_123",
+  user_context: {"name": "John", "role": "user"}
+}`,
+      tips: ['message cannot be empty', 'session_id is required', 'user_context is optional and normalized to object', 'Perfect for chatbot integrations'],
+    },
+  },
+  execute({ input }) {
+    // Chat trigger: validates message and session_id, returns standardized output
+    const inputObj = extractInputObject(input);
+    const message = getStringProperty(inputObj, 'message', '');
+    const sessionId = getStringProperty(inputObj, 'session_id', '') || getStringProperty(inputObj, '_session_id', '');
+    
+    if (!message || message.trim() === '') {
+      throw new Error("Chat Trigger: message is required. Please provide a message in the input data.");
+    }
+    if (!sessionId || sessionId.trim() === '') {
+      throw new Error("Chat Trigger: session_id is required. Please provide a session_id in the input data.");
+    }
+    
+    const output = {
+      trigger: "chat",
+      message,
+      session_id: sessionId,
+      user_context: inputObj.user_context || inputObj.metadata || {},
+      ...inputObj,
+    };
+    console.log(`Chat trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
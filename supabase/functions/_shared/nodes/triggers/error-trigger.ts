@@ -0,0 +1,48 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const errorTrigger: NodeModule = {
+  schema: {
+    type: 'error_trigger',
+    label: 'Error Trigger',
+    category: 'triggers',
+    icon: 'ShieldAlert',
+    description: 'Automatically fire when any node fails',
+    defaultConfig: {},
+    configFields: [],
+    usageGuide: {
+      overview: 'Automatically fires when any node fails in the workflow. The nodes connected after it run only on failures, with the details of the failed node. Cannot be manually executed.',
+      inputs: ['Error information from failed node'],
+      outputs: ['trigger', 'failed_node', 'failed_node_id', 'failed_node_type', 'failed_node_input', 'error_message', 'stack_trace'],
+      example: `When a node fails:
+
+Output: {
+  trigger: "error",
+  failed_node: "Fetch Orders",
+  failed_node_id: "http_request_1712345678",
+  failed_node_type: "http_request",
+  failed_node_input: { orderId: 42 },
+  error_message: "HTTP Request failed: Connection timeout",
+  stack_trace: "Error: Connection timeout\n    at executeNode..."
+}`,
+      tips: ['Cannot be manually executed', 'Connect alerting or cleanup nodes after it', 'Runs once per failed execution, after running nodes have finished', 'Failed executions that ran error handling are marked "error handled"'],
+    },
+  },
+  execute({ input }) {
+    // Error trigger: fires on node failures (handled globally, not executed directly)
+    // If this is called, it means an error occurred and was captured (see createErrorTriggerInput)
+    const inputObj = extractInputObject(input);
+    const output = {
+      trigger: "error",
+      failed_node: getStringProperty(inputObj, 'failed_node', 'unknown'),
+      failed_node_id: getStringProperty(inputObj, 'failed_node_id', ''),
+      failed_node_type: getStringProperty(inputObj, 'failed_node_type', ''),
+      failed_node_input: inputObj.failed_node_input ?? null,
+      error_message: getStringProperty(inputObj, 'error_message', 'Unknown error'),
+      stack_trace: getStringProperty(inputObj, 'stack_trace', ''),
+      ...inputObj,
+    };
+    console.log(`Error trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
@@ -0,0 +1,44 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const interval: NodeModule = {
+  schema: {
+    type: 'interval',
+    label: 'Interval',
+    category: 'triggers',
+    icon: 'Timer',
+    description: 'Run workflow repeatedly at fixed intervals',
+    defaultConfig: { interval: '10m' },
+    configFields: [
+      { key: 'interval', label: 'Interval', type: 'text', placeholder: '10m', required: true, helpText: 'Interval in seconds (s), minutes (m), hours (h) or days (d), at least 1 minute. Examples: 5m, 1h, 1d' },
+    ],
+    usageGuide: {
+      overview: 'Runs workflow repeatedly at fixed intervals. Non-blocking and prevents duplicate executions. Supports seconds (s), minutes (m), hours (h) and days (d) units.',
+      inputs: ['None - Triggered by interval'],
+      outputs: ['trigger', 'interval', 'executed_at'],
+      example: `Interval: "10m" (every 10 minutes)
+Interval: "1h" (every 1 hour)
+
+Output: {
+  trigger: "interval",
+  interval: "10m",
+  executed_at: "2024-01-15T10:30:00Z"
+}`,
+      tips: ['Use format: number + unit (s/m/h/d)', 'Examples: 5m, 1h, 1d', 'The shortest interval is 1 minute', 'The first run is one interval after the workflow is activated', 'Duplicate executions are prevented', 'Deactivate when not needed'],
+    },
+  },
+  execute({ config, input }) {
+    // Interval trigger: returns standardized output with interval
+    const interval = getStringProperty(config, 'interval', '10m');
+    const executedAt = new Date().toISOString();
+    const inputObj = extractInputObject(input);
+    const output = {
+      trigger: "interval",
+      interval,
+      executed_at: executedAt,
+      ...inputObj,
+    };
+    console.log(`Interval trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
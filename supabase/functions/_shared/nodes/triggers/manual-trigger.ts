@@ -0,0 +1,45 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const manualTrigger: NodeModule = {
+  schema: {
+    type: 'manual_trigger',
+    label: 'Manual Trigger',
+    category: 'triggers',
+    icon: 'Play',
+    description: 'Start workflow manually for testing and debugging',
+    defaultConfig: {},
+    configFields: [],
+    usageGuide: {
+      overview: 'Starts your workflow when you click the "Run" button. Perfect for testing or on-demand tasks. No input required - fires once per manual execution.',
+      inputs: ['None - This is a start node'],
+      outputs: ['trigger', 'workflow_id', 'executed_at'],
+      example: `Connect → OpenAI GPT → Slack Message
+
+When you click Run, the workflow executes.
+Output: { 
+  trigger: "manual",
+  workflow_id: "uuid",
+  executed_at: "2024-01-15T10:30:00Z"
+}`,
+      tips: ['Use for testing before adding automated triggers', 'Can pass custom input data when running', 'workflow_id is auto-generated', 'executed_at is ISO-8601 timestamp'],
+    },
+  },
+  execute({ input, userId }) {
+    // Manual trigger: returns standardized output schema
+    const inputObj = extractInputObject(input);
+    const workflowId = getStringProperty(inputObj, '_workflow_id', '') || 
+                       getStringProperty(inputObj, 'workflow_id', '') || 
+                       (userId || "unknown");
+    const executedAt = new Date().toISOString();
+    const output = {
+      trigger: "manual",
+      workflow_id: workflowId,
+      ...inputObj,
+      // Ensure executed_at is always set after spread so it can't be overwritten
+      executed_at: executedAt,
+    };
+    console.log(`Manual trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
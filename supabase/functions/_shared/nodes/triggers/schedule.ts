@@ -0,0 +1,115 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const schedule: NodeModule = {
+  schema: {
+    type: 'schedule',
+    label: 'Schedule Trigger (Cron)',
+    category: 'triggers',
+    icon: 'Clock',
+    description: 'Execute workflows based on cron schedules',
+    defaultConfig: { time: '09:00', timezone: 'Asia/Kolkata', cron: '' },
+    configFields: [
+      { 
+        key: 'time', 
+        label: 'Time (HH:MM)', 
+        type: 'time', 
+        placeholder: '09:00', 
+        defaultValue: '09:00',
+        required: true, 
+        helpText: 'Time in 24-hour format (e.g., 09:00 for 9 AM, 14:30 for 2:30 PM)' 
+      },
+      { 
+        key: 'timezone', 
+        label: 'Timezone', 
+        type: 'select', 
+        options: [
+          { label: 'Indian Standard Time (IST)', value: 'Asia/Kolkata' },
+          { label: 'UTC (Coordinated Universal Time)', value: 'UTC' },
+          { label: 'Eastern Time (US)', value: 'America/New_York' },
+          { label: 'Central Time (US)', value: 'America/Chicago' },
+          { label: 'Mountain Time (US)', value: 'America/Denver' },
+          { label: 'Pacific Time (US)', value: 'America/Los_Angeles' },
+          { label: 'London (GMT/BST)', value: 'Europe/London' },
+          { label: 'Paris (CET/CEST)', value: 'Europe/Paris' },
+          { label: 'Berlin (CET/CEST)', value: 'Europe/Berlin' },
+          { label: 'Tokyo (JST)', value: 'Asia/Tokyo' },
+          { label: 'Shanghai (CST)', value: 'Asia/Shanghai' },
+          { label: 'Singapore (SGT)', value: 'Asia/Singapore' },
+          { label: 'Sydney (AEDT/AEST)', value: 'Australia/Sydney' },
+          { label: 'Melbourne (AEDT/AEST)', value: 'Australia/Melbourne' },
+          { label: 'Dubai (GST)', value: 'Asia/Dubai' },
+          { label: 'Mumbai (IST)', value: 'Asia/Kolkata' },
+          { label: 'New Delhi (IST)', value: 'Asia/Kolkata' },
+          { label: 'Bangalore (IST)', value: 'Asia/Kolkata' },
+        ],
+        defaultValue: 'Asia/Kolkata',
+        required: true, 
+        helpText: 'Select your timezone for schedule execution' 
+      },
+      { key: 'cron', label: 'Cron Expression (optional)', type: 'text', placeholder: '0 9 * * MON-FRI', helpText: 'Overrides the time: minute hour day-of-month month day-of-week, in the selected timezone' },
+    ],
+    usageGuide: {
+      overview: 'Runs your workflow automatically on a schedule using a simple time picker. Select your time (HH:MM format) and timezone, and the workflow will execute daily at that time, or enter a cron expression for any other schedule. Great for daily reports, periodic checks, or recurring tasks.',
+      inputs: ['None - Triggered by schedule'],
+      outputs: ['trigger', 'time', 'cron', 'timezone', 'executed_at'],
+      example: `Time: "09:00"
+Timezone: "Asia/Kolkata" (IST)
+Meaning: Daily at 9:00 AM Indian Standard Time
+
+Time: "14:30"
+Timezone: "America/New_York"
+Meaning: Daily at 2:30 PM Eastern Time
+
+Cron: "0 9 * * MON-FRI"
+Timezone: "Europe/London"
+Meaning: Weekdays at 9:00 AM London time
+
+Output: {
+  trigger: "schedule",
+  time: "09:00",
+  cron: "0 9 * * *",
+  timezone: "Asia/Kolkata",
+  executed_at: "2024-01-15T03:30:00Z"
+}`,
+      tips: ['Use 24-hour format (e.g., 09:00 for 9 AM, 14:30 for 2:30 PM)', 'Select your timezone from the dropdown (IST, UTC, etc.)', 'Workflow runs daily at the specified time', 'Test with manual trigger first', 'Timezone conversion is handled automatically, including daylight saving time', 'A cron expression (minute hour day-of-month month day-of-week) overrides the time', 'Only active workflows run on schedule'],
+    },
+  },
+  execute({ config, input }) {
+    // Schedule trigger: returns standardized output with time, timezone, and generated cron
+    const time = getStringProperty(config, 'time', '09:00');
+    const timezone = getStringProperty(config, 'timezone', 'Asia/Kolkata');
+    
+    // A cron expression overrides the daily time (same precedence as workflow-scheduler)
+    // Time format: "HH:MM" -> Cron: "MM HH * * *"
+    let cron = getStringProperty(config, 'cron', '').trim();
+    if (!cron && time && time.match(/^\d{2}:\d{2}$/)) {
+      const [hours, minutes] = time.split(':');
+      cron = `${Number(minutes)} ${Number(hours)} * * *`;
+    } else if (!cron) {
+      cron = '0 9 * * *';
+    }
+    
+    const inputObj = extractInputObject(input);
+    // Executions started by workflow-scheduler are marked with _scheduled: true
+    const isScheduledExecution = inputObj._scheduled === true || inputObj._scheduled === 'true';
+    
+    // Manual runs of a schedule trigger continue immediately; timed runs are started by the
+    // scheduler, so the trigger never blocks the invocation waiting for the scheduled time
+    if (!isScheduledExecution) {
+      console.log(`Schedule trigger: manual run, continuing without waiting for ${time} ${timezone}`);
+    }
+    
+    const executedAt = new Date().toISOString();
+    const output = {
+      trigger: "schedule",
+      time,
+      cron,
+      timezone,
+      executed_at: executedAt,
+      ...inputObj,
+    };
+    console.log(`Schedule trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
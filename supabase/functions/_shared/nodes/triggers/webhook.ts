@@ -0,0 +1,57 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const webhook: NodeModule = {
+  schema: {
+    type: 'webhook',
+    label: 'Webhook',
+    category: 'triggers',
+    icon: 'Webhook',
+    description: 'Trigger workflow from HTTP requests',
+    defaultConfig: { method: 'POST' },
+    configFields: [
+      { key: 'method', label: 'Method', type: 'select', options: [
+        { label: 'GET', value: 'GET' },
+        { label: 'POST', value: 'POST' },
+        { label: 'PUT', value: 'PUT' },
+      ], defaultValue: 'POST', required: true },
+    ],
+    usageGuide: {
+      overview: 'Receives HTTP requests from external services. Use this to trigger workflows from other apps, APIs, or services. Parses headers, query parameters, and JSON body safely.',
+      inputs: ['HTTP request body', 'Headers', 'Query params'],
+      outputs: ['trigger', 'method', 'headers', 'query', 'body'],
+      example: `Webhook URL: https://your-app.com/api/webhook/abc123
+
+External Service sends POST:
+{
+  "event": "order_created",
+  "data": { "id": 123, "total": 99.99 }
+}
+
+Output: { 
+  trigger: "webhook",
+  method: "POST",
+  headers: {"Content-Type": "application/json"},
+  query: {},
+  body: {"event": "order_created", "data": {...}}
+}`,
+      tips: ['Copy the webhook URL after saving', 'Supports GET, POST, PUT methods', 'Headers and query params are available in output', 'JSON body is parsed safely'],
+    },
+  },
+  aliases: ["webhook_trigger_response"],
+  execute({ input }) {
+    // Webhook trigger: returns input with standardized schema
+    // Input should already contain method, headers, query, body from webhook-trigger function
+    const inputObj = extractInputObject(input);
+    const output: Record<string, unknown> = {
+      trigger: "webhook",
+      method: getStringProperty(inputObj, 'method', 'POST'),
+      headers: inputObj.headers || {},
+      query: inputObj.query || {},
+      body: inputObj.body || inputObj,
+      ...inputObj,
+    };
+    console.log(`Webhook trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
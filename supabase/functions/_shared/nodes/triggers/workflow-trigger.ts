@@ -0,0 +1,52 @@
+import { extractInputObject, getStringProperty } from "../helpers.ts";
+import type { NodeModule } from "../types.ts";
+
+export const workflowTrigger: NodeModule = {
+  schema: {
+    type: 'workflow_trigger',
+    label: 'Workflow Trigger',
+    category: 'triggers',
+    icon: 'Link',
+    description: 'Start this workflow from an Execute Workflow node of another workflow',
+    defaultConfig: { source_workflow_id: '', inputs: '' },
+    configFields: [
+      { key: 'inputs', label: 'Inputs (JSON)', type: 'json', placeholder: '{"orderId": "number", "email": "string", "note": "string?"}', helpText: 'Inputs this workflow accepts and their types: string, number, boolean, object, array or any (add ? for optional). Empty = any input' },
+      { key: 'source_workflow_id', label: 'Allowed Caller Workflow ID', type: 'text', placeholder: 'Any workflow', helpText: 'Only this workflow may call this workflow (empty = any of your workflows)' },
+    ],
+    usageGuide: {
+      overview: 'Starts this workflow when an Execute Workflow node of another workflow calls it. Declares the inputs the workflow accepts and their types; callers must provide required inputs, values are converted to the declared types.',
+      inputs: ['inputs mapped by the calling Execute Workflow node'],
+      outputs: ['trigger', 'source_workflow_id', 'payload', '...declared inputs'],
+      example: `Inputs (JSON):
+{ "orderId": "number", "email": "string", "note": "string?" }
+
+Workflow B receives:
+{
+  trigger: "workflow",
+  source_workflow_id: "workflow-a-uuid",
+  payload: { "orderId": 123, "email": "jane@example.com" },
+  orderId: 123,
+  email: "jane@example.com"
+}`,
+      tips: ['Types: string, number, boolean, object, array, any', 'Add ? to a type to make the input optional', 'Leave Inputs empty to accept any input', 'Set Allowed Caller Workflow ID to restrict who can call this workflow'],
+    },
+  },
+  execute({ config, input }) {
+    // Workflow trigger: started by an Execute Workflow node of another workflow, which maps
+    // the declared inputs (see subworkflow.ts). source_workflow_id restricts the caller.
+    const allowedSourceId = getStringProperty(config, 'source_workflow_id', '').trim();
+    const inputObj = extractInputObject(input);
+    const sourceWorkflowId = getStringProperty(inputObj, 'source_workflow_id', '');
+    if (allowedSourceId && sourceWorkflowId && sourceWorkflowId !== allowedSourceId) {
+      throw new Error(`Workflow Trigger: this workflow can only be called by workflow ${allowedSourceId}`);
+    }
+    const output = {
+      trigger: "workflow",
+      source_workflow_id: sourceWorkflowId || allowedSourceId,
+      payload: inputObj.payload || inputObj,
+      ...inputObj,
+    };
+    console.log(`Workflow trigger returning:`, JSON.stringify(output));
+    return output;
+  },
+};
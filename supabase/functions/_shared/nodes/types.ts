@@ -0,0 +1,89 @@
+/**
+ * Types of the node registry
+ *
+ * Shared by the editor (Vite) and the edge functions (Deno): node modules must not import
+ * Deno or browser APIs, anything they need at runtime comes in through NodeExecutionArgs.
+ */
+
+export type NodeCategory = 'triggers' | 'ai' | 'logic' | 'data' | 'database' | 'storage' | 'output' | 'http_api' | 'google';
+
+export interface NodeUsageGuide {
+  overview: string;
+  inputs: string[];
+  outputs: string[];
+  example: string;
+  tips?: string[];
+}
+
+export interface ConfigField {
+  key: string;
+  label: string;
+  type: 'text' | 'textarea' | 'number' | 'select' | 'boolean' | 'json' | 'cron' | 'time' | 'credential' | 'workflow';
+  placeholder?: string;
+  options?: { label: string; value: string }[];
+  required?: boolean;
+  defaultValue?: unknown;
+  helpText?: string;
+  // Credential type for 'credential' fields (see src/lib/credentialTypes.ts)
+  credentialType?: string;
+  // The whole value is an expression (e.g. a condition) rather than text with {{ }} templates
+  expression?: boolean;
+}
+
+// What the editor shows for a node type: library entry, properties form and usage guide
+export interface NodeTypeDefinition {
+  type: string;
+  label: string;
+  category: NodeCategory;
+  icon: string;
+  description: string;
+  defaultConfig: Record<string, unknown>;
+  configFields: ConfigField[];
+  usageGuide?: NodeUsageGuide;
+  // Named input handles; the node's input is then keyed by handle id instead of a single value
+  inputHandles?: { id: string; label: string }[];
+}
+
+// A file stored with the execution's data (see _shared/binary-data.ts), passed between nodes by reference
+export interface BinaryReference {
+  _binary: true;
+  path: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface BinaryDataApi {
+  write(data: Uint8Array, fileName: string, mimeType?: string): Promise<BinaryReference>;
+  read(reference: BinaryReference): Promise<Uint8Array>;
+}
+
+// Workflow values kept across executions (see execute-workflow/static-data.ts)
+export interface StaticDataApi {
+  values: Record<string, unknown>;
+  update(key: string, operation: string, value?: unknown, expected?: unknown): Promise<{ value: unknown; updated: boolean }>;
+}
+
+export interface NodeExecutionArgs {
+  node: { id: string; type: string; label: string };
+  // Node config with credentials resolved
+  config: Record<string, unknown>;
+  input: unknown;
+  userId?: string;
+  // Files of the execution, read and written by reference instead of inline base64
+  binary: BinaryDataApi;
+  // Aborted when the execution is cancelled or the node's attempt times out
+  signal?: AbortSignal;
+  // fetch for the node's requests: aborted with `signal` and traced as part of the node run
+  fetch: typeof fetch;
+  // $node, $trigger, $execution and $workflow for templates and conditions
+  expressionVariables: Record<string, unknown>;
+  staticData?: StaticDataApi;
+}
+
+export interface NodeModule {
+  schema: NodeTypeDefinition;
+  // Older type names executed by this module (not offered in the editor)
+  aliases?: string[];
+  execute(args: NodeExecutionArgs): Promise<unknown> | unknown;
+}
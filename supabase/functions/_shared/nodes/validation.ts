@@ -0,0 +1,357 @@
+/**
+ * Workflow validation
+ *
+ * Checks a workflow against the node definitions before it runs: unknown node types, required
+ * fields, expression syntax, edges and their handles (If/Else, Switch, Loop, error output and
+ * named inputs), cycles and nodes no trigger reaches. The builder lists the problems and the
+ * execute-workflow engine refuses to start a workflow that has errors; warnings never block a run.
+ */
+
+import { ExpressionError, parseExpression } from '../expressions.ts';
+import { getNodeDefinition } from './index.ts';
+import { getSwitchOutputHandles, parseSwitchCases } from './logic/switch-cases.ts';
+import type { NodeTypeDefinition } from './types.ts';
+
+export type WorkflowValidationCode =
+  | 'unknown_node_type'
+  | 'missing_required_field'
+  | 'invalid_config'
+  | 'invalid_expression'
+  | 'invalid_edge'
+  | 'invalid_handle'
+  | 'missing_branch'
+  | 'disconnected_node'
+  | 'unreachable_node'
+  | 'cycle';
+
+export interface WorkflowValidationError {
+  code: WorkflowValidationCode;
+  message: string;
+  severity: 'error' | 'warning';
+  nodeId?: string;
+  edgeId?: string;
+  // Config key the problem is in
+  field?: string;
+}
+
+// The parts of the editor's and the engine's nodes and edges that are validated
+export interface ValidatedNode {
+  id: string;
+  data: { type: string; label?: string; config?: Record<string, unknown> };
+}
+
+export interface ValidatedEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+  targetHandle?: string | null;
+}
+
+export interface WorkflowValidationOptions {
+  // Config keys a credential type provides, so nodes using a credential do not need them in their config
+  getCredentialFields?: (credentialType: string) => string[];
+}
+
+const ERROR_OUTPUT_HANDLE = 'error';
+const LOOP_NODE_TYPES = new Set(['loop', 'split_in_batches']);
+const LOOP_EACH_HANDLE = 'each';
+const TEMPLATE_PATTERN = /\{\{([\s\S]+?)\}\}/g;
+
+function nodeName(node: ValidatedNode): string {
+  return `"${node.data.label || node.data.type}"`;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+}
+
+function describeExpressionError(error: unknown): string {
+  return error instanceof ExpressionError
+    ? `${error.reason} at column ${error.column}`
+    : error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Output handles of a node, null when any handle is accepted (nodes with a single output)
+ */
+function getOutputHandles(node: ValidatedNode): Set<string> | null {
+  const config = node.data.config ?? {};
+  let handles: string[] | null = null;
+  if (node.data.type === 'if_else') handles = ['true', 'false'];
+  if (node.data.type === 'switch') handles = getSwitchOutputHandles(config).map(handle => handle.id);
+  if (LOOP_NODE_TYPES.has(node.data.type)) handles = [LOOP_EACH_HANDLE, 'done'];
+  if (config.onError === 'error_output') {
+    return new Set([...(handles ?? []), ERROR_OUTPUT_HANDLE]);
+  }
+  return handles ? new Set(handles) : null;
+}
+
+function validateConfig(node: ValidatedNode, definition: NodeTypeDefinition, options: WorkflowValidationOptions): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+  const config = node.data.config ?? {};
+
+  // Keys provided by the selected credential
+  const credentialField = definition.configFields.find(field => field.type === 'credential');
+  const credentialKeys = new Set(
+    credentialField?.credentialType && !isEmpty(config[credentialField.key])
+      ? options.getCredentialFields?.(credentialField.credentialType) ?? []
+      : []
+  );
+
+  for (const field of definition.configFields) {
+    const value = config[field.key] ?? field.defaultValue;
+    if (field.required && field.type !== 'boolean' && !credentialKeys.has(field.key) && isEmpty(value)) {
+      errors.push({
+        code: 'missing_required_field',
+        message: `${nodeName(node)}: ${field.label} is required`,
+        severity: 'error',
+        nodeId: node.id,
+        field: field.key,
+      });
+    }
+
+    // Expression fields fail the node when they do not parse
+    if (field.expression && typeof value === 'string' && value.trim()) {
+      try {
+        parseExpression(value);
+      } catch (error) {
+        errors.push({
+          code: 'invalid_expression',
+          message: `${nodeName(node)}: invalid expression in ${field.label}: ${describeExpressionError(error)}`,
+          severity: 'error',
+          nodeId: node.id,
+          field: field.key,
+        });
+      }
+    }
+  }
+
+  // {{ }} templates that do not parse are left unchanged when the node runs, so they only warn
+  const checkTemplates = (value: unknown, key: string) => {
+    if (typeof value === 'string') {
+      for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+        try {
+          parseExpression(match[1]);
+        } catch (error) {
+          errors.push({
+            code: 'invalid_expression',
+            message: `${nodeName(node)}: ${match[0]} in ${key} is not a valid expression (${describeExpressionError(error)}) and will be left as is`,
+            severity: 'warning',
+            nodeId: node.id,
+            field: key,
+          });
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach(item => checkTemplates(item, key));
+    } else if (typeof value === 'object' && value !== null) {
+      Object.values(value).forEach(item => checkTemplates(item, key));
+    }
+  };
+  for (const [key, value] of Object.entries(config)) {
+    const field = definition.configFields.find(f => f.key === key);
+    if (!field?.expression) checkTemplates(value, key);
+  }
+
+  if (node.data.type === 'switch') {
+    try {
+      parseSwitchCases(config.cases).forEach((c, index) => {
+        if (c.operator !== 'expression' || isEmpty(c.value)) return;
+        try {
+          parseExpression(String(c.value));
+        } catch (error) {
+          errors.push({
+            code: 'invalid_expression',
+            message: `${nodeName(node)}: invalid expression in case ${index + 1}: ${describeExpressionError(error)}`,
+            severity: 'error',
+            nodeId: node.id,
+            field: 'cases',
+          });
+        }
+      });
+    } catch (error) {
+      errors.push({
+        code: 'invalid_config',
+        message: `${nodeName(node)}: ${error instanceof Error ? error.message : String(error)}`,
+        severity: 'error',
+        nodeId: node.id,
+        field: 'cases',
+      });
+    }
+  }
+
+  return errors;
+}
+
+function validateEdges(nodes: Map<string, ValidatedNode>, edges: ValidatedEdge[]): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+
+  for (const edge of edges) {
+    const source = nodes.get(edge.source);
+    const target = nodes.get(edge.target);
+    if (!source || !target) {
+      errors.push({
+        code: 'invalid_edge',
+        message: `Connection ${edge.id} points to a node that does not exist`,
+        severity: 'error',
+        edgeId: edge.id,
+      });
+      continue;
+    }
+
+    const outputHandles = getOutputHandles(source);
+    if (edge.sourceHandle && outputHandles && !outputHandles.has(edge.sourceHandle)) {
+      errors.push({
+        code: 'invalid_handle',
+        message: `${nodeName(source)} has no "${edge.sourceHandle}" output, the connection to ${nodeName(target)} never carries data`,
+        severity: 'error',
+        nodeId: source.id,
+        edgeId: edge.id,
+      });
+    } else if (!edge.sourceHandle && source.data.type === 'switch') {
+      errors.push({
+        code: 'invalid_handle',
+        message: `${nodeName(source)}: the connection to ${nodeName(target)} is not attached to a case output`,
+        severity: 'error',
+        nodeId: source.id,
+        edgeId: edge.id,
+      });
+    }
+
+    const inputHandles = getNodeDefinition(target.data.type)?.inputHandles;
+    if (edge.targetHandle && inputHandles && !inputHandles.some(handle => handle.id === edge.targetHandle)) {
+      errors.push({
+        code: 'invalid_handle',
+        message: `${nodeName(target)} has no "${edge.targetHandle}" input`,
+        severity: 'error',
+        nodeId: target.id,
+        edgeId: edge.id,
+      });
+    }
+  }
+
+  for (const node of nodes.values()) {
+    if (node.data.type !== 'if_else') continue;
+    const outputs = edges.filter(e => e.source === node.id);
+    for (const branch of ['true', 'false']) {
+      if (!outputs.some(e => e.sourceHandle === branch)) {
+        errors.push({
+          code: 'missing_branch',
+          message: `If/Else node ${nodeName(node)} has no ${branch.toUpperCase()} path`,
+          severity: 'warning',
+          nodeId: node.id,
+        });
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Edges from a loop body back into its loop node: they close the loop visually and are
+ * ignored when the graph runs (see execute-workflow/loops.ts)
+ */
+function getLoopBackEdges(nodes: Map<string, ValidatedNode>, edges: ValidatedEdge[]): Set<ValidatedEdge> {
+  const loopBackEdges = new Set<ValidatedEdge>();
+  for (const loopNode of nodes.values()) {
+    if (!LOOP_NODE_TYPES.has(loopNode.data.type)) continue;
+    const body = new Set<string>();
+    const queue = edges.filter(e => e.source === loopNode.id && e.sourceHandle === LOOP_EACH_HANDLE).map(e => e.target);
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      if (nodeId === loopNode.id || body.has(nodeId)) continue;
+      body.add(nodeId);
+      edges.filter(e => e.source === nodeId).forEach(e => queue.push(e.target));
+    }
+    edges.filter(e => e.target === loopNode.id && body.has(e.source)).forEach(e => loopBackEdges.add(e));
+  }
+  return loopBackEdges;
+}
+
+function reachableFrom(starts: string[], edges: ValidatedEdge[]): Set<string> {
+  const reached = new Set<string>();
+  const queue = [...starts];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (reached.has(nodeId)) continue;
+    reached.add(nodeId);
+    edges.filter(e => e.source === nodeId).forEach(e => queue.push(e.target));
+  }
+  return reached;
+}
+
+function validateGraph(nodes: Map<string, ValidatedNode>, allEdges: ValidatedEdge[]): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+  const loopBackEdges = getLoopBackEdges(nodes, allEdges);
+  const edges = allEdges.filter(e => !loopBackEdges.has(e) && nodes.has(e.source) && nodes.has(e.target));
+
+  // Nodes in a cycle never run (the engine orders nodes topologically)
+  for (const node of nodes.values()) {
+    const next = edges.filter(e => e.source === node.id).map(e => e.target);
+    if (reachableFrom(next, edges).has(node.id)) {
+      errors.push({
+        code: 'cycle',
+        message: `${nodeName(node)} is part of a cycle; only a Loop node's "Each" branch may lead back to the Loop node`,
+        severity: 'error',
+        nodeId: node.id,
+      });
+    }
+  }
+
+  const isTrigger = (node: ValidatedNode) => getNodeDefinition(node.data.type)?.category === 'triggers';
+  const triggers = [...nodes.values()].filter(isTrigger).map(n => n.id);
+  const withoutInput = [...nodes.values()].filter(n => !edges.some(e => e.target === n.id));
+  // Without trigger nodes, the nodes without inputs start the workflow
+  const reached = reachableFrom(triggers.length > 0 ? triggers : withoutInput.map(n => n.id), edges);
+
+  for (const node of nodes.values()) {
+    if (isTrigger(node) || reached.has(node.id)) continue;
+    const disconnected = withoutInput.includes(node);
+    errors.push({
+      code: disconnected ? 'disconnected_node' : 'unreachable_node',
+      message: disconnected
+        ? `${nodeName(node)} is disconnected (no input)`
+        : `${nodeName(node)} is not reachable from a trigger`,
+      severity: 'warning',
+      nodeId: node.id,
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a workflow; the result is empty when it has no problems
+ */
+export function validateWorkflow(
+  nodes: ValidatedNode[],
+  edges: ValidatedEdge[],
+  options: WorkflowValidationOptions = {}
+): WorkflowValidationError[] {
+  const errors: WorkflowValidationError[] = [];
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  for (const node of nodes) {
+    const definition = getNodeDefinition(node.data.type);
+    if (!definition) {
+      // The engine passes the input through unknown node types
+      errors.push({
+        code: 'unknown_node_type',
+        message: `${nodeName(node)} has an unknown node type "${node.data.type}"`,
+        severity: 'warning',
+        nodeId: node.id,
+      });
+      continue;
+    }
+    errors.push(...validateConfig(node, definition, options));
+  }
+
+  errors.push(...validateEdges(nodesById, edges), ...validateGraph(nodesById, edges));
+  return errors;
+}
+
+export function hasValidationErrors(errors: WorkflowValidationError[]): boolean {
+  return errors.some(error => error.severity === 'error');
+}
@@ -0,0 +1,64 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { parseRedactionPaths, REDACTED, Redactor } from "./redaction.ts";
+
+Deno.test("values of sensitive keys are masked at any depth", () => {
+  const redactor = new Redactor();
+  assertEquals(
+    redactor.redact({ headers: { Authorization: "Bearer abc", "x-api-key": "k-123" }, body: { password: "hunter2", name: "John" } }),
+    { headers: { Authorization: REDACTED, "x-api-key": REDACTED }, body: { password: REDACTED, name: "John" } }
+  );
+});
+
+Deno.test("empty sensitive values are kept", () => {
+  assertEquals(new Redactor().redact({ token: "", secret: null }), { token: "", secret: null });
+});
+
+Deno.test("configured fields are masked by name or by path", () => {
+  const redactor = new Redactor(parseRedactionPaths("ssn\ncustomer.*.phone"));
+  assertEquals(
+    redactor.redact({ ssn: "123-45-6789", customer: { home: { phone: "555" }, phone: "kept" }, items: [{ ssn: "987" }] }),
+    { ssn: REDACTED, customer: { home: { phone: REDACTED }, phone: "kept" }, items: [{ ssn: REDACTED }] }
+  );
+});
+
+Deno.test("credential values are masked inside text, the longest first", () => {
+  const redactor = new Redactor();
+  redactor.addSecrets(["sk-live-123456", "sk-live-123456-extended", "short"]);
+  assertEquals(
+    redactor.redact({ message: "keys sk-live-123456-extended and sk-live-123456", note: "short stays" }),
+    { message: `keys ${REDACTED} and ${REDACTED}`, note: "short stays" }
+  );
+});
+
+Deno.test("sensitive keys are masked in JSON text", () => {
+  assertEquals(
+    new Redactor().redactText('request {"apiKey":"abc123","limit":10}'),
+    `request {"apiKey":"${REDACTED}","limit":10}`
+  );
+});
+
+Deno.test("the data is masked in a copy, the engine keeps the full values", () => {
+  const output = { user: "john", token: "t-123456" };
+  const stored = new Redactor().redact(output);
+  assertEquals(stored, { user: "john", token: REDACTED });
+  assertEquals(output.token, "t-123456");
+});
+
+Deno.test("console output is masked while a redactor is attached", () => {
+  const written: unknown[][] = [];
+  const originalLog = console.log;
+  console.log = (...args: unknown[]) => {
+    written.push(args);
+  };
+  try {
+    const redactor = new Redactor();
+    redactor.addSecrets(["secret-value-1"]);
+    const detach = redactor.attachToConsole();
+    console.log("sending secret-value-1", { password: "p" });
+    detach();
+    console.log("after secret-value-1");
+  } finally {
+    console.log = originalLog;
+  }
+  assertEquals(written, [[`sending ${REDACTED}`, { password: REDACTED }], ["after secret-value-1"]]);
+});
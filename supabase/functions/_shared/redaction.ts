@@ -0,0 +1,155 @@
+/**
+ * Masking of secrets in execution logs
+ *
+ * The logs (node inputs, outputs, errors and console lines), the execution's output and error
+ * and the function logs are redacted before they are stored or written:
+ * - values of credentials used by the execution, wherever they appear in text
+ * - values of sensitive keys (authorization, password, apiKey, token, ...)
+ * - fields at the paths configured on the workflow (workflows.redacted_fields)
+ *
+ * The executions row keeps the input and the resume state of a waiting execution masked as well.
+ * The engine keeps working on the full values, stored privately (see binary-data.ts): the input
+ * as received, the resume state and the run's results kept for retries and callers.
+ * The input is masked when the execution is created, before the credentials are known.
+ */
+
+export const REDACTED = "[REDACTED]";
+
+// Compared without case, "-" and "_": apiKey, x-api-key, access_token, client_secret, ...
+const SENSITIVE_KEY_PATTERN = /(authorization|password|passwd|secret|apikey|token|privatekey|cookie)$/;
+
+// Shorter credential values are not masked inside text, they would hide unrelated data
+const MIN_SECRET_LENGTH = 6;
+
+// "key": value pairs in JSON text, for text logged after JSON.stringify
+const JSON_PAIR_PATTERN = /"((?:[^"\\]|\\.)+)"(\s*:\s*)("(?:[^"\\]|\\.)*"|-?\d[\d.eE+-]*|true|false)/g;
+
+const CONSOLE_METHODS = ["log", "info", "warn", "error", "debug"] as const;
+
+export function isSensitiveKey(key: string): boolean {
+  return SENSITIVE_KEY_PATTERN.test(key.toLowerCase().replace(/[-_\s]/g, ""));
+}
+
+/**
+ * Field paths configured on a workflow: a list, or text with one path per line or comma.
+ * Paths are dot-separated field names; `*` matches any field and list indexes are skipped.
+ */
+export function parseRedactionPaths(value: unknown): string[][] {
+  const paths = Array.isArray(value)
+    ? value.map(String)
+    : typeof value === "string" ? value.split(/[\n,]/) : [];
+  return paths
+    .map(path => path.trim())
+    .filter(Boolean)
+    .map(path => path.split(".").map(segment => segment.trim()).filter(Boolean))
+    .filter(segments => segments.length > 0);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== "object" || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export class Redactor {
+  private secrets = new Set<string>();
+  private secretPattern: RegExp | null = null;
+
+  constructor(private paths: string[][] = []) {}
+
+  /**
+   * Values that are masked wherever they appear (credential values)
+   */
+  addSecrets(values: Iterable<unknown>): void {
+    for (const value of values) {
+      if (typeof value === "string" && value.trim().length >= MIN_SECRET_LENGTH) {
+        this.secrets.add(value.trim());
+      }
+    }
+    // Longest first, so a secret containing another one is masked as a whole
+    const sorted = [...this.secrets].sort((a, b) => b.length - a.length);
+    this.secretPattern = sorted.length > 0 ? new RegExp(sorted.map(escapeRegExp).join("|"), "g") : null;
+  }
+
+  setPaths(paths: string[][]): void {
+    this.paths = paths;
+  }
+
+  /**
+   * Copy of a value with sensitive keys, configured paths and secrets masked
+   */
+  redact(value: unknown, path: string[] = []): unknown {
+    if (typeof value === "string") return this.redactText(value);
+    if (Array.isArray(value)) return value.map(item => this.redact(item, path));
+    if (!isPlainObject(value)) return value;
+
+    const redacted: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key];
+      const hidden = child !== undefined && child !== null && child !== "" &&
+        (isSensitiveKey(key) || this.matchesPath(childPath));
+      redacted[key] = hidden ? REDACTED : this.redact(child, childPath);
+    }
+    return redacted;
+  }
+
+  /**
+   * Text with secrets masked, and the values of sensitive keys when it holds JSON
+   */
+  redactText(text: string): string {
+    let redacted = this.secretPattern ? text.replace(this.secretPattern, REDACTED) : text;
+    if (redacted.includes('"')) {
+      redacted = redacted.replace(JSON_PAIR_PATTERN, (match, key: string, separator: string, value: string) =>
+        isSensitiveKey(key) && value !== '""' ? `"${key}"${separator}"${REDACTED}"` : match
+      );
+    }
+    return redacted;
+  }
+
+  // A single field name matches at any depth, a dot path from the root of the value
+  private matchesPath(path: string[]): boolean {
+    return this.paths.some(rule => {
+      if (rule.length === 1) return rule[0] === "*" || rule[0] === path[path.length - 1];
+      return rule.length === path.length && rule.every((segment, i) => segment === "*" || segment === path[i]);
+    });
+  }
+
+  /**
+   * Masks what the engine writes to the function logs while this redactor is attached.
+   * Concurrent executions of the same instance each attach theirs; every attached redactor
+   * applies to all console output. Returns the function that detaches it.
+   */
+  attachToConsole(): () => void {
+    patchConsole();
+    attachedRedactors.add(this);
+    return () => {
+      attachedRedactors.delete(this);
+    };
+  }
+}
+
+const attachedRedactors = new Set<Redactor>();
+let consolePatched = false;
+
+function redactConsoleArg(arg: unknown): unknown {
+  let redacted = arg instanceof Error ? arg.stack ?? `${arg.name}: ${arg.message}` : arg;
+  for (const redactor of attachedRedactors) {
+    redacted = redactor.redact(redacted);
+  }
+  return redacted;
+}
+
+function patchConsole(): void {
+  if (consolePatched) return;
+  consolePatched = true;
+  for (const method of CONSOLE_METHODS) {
+    const original = console[method].bind(console);
+    console[method] = (...args: unknown[]) => {
+      original(...(attachedRedactors.size > 0 ? args.map(redactConsoleArg) : args));
+    };
+  }
+}
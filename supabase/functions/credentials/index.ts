@@ -0,0 +1,120 @@
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { encryptCredentialData, validateCredentialData } from "../_shared/credentials.ts";
+
+// Columns returned to the client; the encrypted data never leaves the server
+const CREDENTIAL_COLUMNS = "id, name, type, created_at, updated_at";
+
+/**
+ * Credentials API
+ *
+ * Credential values are encrypted here, so the encryption key never reaches the browser.
+ * - POST { name, type, data }: creates a credential
+ * - PUT { id, name?, data? }: renames a credential and/or replaces its values
+ * Listing and deleting go through the credentials table directly (RLS limits them to the owner).
+ */
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (req.method !== "POST" && req.method !== "PUT") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+
+    if (req.method === "POST") {
+      const { name, type, data } = body;
+      if (!name || typeof name !== "string" || !name.trim()) {
+        return jsonResponse({ error: "name is required" }, 400);
+      }
+
+      const validated = validateCredentialData(type, data);
+      if (validated.error !== undefined) {
+        return jsonResponse({ error: validated.error }, 400);
+      }
+
+      const { data: credential, error } = await supabase
+        .from("credentials")
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          type,
+          data: await encryptCredentialData(validated.data),
+        })
+        .select(CREDENTIAL_COLUMNS)
+        .single();
+
+      if (error) throw error;
+      return jsonResponse({ credential }, 201);
+    }
+
+    const { id, name, data } = body;
+    if (!id) {
+      return jsonResponse({ error: "id is required" }, 400);
+    }
+
+    const { data: existing } = await supabase
+      .from("credentials")
+      .select("id, type")
+      .eq("id", id)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (!existing) {
+      return jsonResponse({ error: "Credential not found" }, 404);
+    }
+
+    const updates: Record<string, string> = {};
+    if (typeof name === "string" && name.trim()) {
+      updates.name = name.trim();
+    }
+    if (data !== undefined) {
+      const validated = validateCredentialData(existing.type, data);
+      if (validated.error !== undefined) {
+        return jsonResponse({ error: validated.error }, 400);
+      }
+      updates.data = await encryptCredentialData(validated.data);
+    }
+
+    const { data: credential, error } = await supabase
+      .from("credentials")
+      .update(updates)
+      .eq("id", id)
+      .select(CREDENTIAL_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return jsonResponse({ credential });
+  } catch (error) {
+    console.error("Credentials error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,84 @@
+/**
+ * Cancellation of running executions
+ *
+ * Users cancel an execution by setting its status to "cancelled" (Stop button). While the engine runs
+ * it polls for that status; once seen, the execution's AbortSignal fires:
+ * - no new nodes are started (nodes, loop iterations)
+ * - in-flight fetch calls of executeNode and sandboxed code are aborted
+ * - the logs of what ran are recorded with the cancelled status
+ */
+
+export const CANCELLATION_POLL_INTERVAL_MS = 2000;
+
+export class CancelledError extends Error {
+  constructor() {
+    super("Execution was cancelled");
+    this.name = "CancelledError";
+  }
+}
+
+export interface CancellationWatch {
+  signal: AbortSignal;
+  stop(): void;
+}
+
+/**
+ * Polls `isCancelled` until it returns true (aborting the signal) or the watch is stopped
+ */
+export function watchCancellation(
+  isCancelled: () => Promise<boolean>,
+  intervalMs = CANCELLATION_POLL_INTERVAL_MS
+): CancellationWatch {
+  const controller = new AbortController();
+  let checking = false;
+
+  const timer = setInterval(async () => {
+    if (checking || controller.signal.aborted) return;
+    checking = true;
+    try {
+      if (await isCancelled()) {
+        clearInterval(timer);
+        controller.abort(new CancelledError());
+      }
+    } catch (error) {
+      console.error("Cancellation check failed:", error);
+    } finally {
+      checking = false;
+    }
+  }, intervalMs);
+
+  return { signal: controller.signal, stop: () => clearInterval(timer) };
+}
+
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Settles with the task, or rejects with CancelledError as soon as the signal aborts
+ * (the task is abandoned; its requests are aborted through the same signal)
+ */
+export function raceCancellation<T>(task: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+  if (!signal) return task;
+  if (signal.aborted) return Promise.reject(new CancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new CancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    task.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+}
+
+/**
+ * fetch whose requests are aborted when the execution is cancelled.
+ * A signal passed by the caller (e.g. a request timeout) still applies. The combined signal
+ * holds no listener on the execution's signal, so long runs with many requests do not pile them up.
+ */
+export function createCancellableFetch(signal: AbortSignal): typeof fetch {
+  return (input: RequestInfo | URL, init?: RequestInit) => {
+    const requestSignal = init?.signal;
+    return fetch(input, { ...init, signal: requestSignal ? AbortSignal.any([signal, requestSignal]) : signal });
+  };
+}
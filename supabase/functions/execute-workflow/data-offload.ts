@@ -0,0 +1,74 @@
+/**
+ * Offloading of large node data
+ *
+ * Logs and the masked resume state are written to the executions row many times during a run, so
+ * large inputs/outputs are moved to the execution data store (see _shared/binary-data.ts) and
+ * replaced by references with a preview. The engine keeps working on the full values in memory;
+ * references read back from the row (retry, resume) are loaded again before nodes use them.
+ */
+
+import {
+  type ExecutionDataStore,
+  isBinaryReference,
+  loadValue,
+  offloadValue,
+  writeBinary,
+} from "../_shared/binary-data.ts";
+import type { BinaryDataApi } from "../_shared/nodes/index.ts";
+import type { ExecutionLog } from "./types.ts";
+
+// Finished logs that were offloaded already (or are being offloaded), so concurrent writes store them once
+const offloadedLogs = new WeakMap<ExecutionLog, Promise<void>>();
+
+/**
+ * Replaces large inputs and outputs of finished logs with references, in place
+ */
+export async function offloadLogData(store: ExecutionDataStore, executionId: string, logs: ExecutionLog[]): Promise<void> {
+  await Promise.all(logs.filter(log => log.status !== "running").map(log => {
+    let offloading = offloadedLogs.get(log);
+    if (!offloading) {
+      offloading = (async () => {
+        log.input = await offloadValue(store, executionId, log.input);
+        log.output = await offloadValue(store, executionId, log.output);
+      })();
+      offloadedLogs.set(log, offloading);
+    }
+    return offloading;
+  }));
+}
+
+export async function offloadNodeOutputs(
+  store: ExecutionDataStore,
+  executionId: string,
+  outputs: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const entries = await Promise.all(
+    Object.entries(outputs).map(async ([nodeId, output]) => [nodeId, await offloadValue(store, executionId, output)])
+  );
+  return Object.fromEntries(entries);
+}
+
+export async function loadNodeOutputs(
+  store: ExecutionDataStore,
+  outputs: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  const entries = await Promise.all(
+    Object.entries(outputs).map(async ([nodeId, output]) => [nodeId, await loadValue(store, output)])
+  );
+  return Object.fromEntries(entries);
+}
+
+/**
+ * Binary data API handed to nodes; files are stored with the execution
+ */
+export function createBinaryDataApi(store: ExecutionDataStore, executionId: string): BinaryDataApi {
+  return {
+    write: (data, fileName, mimeType) => writeBinary(store, executionId, data, fileName, mimeType),
+    read: reference => {
+      if (!isBinaryReference(reference)) {
+        throw new Error("Not a binary data reference");
+      }
+      return store.get(reference.path);
+    },
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Error Trigger support
+ *
+ * Error Trigger nodes and everything downstream of them are not part of the normal run.
+ * When a node fails, the engine runs these branches with the details of the failure.
+ */
+
+import type { WorkflowEdge, WorkflowNode } from "./types.ts";
+
+export interface NodeFailure {
+  node: WorkflowNode;
+  error: Error;
+  input: unknown;
+}
+
+/**
+ * Ids of the Error Trigger nodes and all nodes reachable from them
+ */
+export function getErrorBranchNodes(errorTriggerNodes: WorkflowNode[], edges: WorkflowEdge[]): Set<string> {
+  const branch = new Set<string>();
+  const queue = errorTriggerNodes.map(n => n.id);
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (branch.has(nodeId)) continue;
+    branch.add(nodeId);
+    edges.filter(e => e.source === nodeId).forEach(e => queue.push(e.target));
+  }
+
+  return branch;
+}
+
+/**
+ * Input handed to Error Trigger nodes.
+ * The failed node's input fields are also spread at the top level, as before.
+ */
+export function createErrorTriggerInput(failure: NodeFailure): Record<string, unknown> {
+  const failedInput = failure.input && typeof failure.input === "object" && !Array.isArray(failure.input)
+    ? failure.input as Record<string, unknown>
+    : {};
+
+  return {
+    ...failedInput,
+    failed_node: failure.node.data.label || failure.node.id,
+    failed_node_id: failure.node.id,
+    failed_node_type: failure.node.data.type,
+    failed_node_input: failure.input ?? null,
+    error_message: failure.error.message,
+    stack_trace: failure.error.stack || "",
+  };
+}
@@ -27,40 +27,143 @@ import {
   executeGoogleContactsOperation,
 } from "../_shared/google-apis.ts";
 import { LLMAdapter } from "../_shared/llm-adapter.ts";
+import { countItems, executePerItem, getItemList, isPerItemNode } from "./items.ts";
+import {
+  LOOP_EACH_HANDLE,
+  createBatchesOutput,
+  createLoopOutput,
+  getAllLoopBodyNodes,
+  getDirectLoopBody,
+  getLoopBodyOutputs,
+  hasLoopBody,
+  isLoopNode,
+  removeLoopBackEdges,
+} from "./loops.ts";
+import {
+  ERROR_OUTPUT_HANDLE,
+  createErrorOutput,
+  getNodeExecutionSettings,
+  hasErrorOutput,
+  runWithNodeSettings,
+} from "./node-settings.ts";
+import { createErrorTriggerInput, getErrorBranchNodes, type NodeFailure } from "./error-handling.ts";
+import { resolveMaxConcurrency, runGraph } from "./scheduler.ts";
+import { restoreStateFromLogs, type RestoredState, type WorkflowSnapshot } from "./retry.ts";
+import { getPartialExecutionNodes } from "./partial.ts";
+import { runInSandbox, type SandboxConsoleLine } from "./sandbox.ts";
+import { CREDENTIAL_SCHEMAS, decryptCredentialData } from "../_shared/credentials.ts";
+import {
+  CancelledError,
+  createCancellableFetch,
+  raceCancellation,
+  throwIfCancelled,
+  watchCancellation,
+  type CancellationWatch,
+} from "./cancellation.ts";
+import {
+  evaluateExpression,
+  formatExpressionValue,
+  parseExpression,
+  readProperty,
+  type ExpressionContext,
+} from "../_shared/expressions.ts";
+import {
+  INLINE_WAIT_LIMIT_MS,
+  WaitSignal,
+  createResumeToken,
+  createWaitOutput,
+  getResumeUrl,
+  getWaitInstruction,
+  loadResumeState,
+  shouldSuspend,
+  storeResumeState,
+  type ResumeState,
+} from "./wait.ts";
+import {
+  MAX_SUBWORKFLOW_DEPTH,
+  coerceWorkflowInputs,
+  getSubWorkflowMode,
+  getWorkflowInputSchema,
+  type SubWorkflowMode,
+} from "./subworkflow.ts";
+import { type BinaryDataApi, type BinaryReference, getNodeModule } from "../_shared/nodes/index.ts";
+import { validateWorkflow } from "../_shared/nodes/validation.ts";
+import {
+  SWITCH_FALLBACK_HANDLE,
+  getSwitchCaseHandle,
+  getSwitchRoutedOutputs,
+  matchesSwitchCase,
+  parseSwitchCases,
+} from "../_shared/nodes/logic/switch-cases.ts";
+import {
+  createExecutionDataStore,
+  type ExecutionDataStore,
+  type ExecutionResults,
+  isBinaryReference,
+  isExecutionDataPath,
+  isExternalDataReference,
+  loadExecutionInput,
+  loadExecutionResults,
+  loadValue,
+  offloadValue,
+  storeExecutionInput,
+  storeExecutionResults,
+} from "../_shared/binary-data.ts";
+import { createBinaryDataApi, loadNodeOutputs, offloadLogData, offloadNodeOutputs } from "./data-offload.ts";
+import { Redactor, parseRedactionPaths } from "../_shared/redaction.ts";
+import { isStaticDataOperation, loadStaticData, type StaticData } from "./static-data.ts";
+import { Tracer, createTracedFetch, formatTraceparent, parseTraceparent, type TraceContext } from "./tracing.ts";
+import {
+  extractInputObject,
+  getBooleanProperty,
+  getNumberProperty,
+  getProperty,
+  getStringProperty,
+} from "../_shared/nodes/helpers.ts";
+import type { ExecutionLog, WorkflowEdge, WorkflowNode } from "./types.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface WorkflowNode {
-  id: string;
-  type: string;
-  data: {
-    label: string;
-    type: string;
-    category: string;
-    config: Record<string, unknown>;
-  };
-}
-
-interface WorkflowEdge {
-  id: string;
-  source: string;
-  target: string;
-  sourceHandle?: string;
-  targetHandle?: string;
-}
-
-interface ExecutionLog {
-  nodeId: string;
-  nodeName: string;
-  status: "running" | "success" | "failed" | "skipped";
-  startedAt: string;
-  finishedAt?: string;
-  input?: unknown;
-  output?: unknown;
-  error?: string;
+interface ExecutionContext {
+  supabase: ReturnType<typeof createClient>;
+  workflowId: string;
+  workflowName: string;
+  executionId: string;
+  userId: string;
+  workflowInput: unknown;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  lovableApiKey: string | undefined;
+  nodeOutputs: Record<string, unknown>;
+  ifElseResults: Record<string, boolean>; // Track If/Else condition results
+  switchResults: Record<string, string[]>; // Track the output handles Switch nodes routed to
+  logs: ExecutionLog[];
+  // Loop nodes whose "each" body is currently running
+  activeLoops: Set<string>;
+  // Nodes that failed and routed their error to the "error" output handle
+  failedNodes: Set<string>;
+  // Whether a long Wait may suspend the execution (not inside loop bodies or error handling)
+  suspendable: boolean;
+  // Set when continuing a suspended execution at its Wait node
+  resume?: { nodeId: string; data: unknown };
+  // Manual runs use pinned node data instead of executing those nodes
+  usePinnedData: boolean;
+  // Decrypted credentials by id, loaded once per execution
+  credentials: Map<string, Promise<Record<string, string>>>;
+  // Aborted when the execution is cancelled
+  signal: AbortSignal;
+  // Where large node data and binary files are stored (see data-offload.ts)
+  dataStore: ExecutionDataStore;
+  binary: BinaryDataApi;
+  // Values that persist across executions of the workflow ($static, see static-data.ts)
+  staticData: StaticData;
+  // Masks secrets in what is logged (see _shared/redaction.ts)
+  redactor: Redactor;
+  // Span that work is recorded under: the engine invocation, or the running node (see tracing.ts)
+  trace: TraceContext;
 }
 
 serve(async (req: Request) => {
@@ -72,14 +175,31 @@ serve(async (req: Request) => {
   const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
   const lovableApiKey = Deno.env.get("LOVABLE_API_KEY");
 
-  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  // The trace continues the caller's (webhook request, queued execution, parent workflow)
+  const tracer = new Tracer(parseTraceparent(req.headers.get("traceparent")));
+  const executionSpan = tracer.startSpan("workflow.execute", { kind: "server" });
+  const engineTrace: TraceContext = { tracer, span: executionSpan };
+
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch: createTracedFetch(engineTrace) } });
+  const dataStore = createExecutionDataStore(supabase);
+  // Redacts the function logs from the start; credentials and the workflow's paths are added once known
+  const redactor = new Redactor();
+  const detachRedactor = redactor.attachToConsole();
 
   // Declare variables outside try block so they're accessible in catch block
   let executionId: string | undefined;
   let logs: ExecutionLog[] = [];
+  let cancellation: CancellationWatch | undefined;
 
   try {
-    const { workflowId, executionId: providedExecutionId, input = {} } = await req.json();
+    const body = await req.json();
+    const { workflowId, executionId: providedExecutionId, resume, retryOf, useCurrentVersion } = body;
+    let input = body.input ?? {};
+    // "Execute up to here": only this node and its ancestors run
+    let runUntil: string | null = body.runUntil ?? null;
+    let resumeState: ResumeState | null = null;
+
+    executionSpan.setAttributes({ "workflow.id": workflowId, "workflow.execution.id": providedExecutionId });
 
     if (!workflowId) {
       return new Response(JSON.stringify({ error: "workflowId is required" }), {
@@ -102,19 +222,97 @@ serve(async (req: Request) => {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
     }
+    redactor.setPaths(parseRedactionPaths(workflow.redacted_fields));
+
+    // Version of the workflow to run: the current one, or the one stored on the execution being resumed or retried
+    let workflowDefinition: WorkflowSnapshot = {
+      nodes: workflow.nodes as WorkflowNode[],
+      edges: workflow.edges as WorkflowEdge[],
+    };
+
+    // Retrying a failed (or cancelled) execution from the failed node: reuse its input and the outputs of its finished nodes
+    let retrySource: { id: string; logs: ExecutionLog[]; nodeOutputs?: Record<string, unknown> } | null = null;
+    if (retryOf) {
+      const { data: original, error: originalError } = await supabase
+        .from("executions")
+        .select("id, workflow_id, status, input, logs, workflow_snapshot, partial_until")
+        .eq("id", retryOf)
+        .single();
 
-    const nodes = workflow.nodes as WorkflowNode[];
-    const edges = workflow.edges as WorkflowEdge[];
+      if (originalError || !original || original.workflow_id !== workflowId) {
+        console.error("Retried execution fetch error:", originalError);
+        return new Response(JSON.stringify({ error: "Execution to retry not found" }), {
+          status: 404,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (original.status !== "failed" && original.status !== "cancelled") {
+        return new Response(JSON.stringify({ error: "Only failed or cancelled executions can be retried from where they stopped" }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (!useCurrentVersion) {
+        if (!original.workflow_snapshot) {
+          return new Response(JSON.stringify({ error: "The original workflow version of this execution was not stored, retry it with the current version" }), {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        workflowDefinition = original.workflow_snapshot as WorkflowSnapshot;
+      }
+
+      input = (await loadExecutionInput(dataStore, original.id)) ?? original.input ?? {};
+      runUntil = runUntil ?? original.partial_until;
+      const results = await loadExecutionResults(dataStore, original.id);
+      retrySource = { id: original.id, logs: (original.logs as ExecutionLog[]) || [], nodeOutputs: results?.nodeOutputs };
+      console.log(`Retrying execution ${original.id} from the failed node with the ${useCurrentVersion ? "current" : "original"} workflow version`);
+    }
 
-    let executionId: string;
-    let execution: { id: string; started_at: string };
+    if (runUntil && !workflowDefinition.nodes.some(n => n.id === runUntil)) {
+      return new Response(JSON.stringify({ error: `Node ${runUntil} not found in the workflow` }), {
+        status: 400,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // Refuse workflows with errors (missing required fields, broken connections, cycles...) before
+    // any node runs; a partial run only needs the nodes it runs to be valid. Resumed executions
+    // passed this check when they started.
+    if (!resume) {
+      const partialScope = runUntil ? getPartialExecutionNodes(runUntil, workflowDefinition.edges) : null;
+      const validationErrors = validateWorkflow(workflowDefinition.nodes, workflowDefinition.edges, {
+        getCredentialFields: credentialType => CREDENTIAL_SCHEMAS[credentialType]?.fields ?? [],
+      }).filter(e => e.severity === "error" && (!partialScope || !e.nodeId || partialScope.has(e.nodeId)));
+
+      if (validationErrors.length > 0) {
+        const errorMessage = `Workflow has errors: ${validationErrors.map(e => e.message).join("; ")}`;
+        console.error(errorMessage);
+        executionSpan.setError("Workflow has errors");
+        // Executions queued by a webhook or schedule would otherwise stay pending
+        if (providedExecutionId) {
+          await supabase
+            .from("executions")
+            .update({ status: "failed", error: errorMessage, finished_at: new Date().toISOString() })
+            .eq("id", providedExecutionId)
+            .neq("status", "cancelled");
+        }
+        return new Response(JSON.stringify({ error: errorMessage, validationErrors }), {
+          status: 422,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+    }
+
+    // executionId (declared above the try) is set here, so any failure from here on marks the execution failed
+    let execution: { id: string; started_at: string; trigger: string };
 
     // If executionId is provided (from webhook-trigger), use existing execution
     if (providedExecutionId) {
       console.log(`Using existing execution: ${providedExecutionId}`);
       const { data: existingExecution, error: fetchError } = await supabase
         .from("executions")
-        .select("id, started_at, input")
+        .select("id, status, started_at, trigger, input, resume_state, workflow_snapshot, partial_until")
         .eq("id", providedExecutionId)
         .single();
 
@@ -128,8 +326,37 @@ serve(async (req: Request) => {
         });
       }
 
+      if (existingExecution.status === "cancelled") {
+        return new Response(JSON.stringify({ executionId: existingExecution.id, status: "cancelled" }), {
+          status: 409,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
       executionId = existingExecution.id;
       execution = existingExecution;
+      // The row keeps the input masked, the trigger stored it as received
+      const storedInput = await loadExecutionInput(dataStore, existingExecution.id);
+      if (storedInput !== null) {
+        input = storedInput;
+      }
+
+      // Resuming a suspended execution (called by resume-execution): restore the persisted state
+      if (resume) {
+        if (!existingExecution.resume_state) {
+          return new Response(JSON.stringify({ error: "Execution has no state to resume" }), {
+            status: 409,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        resumeState = await loadResumeState(dataStore, existingExecution.id) ?? existingExecution.resume_state as ResumeState;
+        input = storedInput ?? existingExecution.input ?? {};
+        if (existingExecution.workflow_snapshot) {
+          workflowDefinition = existingExecution.workflow_snapshot as WorkflowSnapshot;
+        }
+        runUntil = existingExecution.partial_until;
+        console.log(`Resuming execution ${existingExecution.id} at Wait node ${resumeState.waitingNodeId}`);
+      }
 
       // If started_at is not set, set it now
       if (!execution.started_at) {
@@ -141,25 +368,37 @@ serve(async (req: Request) => {
         execution.started_at = startedAt;
       }
 
-      // Update execution status to "running"
+      // Update execution status to "running" and store the workflow version it runs
+      const trace = { trace_id: tracer.traceId, traceparent: formatTraceparent(executionSpan) };
       await supabase
         .from("executions")
-        .update({ status: "running" })
+        .update(resume
+          ? { status: "running", ...trace }
+          // Masked with this workflow's fields, the caller masked it with its own
+          : { status: "running", workflow_snapshot: workflowDefinition, input: redactor.redact(input), ...trace })
         .eq("id", executionId);
 
       console.log(`Execution ${executionId} status updated to running`);
     } else {
       // Create new execution record (for manual triggers)
       console.log("Creating new execution record");
+      const newExecutionId = crypto.randomUUID();
+      await storeExecutionInput(dataStore, newExecutionId, input);
       const { data: newExecution, error: execError } = await supabase
         .from("executions")
         .insert({
+          id: newExecutionId,
           workflow_id: workflowId,
           user_id: workflow.user_id,
           status: "running",
           trigger: "manual",
-          input,
+          input: redactor.redact(input),
           logs: [],
+          workflow_snapshot: workflowDefinition,
+          retry_of: retrySource?.id ?? null,
+          partial_until: runUntil,
+          trace_id: tracer.traceId,
+          traceparent: formatTraceparent(executionSpan),
         })
         .select()
         .single();
@@ -175,16 +414,69 @@ serve(async (req: Request) => {
       executionId = newExecution.id;
       execution = newExecution;
     }
+    executionSpan.setAttributes({
+      "workflow.id": workflowId,
+      "workflow.name": workflow.name,
+      "workflow.execution.id": executionId,
+      "workflow.execution.trigger": execution.trigger,
+    });
+
+    const nodes = workflowDefinition.nodes;
+    // Loop-back edges only close a loop visually, the loop node itself drives the iterations
+    const edges = removeLoopBackEdges(nodes, workflowDefinition.edges);
+
+    // Cancelling sets the status to "cancelled" (Stop button); the engine polls for it
+    const runningExecutionId = executionId;
+    cancellation = watchCancellation(async () => {
+      const { data } = await supabase.from("executions").select("status").eq("id", runningExecutionId).single();
+      return data?.status === "cancelled";
+    });
+
+    const staticData = await loadStaticData(supabase, workflowId);
+
     logs = [];
-    const nodeOutputs: Record<string, unknown> = { trigger: input };
-    const ifElseResults: Record<string, boolean> = {}; // Track If/Else condition results
-    const switchResults: Record<string, string | null> = {}; // Track Switch matched cases
+    const ctx: ExecutionContext = {
+      supabase,
+      workflowId,
+      workflowName: workflow.name,
+      executionId,
+      userId: workflow.user_id,
+      workflowInput: input,
+      nodes,
+      edges,
+      lovableApiKey,
+      nodeOutputs: { trigger: input },
+      ifElseResults: {},
+      switchResults: {},
+      logs,
+      activeLoops: new Set(),
+      failedNodes: new Set(),
+      suspendable: true,
+      usePinnedData: execution.trigger === "manual",
+      credentials: new Map(),
+      signal: cancellation.signal,
+      dataStore,
+      binary: createBinaryDataApi(dataStore, runningExecutionId),
+      staticData,
+      redactor,
+      trace: engineTrace,
+    };
 
     // Build execution order (topological sort)
-    // Filter out Error Trigger nodes from normal execution - they will be executed only on errors
+    // Filter out Error Trigger nodes and their branches from normal execution - they will be executed only on errors
+    // Loop body nodes are executed by their loop node
     const allNodes = topologicalSort(nodes, edges);
-    const executionOrder = allNodes.filter(n => n.data.type !== "error_trigger");
+    const loopBodyNodes = getAllLoopBodyNodes(nodes, edges);
     const errorTriggerNodes = allNodes.filter(n => n.data.type === "error_trigger");
+    const errorBranchNodes = getErrorBranchNodes(errorTriggerNodes, edges);
+    const partialNodes = runUntil ? getPartialExecutionNodes(runUntil, edges) : null;
+    const executionOrder = allNodes.filter(n =>
+      !errorBranchNodes.has(n.id) && !loopBodyNodes.has(n.id) && (!partialNodes || partialNodes.has(n.id))
+    );
+    const errorHandlingOrder = allNodes.filter(n => errorBranchNodes.has(n.id) && !loopBodyNodes.has(n.id));
+    if (runUntil) {
+      console.log(`Partial execution up to node ${runUntil}`);
+    }
     console.log("Execution order:", executionOrder.map(n => n.data.label));
     console.log(`Total nodes to execute: ${executionOrder.length}`);
     if (errorTriggerNodes.length > 0) {
@@ -222,249 +514,75 @@ serve(async (req: Request) => {
       );
     }
 
-    // Execute nodes in order
-    for (const node of executionOrder) {
-      const log: ExecutionLog = {
-        nodeId: node.id,
-        nodeName: node.data.label,
-        status: "running",
-        startedAt: new Date().toISOString(),
-      };
-
+    // Logs are collected per node and flushed in execution order, so they stay
+    // deterministic while independent branches run concurrently
+    const nodeLogs: Record<string, ExecutionLog[]> = {};
+
+    // Continue a suspended or retried execution: nodes that already finished are not run again
+    const restoredState: RestoredState | null = resumeState ??
+      (retrySource ? restoreStateFromLogs(retrySource.logs, nodes, new Set(executionOrder.map(n => n.id)), retrySource.nodeOutputs) : null);
+    if (restoredState) {
+      // Large outputs were stored as references
+      Object.assign(ctx.nodeOutputs, await loadNodeOutputs(dataStore, restoredState.nodeOutputs));
+      Object.assign(ctx.ifElseResults, restoredState.ifElseResults);
+      // Suspended before multi-match routing: the matched case value (or null)
+      for (const [nodeId, result] of Object.entries(restoredState.switchResults as Record<string, unknown>)) {
+        ctx.switchResults[nodeId] = Array.isArray(result) ? result : getSwitchRoutedOutputs({ matchedCase: result }) ?? [];
+      }
+      restoredState.failedNodes.forEach(id => ctx.failedNodes.add(id));
+      Object.assign(nodeLogs, restoredState.nodeLogs);
+    }
+    if (resumeState) {
+      delete nodeLogs[resumeState.waitingNodeId];
+      ctx.resume = { nodeId: resumeState.waitingNodeId, data: resume?.data };
+    }
+    if (retrySource) {
+      console.log(`Reusing ${Object.keys(nodeLogs).length} finished node(s) of execution ${retrySource.id}`);
+    }
+    // Without results, retries and callers fall back to the masked values on the row
+    const storeResults = async (results: ExecutionResults) => {
       try {
-        // Get all input edges for this node
-        const inputEdges = edges.filter(e => e.target === node.id);
-
-        // Filter out edges from If/Else and Switch nodes that are on the wrong path
-        const validInputEdges = inputEdges.filter(edge => {
-          // If edge has a sourceHandle, it's from an If/Else or Switch node
-          if (edge.sourceHandle) {
-            const sourceNodeId = edge.source;
-            const sourceNode = nodes.find(n => n.id === sourceNodeId);
-            const expectedPath = edge.sourceHandle; // "true"/"false" for If/Else, case value for Switch
-
-            console.log(`Checking edge from ${edge.source} (${edge.sourceHandle}) to ${node.data.label}`);
-
-            // Handle If/Else nodes
-            if (sourceNode?.data.type === "if_else") {
-              console.log(`If/Else results:`, JSON.stringify(ifElseResults));
-
-              // Check if we have the condition result
-              if (ifElseResults[sourceNodeId] !== undefined) {
-                const actualResult = ifElseResults[sourceNodeId];
-                const isValid = (expectedPath === "true" && actualResult) || (expectedPath === "false" && !actualResult);
-                console.log(`Edge from ${edge.source} (${expectedPath}) - condition was ${actualResult}, isValid: ${isValid}`);
-                return isValid;
-              }
-              // If condition not evaluated yet, exclude this edge (shouldn't happen in topological order)
-              console.log(`If/Else node ${sourceNodeId} hasn't been evaluated yet, excluding edge`);
-              return false;
-            }
-
-            // Handle Switch nodes
-            if (sourceNode?.data.type === "switch") {
-              console.log(`Switch results:`, JSON.stringify(switchResults));
-
-              // Check if we have the switch result
-              if (switchResults[sourceNodeId] !== undefined) {
-                const matchedCase = switchResults[sourceNodeId];
-
-                // If sourceHandle is set, use it for routing
-                if (expectedPath) {
-                  const isValid = matchedCase !== null && String(matchedCase) === String(expectedPath);
-                  console.log(`Edge from ${edge.source} (${expectedPath}) - matched case was ${matchedCase}, isValid: ${isValid}`);
-                  return isValid;
-                } else {
-                  // If sourceHandle is not set, this edge shouldn't be used for Switch routing
-                  // All Switch edges should have sourceHandle set to the case value
-                  console.warn(`Edge from Switch node ${sourceNodeId} to ${node.data.label} doesn't have sourceHandle set. Switch routing requires sourceHandle to be set to the case value.`);
-                  return false;
-                }
-              }
-              // If switch not evaluated yet, exclude this edge
-              console.log(`Switch node ${sourceNodeId} hasn't been evaluated yet, excluding edge`);
-              return false;
-            }
-
-            // Unknown node type with sourceHandle
-            console.log(`Unknown node type ${sourceNode?.data.type} with sourceHandle, excluding edge`);
-            return false;
-          }
-          // Regular edges (no sourceHandle) are always valid
-          return true;
-        });
-
-        console.log(`Node ${node.data.label} - Total input edges: ${inputEdges.length}, Valid edges: ${validInputEdges.length}`);
-        inputEdges.forEach(e => {
-          console.log(`  Edge: ${e.source} -> ${e.target}, sourceHandle: ${e.sourceHandle || 'none'}`);
-        });
-
-        // If node only has If/Else or Switch inputs and none are valid, skip this node
-        const hasOnlyConditionalInputs = inputEdges.length > 0 && inputEdges.every(e => {
-          if (!e.sourceHandle) return false;
-          const sourceNode = nodes.find(n => n.id === e.source);
-          return sourceNode?.data.type === "if_else" || sourceNode?.data.type === "switch";
-        });
-        if (hasOnlyConditionalInputs && validInputEdges.length === 0) {
-          console.log(`Skipping node ${node.data.label} - all conditional inputs are on wrong path`);
-          log.status = "skipped";
-          log.finishedAt = new Date().toISOString();
-          logs.push(log);
-          continue;
-        }
-
-        let nodeInput: unknown;
-
-        if (validInputEdges.length > 0) {
-          // If there's only one connected node, use its output directly
-          // For If/Else nodes, extract the 'input' property for downstream nodes
-          if (validInputEdges.length === 1) {
-            const sourceNodeId = validInputEdges[0].source;
-            const sourceOutput = nodeOutputs[sourceNodeId];
-            const sourceNode = nodes.find(n => n.id === sourceNodeId);
-
-            console.log(`Node ${node.data.label} - Source node: ${sourceNode?.data.label} (${sourceNode?.data.type}), Source ID: ${sourceNodeId}`);
-            console.log(`Node ${node.data.label} - Source output exists:`, sourceOutput !== undefined && sourceOutput !== null);
-            console.log(`Node ${node.data.label} - Source output type:`, typeof sourceOutput);
-            console.log(`Node ${node.data.label} - Source output keys:`, sourceOutput && typeof sourceOutput === 'object' ? Object.keys(sourceOutput) : 'N/A');
-
-            // If source is If/Else node, extract the 'input' property
-            if (sourceNode?.data.type === "if_else" && sourceOutput && typeof sourceOutput === "object") {
-              const outputObj = sourceOutput as Record<string, unknown>;
-              nodeInput = outputObj.input !== undefined ? outputObj.input : sourceOutput;
-              console.log(`Node ${node.data.label} getting input from If/Else node, extracted input:`, JSON.stringify(nodeInput));
-            } else {
-              nodeInput = sourceOutput;
-              console.log(`Node ${node.data.label} getting input from connected node ${sourceNode?.data.label} (${sourceNodeId}):`, JSON.stringify(nodeInput));
-              
-              // For Google Doc nodes, ensure the output structure is preserved
-              if (sourceNode?.data.type === "google_doc" && nodeInput && typeof nodeInput === "object") {
-                console.log(`Node ${node.data.label} - Google Doc output structure:`, JSON.stringify(nodeInput));
-                console.log(`Node ${node.data.label} - Available fields: content=${!!(nodeInput as any).content}, body=${!!(nodeInput as any).body}, text=${!!(nodeInput as any).text}`);
-              }
-            }
-          } else {
-            nodeInput = validInputEdges.reduce((acc, edge) => ({ ...acc, [edge.source]: nodeOutputs[edge.source] }), {});
-            console.log(`Node ${node.data.label} getting input from multiple connected nodes:`, JSON.stringify(nodeInput));
-          }
-        } else {
-          // For trigger nodes (no input edges), use the workflow input
-          nodeInput = input;
-          console.log(`Trigger node ${node.data.label} (${node.data.type}) using workflow input:`, JSON.stringify(nodeInput));
-        }
-
-        log.input = nodeInput;
-        console.log(`Executing node: ${node.data.label} (${node.data.type})`);
-        console.log(`Node input value:`, JSON.stringify(nodeInput));
-        console.log(`Node input type:`, typeof nodeInput);
-        console.log(`Node input is null?:`, nodeInput === null);
-        console.log(`Node input is undefined?:`, nodeInput === undefined);
-
-        // Execute node based on type
-        // For AI nodes, retrieve conversation history based on node's memory limit
-        let history: Array<{ role: string; content: string }> = [];
-        const isAINode = ["openai_gpt", "anthropic_claude", "google_gemini", "text_summarizer", "sentiment_analyzer"].includes(node.data.type);
-
-        if (isAINode) {
-          // Get memory limit from node config (default: 10 turns)
-          const memoryLimit = (node.data.config.memory as number) || 10;
-
-          // Get session_id from workflow input (passed from webhook-trigger)
-          const sessionId = (input as any)?._session_id || (input as any)?.session_id;
-
-          if (sessionId && memoryLimit > 0) {
-            try {
-              history = await retrieveConversationHistory(supabase, workflowId, sessionId, memoryLimit);
-              console.log(`Retrieved ${history.length} messages for ${node.data.label} (memory limit: ${memoryLimit} turns)`);
-            } catch (historyError) {
-              console.error(`Error retrieving conversation history for ${node.data.label}:`, historyError);
-              // Continue without history if retrieval fails
-            }
-          }
-        }
+        await storeExecutionResults(dataStore, runningExecutionId, results);
+      } catch (storeError) {
+        console.error("Failed to store execution results:", storeError);
+      }
+    };
+    const flushLogs = () => {
+      logs.splice(0, logs.length, ...executionOrder.flatMap(n => nodeLogs[n.id] ?? []), ...errorHandlingLogs);
+    };
+    let failure: NodeFailure | undefined;
+    let suspension: WaitSignal | undefined;
+    let errorHandlingLogs: ExecutionLog[] = [];
+
+    const executeScheduledNode = async (node: WorkflowNode) => {
+      const log = createExecutionLog(node);
+      // Shares outputs and branch results with the whole run, but keeps its own logs (loop bodies, error triggers)
+      const nodeCtx: ExecutionContext = { ...ctx, logs: [] };
 
-        // Add user_id and workflow_id to node input for context
-        // Preserve arrays - don't spread them into objects
-        let enrichedInput: unknown;
-        if (Array.isArray(nodeInput)) {
-          // For arrays, pass them directly (nodes that need metadata can extract it from context)
-          enrichedInput = nodeInput;
-        } else if (typeof nodeInput === 'object' && nodeInput !== null) {
-          // For objects, add metadata properties
-          enrichedInput = {
-            ...(nodeInput as Record<string, unknown>),
-            _user_id: workflow.user_id,
-            _workflow_id: workflowId,
-          };
-        } else {
-          // For primitives, wrap in object
-          enrichedInput = {
-            value: nodeInput,
-            _user_id: workflow.user_id,
-            _workflow_id: workflowId,
-          };
-        }
-        const output = await executeNode(node, enrichedInput, lovableApiKey, history, workflow.user_id);
-
-        // If this is an If/Else node, store the condition result
-        if (node.data.type === "if_else" && typeof output === "object" && output !== null) {
-          const outputObj = output as Record<string, unknown>;
-          if (typeof outputObj.condition === "boolean") {
-            ifElseResults[node.id] = outputObj.condition;
-            console.log(`If/Else node ${node.data.label} condition result: ${outputObj.condition}`);
-          }
-        }
-
-        // If this is a Switch node, store the matched case
-        if (node.data.type === "switch" && typeof output === "object" && output !== null) {
-          const outputObj = output as Record<string, unknown>;
-          if (outputObj.matchedCase !== undefined) {
-            switchResults[node.id] = outputObj.matchedCase as string | null;
-            console.log(`Switch node ${node.data.label} matched case: ${outputObj.matchedCase}`);
-          }
+      try {
+        if (!(await raceCancellation(runNode(nodeCtx, node, log), ctx.signal))) {
+          nodeLogs[node.id] = [...nodeCtx.logs, log];
+          flushLogs();
+          return;
         }
-
-        console.log(`Node output value:`, JSON.stringify(output));
-        console.log(`Node output type:`, typeof output);
-        console.log(`Node output is null?:`, output === null);
-        console.log(`Node output is undefined?:`, output === undefined);
-
-        // Store output - ensure we store the actual value, not null/undefined
-        let outputToStore = output;
-        if (output === null || output === undefined) {
-          console.error(`Node ${node.data.label} (${node.data.type}) returned null/undefined output!`);
-          console.error(`Node input was:`, JSON.stringify(nodeInput));
-          // For trigger nodes, if output is null, use the input instead
-          if (node.data.type === "webhook" || node.data.type === "webhook_trigger_response" ||
-            node.data.type === "manual_trigger" || node.data.type === "schedule" ||
-            node.data.type === "chat_trigger" || node.data.type === "error_trigger" ||
-            node.data.type === "interval" || node.data.type === "workflow_trigger") {
-            outputToStore = nodeInput || {};
-            console.log(`Using input as output for trigger node:`, JSON.stringify(outputToStore));
-          }
+      } catch (error) {
+        if (error instanceof CancelledError || ctx.signal.aborted) {
+          log.status = "cancelled";
+          log.error = new CancelledError().message;
+          log.finishedAt = new Date().toISOString();
+          nodeLogs[node.id] = [...nodeCtx.logs, log];
+          flushLogs();
+          return;
         }
-
-        // Store the output (use outputToStore which has fallback for trigger nodes)
-        nodeOutputs[node.id] = outputToStore;
-        finalOutput = outputToStore;
-
-        console.log(`✅ Stored output for node ${node.data.label} (${node.data.type}), ID: ${node.id}`);
-        console.log(`   Output type: ${typeof outputToStore}`);
-        console.log(`   Output keys:`, outputToStore && typeof outputToStore === 'object' ? Object.keys(outputToStore) : 'N/A');
-        if (node.data.type === "google_doc" && outputToStore && typeof outputToStore === "object") {
-          const docOutput = outputToStore as Record<string, unknown>;
-          console.log(`   📄 Google Doc output:`);
-          console.log(`      - documentId: ${docOutput.documentId}`);
-          console.log(`      - title: ${docOutput.title}`);
-          console.log(`      - content length: ${typeof docOutput.content === 'string' ? docOutput.content.length : 'N/A'}`);
-          console.log(`      - content preview: ${typeof docOutput.content === 'string' ? docOutput.content.substring(0, 100) : 'N/A'}`);
+        if (error instanceof WaitSignal) {
+          console.log(`Execution suspended at Wait node ${node.data.label}`);
+          log.status = "waiting";
+          suspension = suspension ?? error;
+          nodeLogs[node.id] = [...nodeCtx.logs, log];
+          flushLogs();
+          return;
         }
-        console.log(`   Full output:`, JSON.stringify(outputToStore).substring(0, 500));
 
-        log.output = outputToStore;
-        log.status = "success";
-        log.finishedAt = new Date().toISOString();
-      } catch (error) {
         console.error(`❌ Node ${node.data.label} (${node.data.type}) ERROR:`, error);
         console.error(`   Node ID: ${node.id}`);
         console.error(`   Error type: ${error instanceof Error ? error.constructor.name : typeof error}`);
@@ -473,74 +591,147 @@ serve(async (req: Request) => {
         
         log.status = "failed";
         const errorObj = error instanceof Error ? error : new Error(String(error));
-        log.error = errorObj.message;
+        log.error = redactor.redactText(errorObj.message);
         log.finishedAt = new Date().toISOString();
         hasError = true;
         errorMessage = log.error;
         
-        // If there are Error Trigger nodes, execute them with error information
-        if (errorTriggerNodes.length > 0) {
-          console.log(`Error occurred in node ${node.data.label}, executing ${errorTriggerNodes.length} Error Trigger node(s)`);
-          
-          for (const errorTriggerNode of errorTriggerNodes) {
-            const errorTriggerLog: ExecutionLog = {
-              nodeId: errorTriggerNode.id,
-              nodeName: errorTriggerNode.data.label,
-              status: "running",
-              startedAt: new Date().toISOString(),
-            };
-            
-            try {
-              // Prepare error information for Error Trigger
-              const errorInput = {
-                failed_node: node.data.label || node.id,
-                error_message: errorObj.message,
-                stack_trace: errorObj.stack || "",
-                ...extractInputObject(finalOutput),
-                _user_id: workflow.user_id,
-                _workflow_id: workflowId,
-              };
-              
-              console.log(`Executing Error Trigger node ${errorTriggerNode.data.label} with error info:`, JSON.stringify(errorInput));
-              const errorTriggerOutput = await executeNode(errorTriggerNode, errorInput, lovableApiKey, undefined, workflow.user_id);
-              
-              errorTriggerLog.output = errorTriggerOutput;
-              errorTriggerLog.status = "success";
-              errorTriggerLog.finishedAt = new Date().toISOString();
-              
-              // Update final output with Error Trigger output
-              finalOutput = errorTriggerOutput;
-              
-              console.log(`Error Trigger node ${errorTriggerNode.data.label} executed successfully`);
-            } catch (errorTriggerError) {
-              console.error(`Error Trigger node ${errorTriggerNode.data.label} failed:`, errorTriggerError);
-              errorTriggerLog.status = "failed";
-              errorTriggerLog.error = errorTriggerError instanceof Error ? errorTriggerError.message : "Unknown error";
-              errorTriggerLog.finishedAt = new Date().toISOString();
-            }
-            
-            logs.push(errorTriggerLog);
-          }
+        // The first failure is handed to the Error Trigger branches once running nodes have settled
+        if (!failure) {
+          failure = { node, error: errorObj, input: log.input };
         }
       }
 
-      logs.push(log);
+      nodeCtx.logs.push(log);
+      nodeLogs[node.id] = nodeCtx.logs;
+      flushLogs();
 
-      // Update execution with current logs and status (incremental updates)
+      // Update execution with current logs (incremental updates); the status only changes when the
+      // execution is finalized, after error handling and with its results stored.
+      // A cancellation requested meanwhile is not overwritten
       try {
+        await offloadLogData(dataStore, runningExecutionId, logs);
         await supabase
           .from("executions")
-          .update({
-            logs,
-            status: hasError ? "failed" : "running", // Update status as we go
-          })
-          .eq("id", executionId);
+          .update({ logs })
+          .eq("id", runningExecutionId)
+          .neq("status", "cancelled");
       } catch (updateError) {
         console.error("Failed to update execution logs:", updateError);
         // Continue execution even if log update fails
       }
+    };
+
+    // Nodes start as soon as all their upstream nodes are done; after an error no new nodes are started
+    const scheduledIds = new Set(executionOrder.map(n => n.id));
+    const maxConcurrency = resolveMaxConcurrency(workflow.max_concurrency);
+    console.log(`Running with up to ${maxConcurrency} node(s) in parallel`);
+    await runGraph(
+      executionOrder,
+      node => edges.filter(e => e.target === node.id && scheduledIds.has(e.source)).map(e => e.source),
+      maxConcurrency,
+      executeScheduledNode,
+      () => hasError || suspension !== undefined || ctx.signal.aborted,
+      Object.keys(nodeLogs)
+    );
+
+    // Cancelled: keep the logs of what ran and end without error handling
+    if (ctx.signal.aborted) {
+      const finishedAt = new Date().toISOString();
+      const durationMs = new Date(finishedAt).getTime() - new Date(execution.started_at).getTime();
+      console.log(`Execution ${executionId} was cancelled`);
+      executionSpan.setAttributes({ "workflow.execution.status": "cancelled" });
+
+      await storeResults({ output: null, nodeOutputs: ctx.nodeOutputs });
+      await offloadLogData(dataStore, runningExecutionId, logs);
+      await supabase
+        .from("executions")
+        .update({
+          status: "cancelled",
+          finished_at: finishedAt,
+          duration_ms: durationMs,
+          error: new CancelledError().message,
+          logs,
+          resume_at: null,
+          resume_token: null,
+          resume_state: null,
+        })
+        .eq("id", executionId);
+
+      return new Response(
+        JSON.stringify({ executionId, status: "cancelled", logs, durationMs }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // A Wait node suspended the run: persist the state and end this invocation
+    if (suspension && !hasError) {
+      const resumeToken = suspension.instruction.mode === "webhook" ? createResumeToken() : null;
+      const resumeAt = suspension.instruction.resumeAt?.toISOString() ?? null;
+      await offloadLogData(dataStore, runningExecutionId, logs);
+      const state: ResumeState = {
+        waitingNodeId: suspension.nodeId,
+        nodeOutputs: ctx.nodeOutputs,
+        ifElseResults: ctx.ifElseResults,
+        switchResults: ctx.switchResults,
+        failedNodes: [...ctx.failedNodes],
+        nodeLogs,
+      };
+      // The run resumes from the stored state, the row gets a copy with the outputs masked
+      await storeResumeState(dataStore, runningExecutionId, state);
+      const maskedOutputs = redactor.redact(ctx.nodeOutputs) as Record<string, unknown>;
+
+      await supabase
+        .from("executions")
+        .update({
+          status: "waiting",
+          logs,
+          resume_at: resumeAt,
+          resume_token: resumeToken,
+          resume_state: { ...state, nodeOutputs: await offloadNodeOutputs(dataStore, runningExecutionId, maskedOutputs) },
+        })
+        .eq("id", executionId);
 
-      if (hasError) break;
+      const resumeUrl = resumeToken ? getResumeUrl(supabaseUrl, executionId, resumeToken) : null;
+      console.log(`Execution ${executionId} is waiting (resume at: ${resumeAt ?? "webhook only"})`);
+      executionSpan.setAttributes({ "workflow.execution.status": "waiting" });
+
+      return new Response(
+        JSON.stringify({
+          executionId,
+          status: "waiting",
+          resumeAt,
+          resumeUrl,
+          logs,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Run the Error Trigger branches with the details of the failed node
+    let errorHandled = false;
+    let errorHandlingOutput: unknown = undefined;
+    if (failure && errorTriggerNodes.length > 0) {
+      const errorHandlingCtx: ExecutionContext = {
+        ...ctx,
+        workflowInput: createErrorTriggerInput(failure),
+        logs: [],
+        suspendable: false,
+      };
+      errorHandlingOutput = await runErrorHandling(errorHandlingCtx, errorHandlingOrder, maxConcurrency);
+      errorHandlingLogs = errorHandlingCtx.logs;
+      errorHandled = true;
+      flushLogs();
+    }
+
+    // Final output is the error handling output, or the output of the last successful node in execution order
+    const lastSuccessfulNode = [...executionOrder].reverse().find(n =>
+      nodeLogs[n.id]?.some(l => l.nodeId === n.id && l.status === "success")
+    );
+    if (errorHandlingOutput !== undefined) {
+      finalOutput = errorHandlingOutput;
+    } else if (lastSuccessfulNode) {
+      finalOutput = ctx.nodeOutputs[lastSuccessfulNode.id];
     }
 
     // Finalize execution
@@ -563,74 +754,868 @@ serve(async (req: Request) => {
       }
     }
 
-    console.log(`Finalizing execution with output:`, JSON.stringify(finalOutputToStore));
-    console.log(`Final output type:`, typeof finalOutputToStore);
-    console.log(`Has error:`, hasError);
-    console.log(`Total logs:`, logs.length);
+    console.log(`Finalizing execution with output:`, JSON.stringify(finalOutputToStore));
+    console.log(`Final output type:`, typeof finalOutputToStore);
+    console.log(`Has error:`, hasError);
+    console.log(`Total logs:`, logs.length);
+
+    executionSpan.setAttributes({ "workflow.execution.status": hasError ? "failed" : "success" });
+    if (hasError) {
+      executionSpan.setError(errorMessage);
+    } else {
+      executionSpan.setOk();
+    }
+
+    // Stored before the status changes, callers read them once the execution has finished
+    await storeResults({ output: finalOutputToStore, nodeOutputs: ctx.nodeOutputs });
+    await offloadLogData(dataStore, runningExecutionId, logs);
+    await supabase
+      .from("executions")
+      .update({
+        status: hasError ? "failed" : "success",
+        finished_at: finishedAt,
+        duration_ms: durationMs,
+        // Masked like the logs; the response below and the stored results keep the full output
+        output: await offloadValue(dataStore, runningExecutionId, redactor.redact(finalOutputToStore)),
+        error: hasError ? errorMessage : null,
+        error_handled: errorHandled,
+        logs,
+        resume_at: null,
+        resume_token: null,
+        resume_state: null,
+      })
+      .eq("id", executionId);
+
+    return new Response(
+      JSON.stringify({
+        executionId,
+        status: hasError ? "failed" : "success",
+        output: finalOutputToStore,
+        errorHandled,
+        logs,
+        durationMs,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Execute workflow error:", error);
+    const errorMessage = redactor.redactText(error instanceof Error ? error.message : "Unknown error");
+    executionSpan.recordException(error);
+
+    // If we have an executionId, update it to failed status; this also frees its concurrency slot
+    if (executionId) {
+      try {
+        await offloadLogData(dataStore, executionId, logs);
+      } catch (offloadError) {
+        // Storage may be what failed: the logs are then stored inline rather than leaving the execution running
+        console.error("Failed to offload execution logs:", offloadError);
+      }
+      try {
+        await supabase
+          .from("executions")
+          .update({
+            status: "failed",
+            error: errorMessage,
+            finished_at: new Date().toISOString(),
+            logs: logs.length > 0 ? logs : [
+              {
+                nodeId: "system",
+                nodeName: "Workflow Execution",
+                status: "failed",
+                startedAt: new Date().toISOString(),
+                finishedAt: new Date().toISOString(),
+                error: errorMessage,
+              }
+            ],
+          })
+          .eq("id", executionId);
+      } catch (updateError) {
+        console.error("Failed to update execution status:", updateError);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        executionId: executionId || null,
+        status: "failed",
+        error: errorMessage,
+        logs: logs.length > 0 ? logs : [],
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } finally {
+    cancellation?.stop();
+    executionSpan.end();
+    await tracer.export();
+    detachRedactor();
+  }
+});
+
+/**
+ * Runs a node in its own span: requests made by the node (and the nodes of a loop body) are
+ * recorded under it, and the log references it.
+ * Returns false when the node was skipped (see resolveAndExecuteNode).
+ */
+async function runNode(ctx: ExecutionContext, node: WorkflowNode, log: ExecutionLog): Promise<boolean> {
+  const { tracer } = ctx.trace;
+  const span = tracer.startSpan(`node ${node.data.label}`, {
+    parent: ctx.trace.span,
+    attributes: { "workflow.node.id": node.id, "workflow.node.type": node.data.type, "workflow.node.name": node.data.label },
+  });
+  span.setAttributes({ "workflow.node.iteration": log.iteration });
+  log.spanId = span.spanId;
+
+  try {
+    const ran = await resolveAndExecuteNode({ ...ctx, trace: { tracer, span } }, node, log);
+    span.setAttributes({
+      "workflow.node.status": log.status,
+      "workflow.node.input_items": log.inputItems,
+      "workflow.node.output_items": log.outputItems,
+      "workflow.node.pinned": log.pinned,
+    });
+    // With "continue" or an error output the node succeeds, the span still shows the error
+    if (log.error) {
+      span.setError(log.error);
+    } else {
+      span.setOk();
+    }
+    return ran;
+  } catch (error) {
+    if (error instanceof WaitSignal) {
+      span.setAttributes({ "workflow.node.status": "waiting" });
+    } else {
+      span.recordException(error);
+    }
+    throw error;
+  } finally {
+    span.end();
+  }
+}
+
+/**
+ * Resolves the input of a node from its incoming edges, executes it and stores its output.
+ * Returns false when the node was skipped because all its conditional inputs are on an inactive path.
+ * Errors are thrown to the caller, which records them on the log.
+ */
+async function resolveAndExecuteNode(ctx: ExecutionContext, node: WorkflowNode, log: ExecutionLog): Promise<boolean> {
+  throwIfCancelled(ctx.signal);
+
+  // Get all input edges for this node
+  const inputEdges = ctx.edges.filter(e => e.target === node.id);
+
+  // Filter out edges from If/Else and Switch nodes that are on the wrong path
+  const validInputEdges = inputEdges.filter(edge => {
+    // Nodes with an error output send data to their "error" handle when they failed,
+    // and to their regular outputs otherwise
+    const edgeSource = ctx.nodes.find(n => n.id === edge.source);
+    if (hasErrorOutput(edgeSource?.data.config)) {
+      const sourceFailed = ctx.failedNodes.has(edge.source);
+      if (edge.sourceHandle === ERROR_OUTPUT_HANDLE || sourceFailed) {
+        return edge.sourceHandle === ERROR_OUTPUT_HANDLE && sourceFailed;
+      }
+    }
+
+    // If edge has a sourceHandle, it's from an If/Else, Switch or Loop node
+    if (edge.sourceHandle) {
+      const sourceNodeId = edge.source;
+      const sourceNode = ctx.nodes.find(n => n.id === sourceNodeId);
+      const expectedPath = edge.sourceHandle; // "true"/"false" for If/Else, case value for Switch
+
+      console.log(`Checking edge from ${edge.source} (${edge.sourceHandle}) to ${node.data.label}`);
+
+      // Handle If/Else nodes
+      if (sourceNode?.data.type === "if_else") {
+        console.log(`If/Else results:`, JSON.stringify(ctx.ifElseResults));
+
+        // Check if we have the condition result
+        if (ctx.ifElseResults[sourceNodeId] !== undefined) {
+          const actualResult = ctx.ifElseResults[sourceNodeId];
+          const isValid = (expectedPath === "true" && actualResult) || (expectedPath === "false" && !actualResult);
+          console.log(`Edge from ${edge.source} (${expectedPath}) - condition was ${actualResult}, isValid: ${isValid}`);
+          return isValid;
+        }
+        // If condition not evaluated yet, exclude this edge (shouldn't happen in topological order)
+        console.log(`If/Else node ${sourceNodeId} hasn't been evaluated yet, excluding edge`);
+        return false;
+      }
+
+      // Handle Switch nodes
+      if (sourceNode?.data.type === "switch") {
+        console.log(`Switch results:`, JSON.stringify(ctx.switchResults));
+
+        // Check if we have the switch result
+        if (ctx.switchResults[sourceNodeId] !== undefined) {
+          const routedOutputs = ctx.switchResults[sourceNodeId];
+
+          // If sourceHandle is set, use it for routing
+          if (expectedPath) {
+            const isValid = routedOutputs.includes(String(expectedPath));
+            console.log(`Edge from ${edge.source} (${expectedPath}) - routed to ${routedOutputs.join(", ") || "no output"}, isValid: ${isValid}`);
+            return isValid;
+          } else {
+            // If sourceHandle is not set, this edge shouldn't be used for Switch routing
+            // All Switch edges should have sourceHandle set to the case value
+            console.warn(`Edge from Switch node ${sourceNodeId} to ${node.data.label} doesn't have sourceHandle set. Switch routing requires sourceHandle to be set to the case value.`);
+            return false;
+          }
+        }
+        // If switch not evaluated yet, exclude this edge
+        console.log(`Switch node ${sourceNodeId} hasn't been evaluated yet, excluding edge`);
+        return false;
+      }
+
+      // Handle Loop / Split In Batches nodes
+      // "each" edges only carry data while the loop body runs, "done" edges once it has finished
+      if (isLoopNode(sourceNode)) {
+        const loopActive = ctx.activeLoops.has(sourceNodeId);
+        return expectedPath === LOOP_EACH_HANDLE ? loopActive : !loopActive;
+      }
+
+      // Unknown node type with sourceHandle
+      console.log(`Unknown node type ${sourceNode?.data.type} with sourceHandle, excluding edge`);
+      return false;
+    }
+    // Regular edges (no sourceHandle) are always valid
+    return true;
+  });
+
+  console.log(`Node ${node.data.label} - Total input edges: ${inputEdges.length}, Valid edges: ${validInputEdges.length}`);
+  inputEdges.forEach(e => {
+    console.log(`  Edge: ${e.source} -> ${e.target}, sourceHandle: ${e.sourceHandle || 'none'}`);
+  });
+
+  // If node only has If/Else, Switch or error-routed inputs and none are valid, skip this node
+  const hasOnlyConditionalInputs = inputEdges.length > 0 && inputEdges.every(e => {
+    const sourceNode = ctx.nodes.find(n => n.id === e.source);
+    if (hasErrorOutput(sourceNode?.data.config)) return true;
+    if (!e.sourceHandle) return false;
+    return sourceNode?.data.type === "if_else" || sourceNode?.data.type === "switch";
+  });
+  if (hasOnlyConditionalInputs && validInputEdges.length === 0) {
+    console.log(`Skipping node ${node.data.label} - all conditional inputs are on wrong path`);
+    log.status = "skipped";
+    log.finishedAt = new Date().toISOString();
+    return false;
+  }
+
+  let nodeInput: unknown;
+  const inputHandles = getNodeModule(node.data.type)?.schema.inputHandles;
+
+  if (inputHandles && validInputEdges.some(e => e.targetHandle)) {
+    // Nodes with named inputs (e.g. Merge) get their input keyed by handle, outputs arriving at the
+    // same handle are appended; edges connected before the handles existed stay keyed by node id
+    const inputs: Record<string, unknown> = {};
+    for (const edge of validInputEdges) {
+      const sourceNode = ctx.nodes.find(n => n.id === edge.source);
+      let output = ctx.nodeOutputs[edge.source];
+      if (sourceNode?.data.type === "if_else" && output && typeof output === "object" && (output as Record<string, unknown>).input !== undefined) {
+        output = (output as Record<string, unknown>).input;
+      }
+      const key = edge.targetHandle || edge.source;
+      inputs[key] = key in inputs
+        ? [inputs[key], output].flatMap(value => (Array.isArray(value) ? value : [value]))
+        : output;
+    }
+    nodeInput = inputs;
+    console.log(`Node ${node.data.label} getting input from handles ${Object.keys(inputs).join(", ")}`);
+  } else if (validInputEdges.length > 0) {
+    // If there's only one connected node, use its output directly
+    // For If/Else nodes, extract the 'input' property for downstream nodes
+    if (validInputEdges.length === 1) {
+      const sourceNodeId = validInputEdges[0].source;
+      const sourceOutput = ctx.nodeOutputs[sourceNodeId];
+      const sourceNode = ctx.nodes.find(n => n.id === sourceNodeId);
+
+      console.log(`Node ${node.data.label} - Source node: ${sourceNode?.data.label} (${sourceNode?.data.type}), Source ID: ${sourceNodeId}`);
+      console.log(`Node ${node.data.label} - Source output exists:`, sourceOutput !== undefined && sourceOutput !== null);
+      console.log(`Node ${node.data.label} - Source output type:`, typeof sourceOutput);
+      console.log(`Node ${node.data.label} - Source output keys:`, sourceOutput && typeof sourceOutput === 'object' ? Object.keys(sourceOutput) : 'N/A');
+
+      // If source is If/Else node, extract the 'input' property
+      if (sourceNode?.data.type === "if_else" && sourceOutput && typeof sourceOutput === "object") {
+        const outputObj = sourceOutput as Record<string, unknown>;
+        nodeInput = outputObj.input !== undefined ? outputObj.input : sourceOutput;
+        console.log(`Node ${node.data.label} getting input from If/Else node, extracted input:`, JSON.stringify(nodeInput));
+      } else {
+        nodeInput = sourceOutput;
+        console.log(`Node ${node.data.label} getting input from connected node ${sourceNode?.data.label} (${sourceNodeId}):`, JSON.stringify(nodeInput));
+        
+        // For Google Doc nodes, ensure the output structure is preserved
+        if (sourceNode?.data.type === "google_doc" && nodeInput && typeof nodeInput === "object") {
+          console.log(`Node ${node.data.label} - Google Doc output structure:`, JSON.stringify(nodeInput));
+          console.log(`Node ${node.data.label} - Available fields: content=${!!(nodeInput as any).content}, body=${!!(nodeInput as any).body}, text=${!!(nodeInput as any).text}`);
+        }
+      }
+    } else {
+      nodeInput = validInputEdges.reduce((acc, edge) => ({ ...acc, [edge.source]: ctx.nodeOutputs[edge.source] }), {});
+      console.log(`Node ${node.data.label} getting input from multiple connected nodes:`, JSON.stringify(nodeInput));
+    }
+  } else {
+    // For trigger nodes (no input edges), use the workflow input
+    nodeInput = ctx.workflowInput;
+    console.log(`Trigger node ${node.data.label} (${node.data.type}) using workflow input:`, JSON.stringify(nodeInput));
+  }
+
+  log.input = ctx.redactor.redact(nodeInput);
+  console.log(`Executing node: ${node.data.label} (${node.data.type})`);
+  console.log(`Node input value:`, JSON.stringify(nodeInput));
+  console.log(`Node input type:`, typeof nodeInput);
+  console.log(`Node input is null?:`, nodeInput === null);
+  console.log(`Node input is undefined?:`, nodeInput === undefined);
+
+  // Execute node based on type
+  // For AI nodes, retrieve conversation history based on node's memory limit
+  let history: Array<{ role: string; content: string }> = [];
+  const usesPinnedData = ctx.usePinnedData && node.data.pinnedData !== undefined;
+  const isAINode = ["openai_gpt", "anthropic_claude", "google_gemini", "text_summarizer", "sentiment_analyzer"].includes(node.data.type);
+
+  if (isAINode) {
+    // Get memory limit from node config (default: 10 turns)
+    const memoryLimit = (node.data.config.memory as number) || 10;
+
+    // Get session_id from workflow input (passed from webhook-trigger)
+    const sessionId = (ctx.workflowInput as any)?._session_id || (ctx.workflowInput as any)?.session_id;
+
+    if (sessionId && memoryLimit > 0 && !usesPinnedData) {
+      try {
+        history = await retrieveConversationHistory(ctx.supabase, ctx.dataStore, ctx.workflowId, sessionId, memoryLimit);
+        console.log(`Retrieved ${history.length} messages for ${node.data.label} (memory limit: ${memoryLimit} turns)`);
+      } catch (historyError) {
+        console.error(`Error retrieving conversation history for ${node.data.label}:`, historyError);
+        // Continue without history if retrieval fails
+      }
+    }
+  }
+
+  log.inputItems = countItems(nodeInput);
+
+  // Long waits suspend the execution; when resuming, the Wait node completes without waiting again
+  const waitInstruction = node.data.type === "wait" && !usesPinnedData ? getWaitInstruction(node.data.config) : null;
+  const isResumedWait = waitInstruction !== null && ctx.resume?.nodeId === node.id;
+  if (waitInstruction && !isResumedWait && shouldSuspend(waitInstruction)) {
+    if (!ctx.suspendable) {
+      throw new Error(`Wait: waits longer than ${INLINE_WAIT_LIMIT_MS / 1000}s are not supported inside loop bodies or error handling`);
+    }
+    throw new WaitSignal(node.id, waitInstruction);
+  }
+
+  // Each execution honours the node's retry and timeout settings;
+  // with "continue" a failed execution produces the error as its output
+  const settings = getNodeExecutionSettings(node.data.config);
+  // Console output of sandboxed code nodes is kept on the node's log
+  const appendConsole = (lines: SandboxConsoleLine[]) => {
+    if (lines.length === 0) return;
+    const redactedLines = lines.map(line => ({ ...line, message: ctx.redactor.redactText(line.message) }));
+    log.console = [...(log.console ?? []), ...redactedLines];
+  };
+  const execute = async (value: unknown): Promise<unknown> => {
+    try {
+      return await runWithNodeSettings(
+        async (attemptSignal) => executeNode(
+          await resolveNodeCredentials(ctx, node),
+          enrichNodeInput(value, ctx.userId, ctx.workflowId),
+          ctx.lovableApiKey,
+          history,
+          ctx.userId,
+          appendConsole,
+          getExpressionVariables(ctx),
+          attemptSignal,
+          ctx.binary,
+          ctx.trace,
+          ctx.staticData,
+          ctx.redactor
+        ),
+        settings,
+        node.data.label,
+        ctx.signal
+      );
+    } catch (error) {
+      // A cancelled execution stops, whatever the node's error handling
+      if (settings.onError !== "continue" || error instanceof CancelledError) throw error;
+      console.warn(`Node ${node.data.label} failed, continuing with the error as output:`, error);
+      log.error = ctx.redactor.redactText(error instanceof Error ? error.message : String(error));
+      return createErrorOutput(error, value);
+    }
+  };
+
+  let output: unknown;
+  try {
+    if (usesPinnedData) {
+      console.log(`Using pinned data for node ${node.data.label} instead of executing it`);
+      log.pinned = true;
+      output = await loadPinnedData(ctx, node.data.pinnedData);
+    } else if (isResumedWait) {
+      output = createWaitOutput(nodeInput, waitInstruction.mode, ctx.resume?.data);
+    } else if (isPerItemNode(node.data.type) && getItemList(nodeInput)) {
+      // Per-item nodes run once for every incoming item; the rest receive the whole list
+      console.log(`Running per-item node ${node.data.label} for ${countItems(nodeInput)} item(s)`);
+      output = await executePerItem(nodeInput, execute);
+    } else {
+      output = await execute(nodeInput);
+    }
+
+    // Loop nodes with a connected "each" handle run their body for every iteration
+    // (a pinned loop node already holds the collected results)
+    if (isLoopNode(node) && hasLoopBody(node.id, ctx.edges) && !usesPinnedData) {
+      output = await runLoopBody(ctx, node, output);
+    }
+  } catch (error) {
+    if (settings.onError !== "error_output" || error instanceof CancelledError) throw error;
+    console.warn(`Node ${node.data.label} failed, routing the error to its error output:`, error);
+    ctx.failedNodes.add(node.id);
+    log.error = ctx.redactor.redactText(error instanceof Error ? error.message : String(error));
+    output = createErrorOutput(error, nodeInput);
+  }
+
+  // If this is an If/Else node, store the condition result
+  if (node.data.type === "if_else" && typeof output === "object" && output !== null) {
+    const outputObj = output as Record<string, unknown>;
+    if (typeof outputObj.condition === "boolean") {
+      ctx.ifElseResults[node.id] = outputObj.condition;
+      console.log(`If/Else node ${node.data.label} condition result: ${outputObj.condition}`);
+    }
+  }
+
+  // If this is a Switch node, store the outputs it routed to
+  if (node.data.type === "switch") {
+    const routedOutputs = getSwitchRoutedOutputs(output);
+    if (routedOutputs) {
+      ctx.switchResults[node.id] = routedOutputs;
+      console.log(`Switch node ${node.data.label} routed to: ${routedOutputs.join(", ") || "no output"}`);
+    }
+  }
+
+  console.log(`Node output value:`, JSON.stringify(output));
+  console.log(`Node output type:`, typeof output);
+  console.log(`Node output is null?:`, output === null);
+  console.log(`Node output is undefined?:`, output === undefined);
+
+  // Store output - ensure we store the actual value, not null/undefined
+  let outputToStore = output;
+  if (output === null || output === undefined) {
+    console.error(`Node ${node.data.label} (${node.data.type}) returned null/undefined output!`);
+    console.error(`Node input was:`, JSON.stringify(nodeInput));
+    // For trigger nodes, if output is null, use the input instead
+    if (getNodeModule(node.data.type)?.schema.category === "triggers") {
+      outputToStore = nodeInput || {};
+      console.log(`Using input as output for trigger node:`, JSON.stringify(outputToStore));
+    }
+  }
+
+  // Store the output (use outputToStore which has fallback for trigger nodes)
+  ctx.nodeOutputs[node.id] = outputToStore;
+
+  console.log(`✅ Stored output for node ${node.data.label} (${node.data.type}), ID: ${node.id}`);
+  console.log(`   Output type: ${typeof outputToStore}`);
+  console.log(`   Output keys:`, outputToStore && typeof outputToStore === 'object' ? Object.keys(outputToStore) : 'N/A');
+  if (node.data.type === "google_doc" && outputToStore && typeof outputToStore === "object") {
+    const docOutput = outputToStore as Record<string, unknown>;
+    console.log(`   📄 Google Doc output:`);
+    console.log(`      - documentId: ${docOutput.documentId}`);
+    console.log(`      - title: ${docOutput.title}`);
+    console.log(`      - content length: ${typeof docOutput.content === 'string' ? docOutput.content.length : 'N/A'}`);
+    console.log(`      - content preview: ${typeof docOutput.content === 'string' ? docOutput.content.substring(0, 100) : 'N/A'}`);
+  }
+  console.log(`   Full output:`, JSON.stringify(outputToStore).substring(0, 500));
+
+  log.output = ctx.redactor.redact(outputToStore);
+  log.outputItems = countItems(outputToStore);
+  log.status = "success";
+  log.finishedAt = new Date().toISOString();
+
+  return true;
+}
+
+/**
+ * Runs the sub-graph connected to a loop's "each" handle once per iteration
+ * and returns the collected results, which are passed on through the "done" handle.
+ * Loop iterates over its (maxIterations-limited) items, Split In Batches over its batches.
+ */
+async function runLoopBody(ctx: ExecutionContext, loopNode: WorkflowNode, loopOutput: unknown): Promise<unknown> {
+  const isBatches = loopNode.data.type === "split_in_batches";
+  const outputObj = extractInputObject(loopOutput);
+  const iterations = (isBatches ? outputObj.batches : outputObj.items) as unknown[] | undefined;
+  if (!Array.isArray(iterations)) {
+    throw new Error(`${loopNode.data.label}: nothing to iterate over`);
+  }
+
+  const body = getDirectLoopBody(loopNode.id, ctx.nodes, ctx.edges);
+  const bodyOrder = topologicalSort(ctx.nodes, ctx.edges).filter(n => body.has(n.id));
+  const bodyOutputs = getLoopBodyOutputs(loopNode.id, body, ctx.edges);
+  console.log(`Loop ${loopNode.data.label}: ${iterations.length} iteration(s) over`, bodyOrder.map(n => n.data.label));
+
+  const results: unknown[] = [];
+  for (let i = 0; i < iterations.length; i++) {
+    // Each iteration sees the current element as the loop output and gets its own branch results
+    const iterationCtx: ExecutionContext = {
+      ...ctx,
+      nodeOutputs: { ...ctx.nodeOutputs, [loopNode.id]: iterations[i] },
+      ifElseResults: { ...ctx.ifElseResults },
+      switchResults: { ...ctx.switchResults },
+      activeLoops: new Set([...ctx.activeLoops, loopNode.id]),
+      failedNodes: new Set(ctx.failedNodes),
+      suspendable: false,
+    };
+
+    for (const bodyNode of bodyOrder) {
+      const log = createExecutionLog(bodyNode);
+      log.iteration = i;
+      try {
+        await runNode(iterationCtx, bodyNode, log);
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          log.status = "cancelled";
+          log.error = error.message;
+          log.finishedAt = new Date().toISOString();
+          ctx.logs.push(log);
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        log.status = "failed";
+        log.error = ctx.redactor.redactText(message);
+        log.finishedAt = new Date().toISOString();
+        ctx.logs.push(log);
+        throw new Error(`${loopNode.data.label}: iteration ${i + 1} failed in "${bodyNode.data.label}": ${message}`);
+      }
+      ctx.logs.push(log);
+    }
+
+    // Iterations whose output nodes were all skipped (e.g. by an If/Else) produce no result
+    const produced = bodyOutputs.filter(id => iterationCtx.nodeOutputs[id] !== undefined);
+    if (produced.length === 0) continue;
+    const result = produced.length === 1
+      ? iterationCtx.nodeOutputs[produced[0]]
+      : produced.reduce((acc, id) => ({ ...acc, [id]: iterationCtx.nodeOutputs[id] }), {});
+
+    if (isBatches && Array.isArray(result)) {
+      results.push(...result);
+    } else {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Runs the Error Trigger nodes and their downstream branches.
+ * ctx.workflowInput carries the failure details (see createErrorTriggerInput).
+ * Failures inside error handling are logged but not handled again.
+ * Returns the output of the last successful node of the branches.
+ */
+async function runErrorHandling(ctx: ExecutionContext, order: WorkflowNode[], maxConcurrency: number): Promise<unknown> {
+  console.log(`Running error handling:`, order.map(n => n.data.label));
+  const branchLogs: Record<string, ExecutionLog[]> = {};
+  let branchFailed = false;
+
+  await runGraph(
+    order,
+    node => ctx.edges.filter(e => e.target === node.id && order.some(n => n.id === e.source)).map(e => e.source),
+    maxConcurrency,
+    async (node) => {
+      const log = createExecutionLog(node);
+      const nodeCtx: ExecutionContext = { ...ctx, logs: [] };
+      try {
+        await runNode(nodeCtx, node, log);
+      } catch (error) {
+        console.error(`Error handling node ${node.data.label} failed:`, error);
+        log.status = "failed";
+        log.error = ctx.redactor.redactText(error instanceof Error ? error.message : String(error));
+        log.finishedAt = new Date().toISOString();
+        branchFailed = true;
+      }
+      branchLogs[node.id] = [...nodeCtx.logs, log];
+    },
+    () => branchFailed
+  );
+
+  ctx.logs.push(...order.flatMap(n => branchLogs[n.id] ?? []));
+  ctx.logs.forEach(l => { l.errorHandling = true; });
+
+  const lastSuccessful = [...order].reverse().find(n =>
+    branchLogs[n.id]?.some(l => l.nodeId === n.id && l.status === "success")
+  );
+  return lastSuccessful ? ctx.nodeOutputs[lastSuccessful.id] : undefined;
+}
+
+function createExecutionLog(node: WorkflowNode): ExecutionLog {
+  return {
+    nodeId: node.id,
+    nodeName: node.data.label,
+    nodeType: node.data.type,
+    status: "running",
+    startedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Returns the node with its stored credential (config.credentialId) decrypted into its config,
+ * so nodes read apiKey, password, ... as before. Plain config values are used when no credential is selected.
+ */
+async function resolveNodeCredentials(ctx: ExecutionContext, node: WorkflowNode): Promise<WorkflowNode> {
+  const credentialId = node.data.config.credentialId;
+  if (typeof credentialId !== "string" || !credentialId) {
+    return node;
+  }
+
+  let values = ctx.credentials.get(credentialId);
+  if (!values) {
+    values = loadCredential(ctx, credentialId);
+    ctx.credentials.set(credentialId, values);
+  }
+
+  return { ...node, data: { ...node.data, config: { ...node.data.config, ...(await values) } } };
+}
+
+async function loadCredential(ctx: ExecutionContext, credentialId: string): Promise<Record<string, string>> {
+  // Only the workflow owner's credentials can be used
+  const { data: credential, error } = await ctx.supabase
+    .from("credentials")
+    .select("type, data")
+    .eq("id", credentialId)
+    .eq("user_id", ctx.userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load credential: ${error.message}`);
+  }
+  if (!credential) {
+    throw new Error("Credential not found. It may have been deleted or belong to another user; select a credential in the node properties.");
+  }
+
+  const values = await decryptCredentialData(credential.data as string);
+  const schema = CREDENTIAL_SCHEMAS[credential.type as string];
+  // Secret values are masked wherever they show up in the execution's logs
+  ctx.redactor.addSecrets((schema?.secrets ?? []).map(field => values[field]));
+  const fields = schema?.fields ?? [];
+  return Object.fromEntries(fields.filter(field => values[field] !== undefined).map(field => [field, values[field]]));
+}
+
+/**
+ * Variables that let expressions reach beyond the node's input:
+ * - $node["Label"] (or $node["node-id"]): { id, name, type, output } of every node that has run
+ * - $trigger: the data the execution was started with
+ * - $execution: { id }
+ * - $workflow: { id, name }
+ * - $static: the workflow's static data (values kept across executions)
+ */
+function getExpressionVariables(ctx: ExecutionContext): Record<string, unknown> {
+  const nodeEntries: Record<string, unknown> = {};
+  const ranNodes = ctx.nodes.filter(n => Object.prototype.hasOwnProperty.call(ctx.nodeOutputs, n.id));
+  for (const n of ranNodes) {
+    nodeEntries[n.id] = { id: n.id, name: n.data.label, type: n.data.type, output: ctx.nodeOutputs[n.id] };
+  }
+  // Labels take precedence over ids; with duplicate labels the node that ran last wins
+  for (const n of ranNodes) {
+    nodeEntries[n.data.label] = nodeEntries[n.id];
+  }
+
+  return {
+    $node: nodeEntries,
+    $trigger: ctx.workflowInput,
+    $execution: { id: ctx.executionId },
+    $workflow: { id: ctx.workflowId, name: ctx.workflowName },
+    $static: ctx.staticData.values,
+  };
+}
+
+interface SubWorkflowCall {
+  workflowId: string;
+  userId: string;
+  parentExecutionId: string;
+  parentWorkflowId: string;
+  inputs: Record<string, unknown>;
+  mode: SubWorkflowMode;
+  signal?: AbortSignal;
+  // Span of the calling node, the child execution continues its trace
+  trace?: TraceContext;
+  // Masks the child's input on its row with the calling execution's secrets and fields
+  redactor: Redactor;
+}
 
-    await supabase
+/**
+ * Runs another workflow of the same user for the Execute Workflow node (see subworkflow.ts).
+ * Waits for the child execution and returns its output, or queues it and returns its id.
+ */
+async function executeSubWorkflow(call: SubWorkflowCall): Promise<unknown> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const tracedFetch = call.trace ? createTracedFetch(call.trace) : fetch;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch: tracedFetch } });
+
+  const { data: workflow, error: workflowError } = await supabase
+    .from("workflows")
+    .select("id, name, nodes")
+    .eq("id", call.workflowId)
+    .eq("user_id", call.userId)
+    .maybeSingle();
+
+  if (workflowError) {
+    throw new Error(`Execute Workflow: failed to load the workflow: ${workflowError.message}`);
+  }
+  if (!workflow) {
+    throw new Error("Execute Workflow: workflow not found. It may have been deleted or belong to another user.");
+  }
+
+  // Walk up the calling executions to stop runaway recursion
+  let depth = 0;
+  let ancestorId: string | null = call.parentExecutionId;
+  while (ancestorId && depth < MAX_SUBWORKFLOW_DEPTH) {
+    const { data: ancestor } = await supabase
       .from("executions")
-      .update({
-        status: hasError ? "failed" : "success",
-        finished_at: finishedAt,
-        duration_ms: durationMs,
-        output: finalOutputToStore,
-        error: hasError ? errorMessage : null,
-        logs,
-      })
-      .eq("id", executionId);
+      .select("parent_execution_id")
+      .eq("id", ancestorId)
+      .maybeSingle();
+    ancestorId = ancestor?.parent_execution_id ?? null;
+    depth++;
+  }
+  if (ancestorId) {
+    throw new Error(`Execute Workflow: workflows can be nested at most ${MAX_SUBWORKFLOW_DEPTH} levels deep`);
+  }
 
-    return new Response(
-      JSON.stringify({
-        executionId,
-        status: hasError ? "failed" : "success",
-        output: finalOutputToStore,
-        logs,
-        durationMs,
-      }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+  let inputs: Record<string, unknown>;
+  try {
+    inputs = coerceWorkflowInputs(getWorkflowInputSchema(workflow.nodes as WorkflowNode[]), call.inputs);
   } catch (error) {
-    console.error("Execute workflow error:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    throw new Error(`Execute Workflow: ${error instanceof Error ? error.message : String(error)}`);
+  }
 
-    // If we have an executionId, update it to failed status
-    if (executionId) {
-      try {
-        await supabase
-          .from("executions")
-          .update({
-            status: "failed",
-            error: errorMessage,
-            finished_at: new Date().toISOString(),
-            logs: logs.length > 0 ? logs : [
-              {
-                nodeId: "system",
-                nodeName: "Workflow Execution",
-                status: "failed",
-                startedAt: new Date().toISOString(),
-                finishedAt: new Date().toISOString(),
-                error: errorMessage,
-              }
-            ],
-          })
-          .eq("id", executionId);
-      } catch (updateError) {
-        console.error("Failed to update execution status:", updateError);
-      }
+  const childInput = {
+    trigger: "workflow",
+    source_workflow_id: call.parentWorkflowId,
+    parent_execution_id: call.parentExecutionId,
+    payload: inputs,
+    ...inputs,
+  };
+  const now = new Date().toISOString();
+  const store = createExecutionDataStore(supabase);
+  const childId = crypto.randomUUID();
+  await storeExecutionInput(store, childId, childInput);
+  const { data: child, error: insertError } = await supabase
+    .from("executions")
+    .insert({
+      id: childId,
+      workflow_id: workflow.id,
+      user_id: call.userId,
+      status: "pending",
+      trigger: "workflow",
+      input: call.redactor.redact(childInput),
+      logs: [],
+      parent_execution_id: call.parentExecutionId,
+      started_at: now,
+      // Fire and forget children go through the execution queue
+      queued_at: call.mode === "fire_and_forget" ? now : null,
+      traceparent: call.trace ? formatTraceparent(call.trace.span) : null,
+    })
+    .select("id")
+    .single();
+
+  if (insertError || !child) {
+    throw new Error(`Execute Workflow: failed to create the execution: ${insertError?.message ?? "unknown error"}`);
+  }
+
+  const invoke = (functionName: string, body: unknown, signal?: AbortSignal) =>
+    tracedFetch(`${supabaseUrl}/functions/v1/${functionName}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${supabaseServiceKey}`,
+        "apikey": supabaseServiceKey,
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+  if (call.mode === "fire_and_forget") {
+    // Not awaited: the worker's periodic run starts the child if this call is lost
+    invoke("execution-worker", {}).catch(error => console.error("Failed to call execution-worker:", error));
+    console.log(`Queued sub-workflow execution ${child.id} of "${workflow.name}"`);
+    return { executionId: child.id, workflowId: workflow.id, status: "queued" };
+  }
+
+  try {
+    const response = await invoke("execute-workflow", {
+      workflowId: workflow.id,
+      executionId: child.id,
+      input: childInput,
+    }, call.signal);
+    await response.text();
+  } catch (error) {
+    if (call.signal?.aborted) {
+      // Cancelling the calling execution cancels the child as well
+      await supabase
+        .from("executions")
+        .update({ status: "cancelled", error: "Execution was cancelled", finished_at: new Date().toISOString() })
+        .eq("id", child.id)
+        .in("status", ["pending", "running", "waiting"]);
+      throw new CancelledError();
     }
+    throw new Error(`Execute Workflow: failed to run "${workflow.name}": ${error instanceof Error ? error.message : String(error)}`);
+  }
 
-    return new Response(
-      JSON.stringify({
-        executionId: executionId || null,
-        status: "failed",
-        error: errorMessage,
-        logs: logs.length > 0 ? logs : [],
-      }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+  const { data: result, error: resultError } = await supabase
+    .from("executions")
+    .select("status, output, error")
+    .eq("id", child.id)
+    .single();
+
+  if (resultError || !result) {
+    throw new Error(`Execute Workflow: failed to load the result of "${workflow.name}"`);
   }
-});
+  if (result.status === "waiting") {
+    throw new Error(`Execute Workflow: "${workflow.name}" is suspended by a Wait node; use fire and forget for workflows that wait`);
+  }
+  if (result.status !== "success") {
+    throw new Error(`Execute Workflow: "${workflow.name}" ${result.status === "cancelled" ? "was cancelled" : "failed"}: ${result.error ?? "unknown error"}`);
+  }
+  // The row keeps the output masked (and offloads a large one), the caller gets the stored results
+  const results = await loadExecutionResults(store, child.id);
+  return results ? results.output : await loadValue(store, result.output);
+}
+
+/**
+ * Pinned data can hold a large output offloaded by an earlier execution; it is loaded only
+ * from the data of this workflow's executions
+ */
+async function loadPinnedData(ctx: ExecutionContext, value: unknown): Promise<unknown> {
+  if (!isExternalDataReference(value)) return value;
+
+  const sourceExecutionId = value.path.split("/")[0];
+  const { data: source } = await ctx.supabase
+    .from("executions")
+    .select("id")
+    .eq("id", sourceExecutionId)
+    .eq("workflow_id", ctx.workflowId)
+    .maybeSingle();
+
+  if (!source || !isExecutionDataPath(value.path, sourceExecutionId)) {
+    throw new Error("Pinned data refers to data of another workflow, pin it again");
+  }
+  return await loadValue(ctx.dataStore, value);
+}
+
+/**
+ * Adds user_id and workflow_id to a node input for context.
+ * Arrays are passed through untouched (per-item nodes are enriched item by item).
+ */
+function enrichNodeInput(value: unknown, userId: string, workflowId: string): unknown {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return {
+      ...(value as Record<string, unknown>),
+      _user_id: userId,
+      _workflow_id: workflowId,
+    };
+  }
+  // For primitives, wrap in object
+  return {
+    value,
+    _user_id: userId,
+    _workflow_id: workflowId,
+  };
+}
 
 function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowNode[] {
   const inDegree: Record<string, number> = {};
@@ -671,17 +1656,6 @@ function topologicalSort(nodes: WorkflowNode[], edges: WorkflowEdge[]): Workflow
 // UTILITY FUNCTIONS FOR NODE IMPLEMENTATION
 // ============================================
 
-/**
- * Safely extracts input object from unknown input type
- * Handles various input formats gracefully
- */
-function extractInputObject(input: unknown): Record<string, unknown> {
-  if (input && typeof input === 'object' && input !== null) {
-    return input as Record<string, unknown>;
-  }
-  return {};
-}
-
 /**
  * Extracts data from input using common field names
  * Tries: data, input, text, body, content, items, or returns input itself if string/array
@@ -800,53 +1774,10 @@ function validateEmail(email: string, paramName: string, nodeName: string): void
   }
 }
 
-/**
- * Type-safe property extraction from record
- */
-function getProperty<T>(obj: Record<string, unknown>, key: string, defaultValue: T): T {
-  const value = obj[key];
-  if (value !== undefined && value !== null) {
-    return value as T;
-  }
-  return defaultValue;
-}
-
-/**
- * Type-safe string property extraction
- */
-function getStringProperty(obj: Record<string, unknown>, key: string, defaultValue: string): string {
-  const value = obj[key];
-  if (typeof value === 'string') {
-    return value;
-  }
-  return defaultValue;
-}
-
-/**
- * Type-safe number property extraction
- */
-function getNumberProperty(obj: Record<string, unknown>, key: string, defaultValue: number): number {
-  const value = obj[key];
-  if (typeof value === 'number') {
-    return value;
-  }
-  return defaultValue;
-}
-
-/**
- * Type-safe boolean property extraction
- */
-function getBooleanProperty(obj: Record<string, unknown>, key: string, defaultValue: boolean): boolean {
-  const value = obj[key];
-  if (typeof value === 'boolean') {
-    return value;
-  }
-  return defaultValue;
-}
-
 // Retrieve conversation history for a session with a specific memory limit
 async function retrieveConversationHistory(
   supabase: ReturnType<typeof createClient>,
+  dataStore: ExecutionDataStore,
   workflowId: string,
   sessionId: string,
   memoryLimitTurns: number
@@ -856,7 +1787,7 @@ async function retrieveConversationHistory(
   try {
     const { data: previousExecutions } = await supabase
       .from("executions")
-      .select("input, output, logs")
+      .select("id, input, output")
       .eq("workflow_id", workflowId)
       .eq("trigger", "webhook")
       .not("input", "is", null)
@@ -878,8 +1809,10 @@ async function retrieveConversationHistory(
 
     // Build conversation history from previous messages (reverse to get chronological order)
     for (const exec of sessionExecutions.reverse()) {
-      const execInput = extractInputObject(exec.input);
-      const execOutput = exec.output;
+      // The row keeps the input and output masked (and offloads a large output); the stored copies hold the messages
+      const execInput = extractInputObject((await loadExecutionInput(dataStore, exec.id)) ?? exec.input);
+      const results = await loadExecutionResults(dataStore, exec.id);
+      const execOutput = results ? results.output : await loadValue(dataStore, exec.output);
 
       const message = execInput.message;
       if (typeof message === 'string' && message) {
@@ -923,203 +1856,79 @@ async function executeNode(
   input: unknown,
   lovableApiKey?: string,
   conversationHistory?: Array<{ role: string; content: string }>,
-  userId?: string
+  userId?: string,
+  onConsole?: (lines: SandboxConsoleLine[]) => void,
+  // $node, $trigger, $execution and $workflow for templates and conditions
+  expressionVariables: Record<string, unknown> = {},
+  signal?: AbortSignal,
+  // Reads and writes files of the execution by reference
+  binary?: BinaryDataApi,
+  // Span of the node run, requests are recorded as its child spans
+  trace?: TraceContext,
+  // Workflow static data for the Static Data node
+  staticData?: StaticData,
+  // Masks what the node stores on other rows (the input of a sub-workflow execution)
+  redactor: Redactor = new Redactor()
 ): Promise<unknown> {
   const { type, config } = node.data;
+  // Requests made by nodes are aborted when the execution is cancelled
+  const cancellableFetch = signal ? createCancellableFetch(signal) : globalThis.fetch;
+  const fetch = trace ? createTracedFetch(trace, cancellableFetch) : cancellableFetch;
+
+  // Node types migrated to the registry (see _shared/nodes) run their own module
+  const nodeModule = getNodeModule(type);
+  if (nodeModule) {
+    return await nodeModule.execute({
+      node: { id: node.id, type, label: node.data.label },
+      config,
+      input,
+      userId,
+      binary: binary!,
+      signal,
+      fetch,
+      expressionVariables,
+      staticData,
+    });
+  }
 
   switch (type) {
-    case "manual_trigger": {
-      // Manual trigger: returns standardized output schema
-      const inputObj = extractInputObject(input);
-      const workflowId = getStringProperty(inputObj, '_workflow_id', '') || 
-                         getStringProperty(inputObj, 'workflow_id', '') || 
-                         (userId || "unknown");
-      const executedAt = new Date().toISOString();
-      const output = {
-        trigger: "manual",
-        workflow_id: workflowId,
-        ...inputObj,
-        // Ensure executed_at is always set after spread so it can't be overwritten
-        executed_at: executedAt,
-      };
-      console.log(`Manual trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "webhook":
-    case "webhook_trigger_response": {
-      // Webhook trigger: returns input with standardized schema
-      // Input should already contain method, headers, query, body from webhook-trigger function
-      const inputObj = extractInputObject(input);
-      const output: Record<string, unknown> = {
-        trigger: "webhook",
-        method: getStringProperty(inputObj, 'method', 'POST'),
-        headers: inputObj.headers || {},
-        query: inputObj.query || {},
-        body: inputObj.body || inputObj,
-        ...inputObj,
-      };
-      console.log(`Webhook trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "schedule": {
-      // Schedule trigger: returns standardized output with time, timezone, and generated cron
-      const time = getStringProperty(config, 'time', '09:00');
-      const timezone = getStringProperty(config, 'timezone', 'Asia/Kolkata');
-      
-      // Convert time (HH:MM) to cron expression (runs daily at specified time)
-      // Time format: "HH:MM" -> Cron: "MM HH * * *"
-      let cron = "";
-      if (time && time.match(/^\d{2}:\d{2}$/)) {
-        const [hours, minutes] = time.split(':');
-        cron = `${minutes} ${hours} * * *`;
-      } else {
-        // Fallback to old cron format if time is not in HH:MM format
-        cron = getStringProperty(config, 'cron', '0 9 * * *');
+    case "execute_workflow": {
+      const workflowId = replaceTemplates(getStringProperty(config, 'workflowId', ''), input, expressionVariables).trim();
+      if (!workflowId) {
+        throw new Error("Execute Workflow: workflow is required. Please select the workflow to run in the node properties.");
       }
-      
-      const inputObj = extractInputObject(input);
-      // Only bypass wait if explicitly marked as scheduled execution (from scheduler service)
-      const isScheduledExecution = getStringProperty(inputObj, '_scheduled', 'false') === 'true';
-      
-      // If not a scheduled execution and time is specified, wait until scheduled time
-      if (!isScheduledExecution && time && time.match(/^\d{2}:\d{2}$/)) {
+      if (!userId) {
+        throw new Error("Execute Workflow: User ID not found in workflow context.");
+      }
+
+      let mapping = config.inputs ?? {};
+      if (typeof mapping === "string") {
         try {
-          // Get current time in the specified timezone
-          const now = new Date();
-          const scheduledHour = parseInt(time.split(':')[0], 10);
-          const scheduledMinute = parseInt(time.split(':')[1], 10);
-          
-          // Format current time in the specified timezone
-          const formatter = new Intl.DateTimeFormat('en-US', {
-            timeZone: timezone,
-            hour: '2-digit',
-            minute: '2-digit',
-            second: '2-digit',
-            hour12: false,
-          });
-          
-          const currentTimeStr = formatter.format(now);
-          const [currentHour, currentMinute, currentSecond] = currentTimeStr.split(':').map(Number);
-          const currentTimeFormatted = `${String(currentHour).padStart(2, '0')}:${String(currentMinute).padStart(2, '0')}`;
-          
-          // Calculate time difference in minutes
-          const currentTimeMinutes = currentHour * 60 + currentMinute;
-          const scheduledTimeMinutes = scheduledHour * 60 + scheduledMinute;
-          let timeDiffMinutes = scheduledTimeMinutes - currentTimeMinutes;
-          
-          // If scheduled time has passed today, schedule for tomorrow
-          if (timeDiffMinutes < 0) {
-            timeDiffMinutes += 24 * 60; // Add 24 hours
-          }
-          
-          // Calculate delay in milliseconds (subtract current seconds to be more precise)
-          const delayMs = (timeDiffMinutes * 60 - currentSecond) * 1000;
-          
-          // Maximum wait time: 5 minutes (300000ms) to prevent long-running requests
-          const MAX_WAIT_MS = 5 * 60 * 1000;
-          
-          if (delayMs > 0 && delayMs <= MAX_WAIT_MS) {
-            console.log(`Schedule trigger: Waiting ${Math.round(delayMs / 1000)} seconds until ${time} ${timezone} (current: ${currentTimeFormatted})`);
-            // Wait until scheduled time
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-            console.log(`Schedule trigger: Wait completed, continuing execution at scheduled time`);
-          } else if (delayMs > MAX_WAIT_MS) {
-            // If delay is too long, log a message but continue (for testing)
-            console.warn(
-              `Schedule trigger: Scheduled time ${time} ${timezone} is more than 5 minutes away (${Math.round(delayMs / 60000)} minutes). ` +
-              `Current time: ${currentTimeFormatted} ${timezone}. ` +
-              `Workflow will continue but may not execute at exact scheduled time. ` +
-              `For long delays, use a scheduler service or Manual Trigger for testing.`
-            );
-          } else if (delayMs <= 0) {
-            // Time has passed or is very close, continue immediately
-            console.log(`Schedule trigger: Scheduled time ${time} ${timezone} has passed or is very close. Continuing execution.`);
-          }
-        } catch (error) {
-          // If timezone conversion fails, log warning but don't block execution
-          console.warn(`Schedule trigger time calculation failed:`, error);
-          // Continue execution even if time calculation fails
+          mapping = mapping.trim() ? JSON.parse(mapping) : {};
+        } catch {
+          throw new Error("Execute Workflow: inputs must be a JSON object mapping input names to values or {{expressions}}");
         }
       }
-      
-      const executedAt = new Date().toISOString();
-      const output = {
-        trigger: "schedule",
-        time,
-        cron,
-        timezone,
-        executed_at: executedAt,
-        ...inputObj,
-      };
-      console.log(`Schedule trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "chat_trigger": {
-      // Chat trigger: validates message and session_id, returns standardized output
-      const inputObj = extractInputObject(input);
-      const message = getStringProperty(inputObj, 'message', '');
-      const sessionId = getStringProperty(inputObj, 'session_id', '') || getStringProperty(inputObj, '_session_id', '');
-      
-      if (!message || message.trim() === '') {
-        throw new Error("Chat Trigger: message is required. Please provide a message in the input data.");
-      }
-      if (!sessionId || sessionId.trim() === '') {
-        throw new Error("Chat Trigger: session_id is required. Please provide a session_id in the input data.");
+      if (typeof mapping !== "object" || mapping === null || Array.isArray(mapping)) {
+        throw new Error("Execute Workflow: inputs must be a JSON object mapping input names to values or {{expressions}}");
       }
-      
-      const output = {
-        trigger: "chat",
-        message,
-        session_id: sessionId,
-        user_context: inputObj.user_context || inputObj.metadata || {},
-        ...inputObj,
-      };
-      console.log(`Chat trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "error_trigger": {
-      // Error trigger: fires on node failures (handled globally, not executed directly)
-      // If this is called, it means an error occurred and was captured
-      const inputObj = extractInputObject(input);
-      const output = {
-        trigger: "error",
-        failed_node: getStringProperty(inputObj, 'failed_node', 'unknown'),
-        error_message: getStringProperty(inputObj, 'error_message', 'Unknown error'),
-        stack_trace: getStringProperty(inputObj, 'stack_trace', ''),
-        ...inputObj,
-      };
-      console.log(`Error trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "interval": {
-      // Interval trigger: returns standardized output with interval
-      const interval = getStringProperty(config, 'interval', '10m');
-      const executedAt = new Date().toISOString();
-      const inputObj = extractInputObject(input);
-      const output = {
-        trigger: "interval",
-        interval,
-        executed_at: executedAt,
-        ...inputObj,
-      };
-      console.log(`Interval trigger returning:`, JSON.stringify(output));
-      return output;
-    }
-    case "workflow_trigger": {
-      // Workflow trigger: validates source_workflow_id, returns standardized output
-      const sourceWorkflowId = getStringProperty(config, 'source_workflow_id', '');
-      if (!sourceWorkflowId || sourceWorkflowId.trim() === '') {
-        throw new Error("Workflow Trigger: source_workflow_id is required. Please configure the source workflow ID in the node properties.");
+
+      const inputs: Record<string, unknown> = {};
+      for (const [name, value] of Object.entries(mapping as Record<string, unknown>)) {
+        inputs[name] = resolveTypedValue(value, input, expressionVariables);
       }
-      const inputObj = extractInputObject(input);
-      const output = {
-        trigger: "workflow",
-        source_workflow_id: sourceWorkflowId,
-        payload: inputObj.payload || inputObj,
-        ...inputObj,
-      };
-      console.log(`Workflow trigger returning:`, JSON.stringify(output));
-      return output;
+
+      return executeSubWorkflow({
+        workflowId,
+        userId,
+        parentExecutionId: (expressionVariables.$execution as { id: string }).id,
+        parentWorkflowId: (expressionVariables.$workflow as { id: string }).id,
+        inputs,
+        mode: getSubWorkflowMode(config),
+        signal,
+        trace,
+        redactor,
+      });
     }
 
     case "http_request": {
@@ -1127,7 +1936,7 @@ async function executeNode(
       if (!urlTemplate || urlTemplate.trim() === '') {
         throw new Error("HTTP Request: URL is required. Please configure the URL in the node properties.");
       }
-      const url = replaceTemplates(urlTemplate, input);
+      const url = replaceTemplates(urlTemplate, input, expressionVariables);
       validateURL(url, 'URL', 'HTTP Request');
       
       const method = getStringProperty(config, 'method', 'GET').toUpperCase();
@@ -1138,7 +1947,7 @@ async function executeNode(
       const headersStr = getStringProperty(config, 'headers', '');
       if (headersStr && headersStr.trim() !== '') {
         try {
-          const parsedHeaders = parseJSONSafe(replaceTemplates(headersStr, input), 'headers') as Record<string, string>;
+          const parsedHeaders = parseJSONSafe(replaceTemplates(headersStr, input, expressionVariables), 'headers') as Record<string, string>;
           if (parsedHeaders && typeof parsedHeaders === 'object') {
             headers = parsedHeaders;
           }
@@ -1152,7 +1961,7 @@ async function executeNode(
       const bodyStr = getStringProperty(config, 'body', '');
       if (bodyStr && bodyStr.trim() !== '' && method !== 'GET') {
         try {
-          body = parseJSONSafe(replaceTemplates(bodyStr, input), 'body');
+          body = parseJSONSafe(replaceTemplates(bodyStr, input, expressionVariables), 'body');
         } catch (error) {
           throw new Error(`HTTP Request: Invalid body format. Expected valid JSON. Error: ${error instanceof Error ? error.message : String(error)}`);
         }
@@ -1276,17 +2085,17 @@ async function executeNode(
       if (!urlTemplate || urlTemplate.trim() === '') {
         throw new Error("GraphQL: Endpoint URL is required. Please configure the GraphQL endpoint URL in the node properties.");
       }
-      const url = replaceTemplates(urlTemplate, input);
+      const url = replaceTemplates(urlTemplate, input, expressionVariables);
       validateURL(url, 'endpoint URL', 'GraphQL');
       
       const queryTemplate = getStringProperty(config, 'query', '');
       if (!queryTemplate || queryTemplate.trim() === '') {
         throw new Error("GraphQL: Query is required. Please provide a GraphQL query in the node properties.");
       }
-      const query = replaceTemplates(queryTemplate, input);
+      const query = replaceTemplates(queryTemplate, input, expressionVariables);
       
       const operationNameTemplate = getStringProperty(config, 'operationName', '');
-      const operationName = operationNameTemplate ? replaceTemplates(operationNameTemplate, input) : undefined;
+      const operationName = operationNameTemplate ? replaceTemplates(operationNameTemplate, input, expressionVariables) : undefined;
       const timeout = getNumberProperty(config, 'timeout', 30000);
       
       // Parse variables safely
@@ -1294,7 +2103,7 @@ async function executeNode(
       const variablesStr = getStringProperty(config, 'variables', '');
       if (variablesStr && variablesStr.trim() !== '') {
         try {
-          const parsedVariables = parseJSONSafe(replaceTemplates(variablesStr, input), 'variables');
+          const parsedVariables = parseJSONSafe(replaceTemplates(variablesStr, input, expressionVariables), 'variables');
           if (parsedVariables && typeof parsedVariables === 'object' && parsedVariables !== null) {
             variables = parsedVariables as Record<string, unknown>;
           }
@@ -1308,7 +2117,7 @@ async function executeNode(
       const headersStr = getStringProperty(config, 'headers', '');
       if (headersStr && headersStr.trim() !== '') {
         try {
-          const parsedHeaders = parseJSONSafe(replaceTemplates(headersStr, input), 'headers') as Record<string, string>;
+          const parsedHeaders = parseJSONSafe(replaceTemplates(headersStr, input, expressionVariables), 'headers') as Record<string, string>;
           if (parsedHeaders && typeof parsedHeaders === 'object') {
             headers = parsedHeaders;
           }
@@ -1384,17 +2193,17 @@ async function executeNode(
       if (responseBodyStr) {
         try {
           // Try to parse as JSON first
-          responseBody = JSON.parse(replaceTemplates(responseBodyStr, input));
+          responseBody = JSON.parse(replaceTemplates(responseBodyStr, input, expressionVariables));
         } catch {
           // If not valid JSON, treat as template string
-          responseBody = replaceTemplates(responseBodyStr, input);
+          responseBody = replaceTemplates(responseBodyStr, input, expressionVariables);
         }
       } else {
         // If no response body specified, use the input data
         responseBody = input;
       }
 
-      const customHeaders = headersStr ? JSON.parse(replaceTemplates(headersStr, input)) : {};
+      const customHeaders = headersStr ? JSON.parse(replaceTemplates(headersStr, input, expressionVariables)) : {};
 
       // Return response data in a format that webhook-trigger can extract
       return {
@@ -1411,11 +2220,11 @@ async function executeNode(
     }
 
     case "http_post": {
-      const url = replaceTemplates(config.url as string, input);
+      const url = replaceTemplates(config.url as string, input, expressionVariables);
       const headersStr = config.headers as string;
-      const headers = headersStr ? JSON.parse(replaceTemplates(headersStr, input)) : {};
+      const headers = headersStr ? JSON.parse(replaceTemplates(headersStr, input, expressionVariables)) : {};
       const bodyTemplate = config.bodyTemplate as string;
-      const body = bodyTemplate ? replaceTemplates(bodyTemplate, input) : JSON.stringify(input);
+      const body = bodyTemplate ? replaceTemplates(bodyTemplate, input, expressionVariables) : JSON.stringify(input);
 
       const response = await fetch(url, {
         method: "POST",
@@ -1443,7 +2252,7 @@ async function executeNode(
         if (!nodeApiKey || !nodeApiKey.trim()) {
           throw new Error(`API Key is required for ${node.data.label || "Google Gemini"} node. Please add your Gemini API key in the node properties.`);
         }
-        return executeGeminiNode(config, input, nodeApiKey, conversationHistory);
+        return executeGeminiNode(config, input, nodeApiKey, conversationHistory, fetch);
       }
 
       // For other AI nodes, API key is mandatory
@@ -1853,7 +2662,7 @@ async function executeNode(
 
       if (type === "slack_message") {
         const messageValue = config.message;
-        payload.text = messageValue ? replaceTemplates(String(messageValue), input) : '';
+        payload.text = messageValue ? replaceTemplates(String(messageValue), input, expressionVariables) : '';
         if (config.channel) payload.channel = config.channel;
         if (config.username) payload.username = config.username;
         if (config.iconEmoji) payload.icon_emoji = config.iconEmoji;
@@ -1861,7 +2670,7 @@ async function executeNode(
         const blocksStr = config.blocks as string;
         if (blocksStr) {
           try {
-            const blocks = JSON.parse(replaceTemplates(blocksStr, input));
+            const blocks = JSON.parse(replaceTemplates(blocksStr, input, expressionVariables));
             if (Array.isArray(blocks) && blocks.length > 0) {
               payload.blocks = blocks;
             }
@@ -1871,7 +2680,7 @@ async function executeNode(
         }
       } else {
         const textValue = config.text;
-        payload.text = textValue ? replaceTemplates(String(textValue), input) : '';
+        payload.text = textValue ? replaceTemplates(String(textValue), input, expressionVariables) : '';
       }
 
       const response = await fetch(webhookUrl, {
@@ -1894,7 +2703,7 @@ async function executeNode(
 
       const contentValue = config.content;
       const payload: Record<string, unknown> = {
-        content: contentValue ? replaceTemplates(String(contentValue), input) : '',
+        content: contentValue ? replaceTemplates(String(contentValue), input, expressionVariables) : '',
       };
       if (config.username) payload.username = config.username;
       if (config.avatarUrl) payload.avatar_url = config.avatarUrl;
@@ -1932,11 +2741,11 @@ async function executeNode(
       const bodyValue = config.body;
       const replyToValue = config.replyTo;
       
-      const to = toValue ? replaceTemplates(String(toValue), input) : '';
-      const from = fromValue ? replaceTemplates(String(fromValue), input) : '';
-      const subject = subjectValue ? replaceTemplates(String(subjectValue), input) : '';
-      const body = bodyValue ? replaceTemplates(String(bodyValue), input) : '';
-      const replyTo = replyToValue ? replaceTemplates(String(replyToValue), input) : undefined;
+      const to = toValue ? replaceTemplates(String(toValue), input, expressionVariables) : '';
+      const from = fromValue ? replaceTemplates(String(fromValue), input, expressionVariables) : '';
+      const subject = subjectValue ? replaceTemplates(String(subjectValue), input, expressionVariables) : '';
+      const body = bodyValue ? replaceTemplates(String(bodyValue), input, expressionVariables) : '';
+      const replyTo = replyToValue ? replaceTemplates(String(replyToValue), input, expressionVariables) : undefined;
 
       // Validate required fields
       if (!to || !to.trim()) {
@@ -2066,7 +2875,7 @@ async function executeNode(
       console.log(`If/Else node evaluating condition: "${condition}"`);
       console.log(`If/Else node input:`, JSON.stringify(actualInput));
 
-      const result = evaluateCondition(condition, actualInput);
+      const result = evaluateCondition(condition, actualInput, expressionVariables);
 
       console.log(`If/Else condition result: ${result}`);
 
@@ -2075,67 +2884,46 @@ async function executeNode(
     }
 
     case "switch": {
-      const expression = config.expression as string;
+      const expression = getStringProperty(config, 'expression', '');
+      const cases = parseSwitchCases(config.cases);
 
-      if (!expression || !expression.trim()) {
+      // Only "expression" cases work without a value to match
+      if (!expression.trim() && cases.some(c => c.operator !== "expression")) {
         throw new Error("Switch expression is required. Please configure the expression in the node properties.");
       }
 
-      // Parse cases - can be a JSON string or already an array
-      let cases: Array<{ value: string; label?: string }> = [];
-      const casesConfig = config.cases;
-
-      if (casesConfig) {
-        if (typeof casesConfig === "string") {
-          // Parse JSON string
-          try {
-            cases = JSON.parse(casesConfig);
-          } catch (parseError) {
-            console.error("Switch: Failed to parse cases JSON:", parseError);
-            throw new Error(`Switch cases must be valid JSON array. Error: ${parseError instanceof Error ? parseError.message : "Invalid JSON"}`);
-          }
-        } else if (Array.isArray(casesConfig)) {
-          // Already an array
-          cases = casesConfig;
-        } else {
-          throw new Error("Switch cases must be a JSON array. Format: [{\"value\": \"active\", \"label\": \"Active\"}]");
-        }
-      }
-
-      if (!Array.isArray(cases)) {
-        throw new Error(`Switch cases must be an array. Received: ${typeof cases}. Please configure cases as JSON array in node properties.`);
-      }
-
       // Evaluate the expression to get the value to match
-      const expressionValue = replaceTemplates(expression, input);
-      const matchValue = expressionValue.trim();
+      const matchValue = replaceTemplates(expression, input, expressionVariables).trim();
 
       console.log(`Switch node evaluating expression: "${expression}"`);
-      console.log(`Switch node input:`, JSON.stringify(input));
       console.log(`Switch expression result: "${matchValue}"`);
       console.log(`Switch cases:`, JSON.stringify(cases));
 
-      // Find matching case
-      const matchingCase = cases.find(c => String(c.value) === matchValue);
+      const resolver = {
+        resolve: (template: string) => replaceTemplates(template, input, expressionVariables),
+        evaluate: (condition: string) => evaluateCondition(condition, input, expressionVariables),
+      };
+      const matchAll = getStringProperty(config, 'matchMode', 'first') === 'all';
+      const matches: number[] = [];
+      for (let i = 0; i < cases.length; i++) {
+        if (matchesSwitchCase(cases[i], matchValue, resolver)) {
+          matches.push(i);
+          if (!matchAll) break;
+        }
+      }
 
-      if (matchingCase) {
-        console.log(`Switch matched case: "${matchingCase.value}" (${matchingCase.label || 'no label'})`);
-        // Return input with case information for routing
-        return {
-          matchedCase: matchingCase.value,
-          caseLabel: matchingCase.label,
-          input: input
-        };
-      } else {
-        console.log(`Switch: No matching case found for "${matchValue}"`);
-        console.log(`Available cases:`, cases.map(c => c.value).join(", "));
-        // Return input with no match (could route to default branch if implemented)
-        return {
-          matchedCase: null,
-          caseLabel: null,
-          input: input
-        };
+      if (matches.length === 0) {
+        console.log(`Switch: No matching case found for "${matchValue}", routing to the fallback output`);
       }
+      const firstMatch = matches.length > 0 ? cases[matches[0]] : undefined;
+      // Return input with case information for routing
+      return {
+        matchedCase: firstMatch ? firstMatch.value ?? null : null,
+        caseLabel: firstMatch?.label ?? null,
+        matchedCases: matches.map(i => cases[i].value ?? null),
+        outputs: matches.length > 0 ? matches.map(i => getSwitchCaseHandle(cases[i], i)) : [SWITCH_FALLBACK_HANDLE],
+        input: input
+      };
     }
 
     case "filter": {
@@ -2157,10 +2945,10 @@ async function executeNode(
         if (cleanExpr.startsWith("input.") || cleanExpr.startsWith("{{input.")) {
           // Remove template syntax if present
           const expr = cleanExpr.replace(/^\{\{|\}\}$/g, "").replace(/^input\./, "");
-          items = extractValue(expr, input) as unknown[] || [];
+          items = extractValue(expr, input, expressionVariables) as unknown[] || [];
         } else {
           // Try direct extraction
-          items = extractValue(cleanExpr, input) as unknown[] || [];
+          items = extractValue(cleanExpr, input, expressionVariables) as unknown[] || [];
         }
       }
 
@@ -2200,17 +2988,22 @@ async function executeNode(
 
       console.log(`Filter: Processing ${items.length} items with condition: ${conditionExpr}`);
 
-      const filtered = items.filter((item) => {
+      try {
+        parseExpression(conditionExpr);
+      } catch (error) {
+        throw new Error(`Filter: Invalid condition: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      const filtered = items.filter((item, index) => {
+        // The item's properties are also available without the item. prefix
+        let result: unknown;
         try {
-          // Evaluate condition with item in scope
-          const fn = new Function("item", `return ${conditionExpr};`);
-          const result = fn(item);
-          console.log(`Filter: Item ${JSON.stringify(item).substring(0, 50)}... -> ${result}`);
-          return Boolean(result);
+          result = evaluateExpression(conditionExpr, { variables: { ...expressionVariables, item, index, input }, implicit: item });
         } catch (error) {
-          console.error(`Filter condition evaluation error for item:`, item, error);
-          return false;
+          throw new Error(`Filter: Condition failed for item ${index}: ${error instanceof Error ? error.message : String(error)}`);
         }
+        console.log(`Filter: Item ${JSON.stringify(item)?.substring(0, 50)}... -> ${result}`);
+        return Boolean(result);
       });
 
       console.log(`Filter: Filtered ${items.length} items down to ${filtered.length} items`);
@@ -2218,39 +3011,25 @@ async function executeNode(
     }
 
     case "wait": {
-      const duration = (config.duration as number) || 1000;
-      await new Promise(resolve => setTimeout(resolve, Math.min(duration, 10000)));
+      // Only short waits get here, longer ones suspend the execution (see wait.ts)
+      const { delayMs } = getWaitInstruction(config);
+      await new Promise(resolve => setTimeout(resolve, Math.min(delayMs, INLINE_WAIT_LIMIT_MS)));
       return input;
     }
 
     case "javascript": {
-      const code = config.code as string;
-      if (!code || !code.trim()) {
+      const code = getStringProperty(config, 'code', '');
+      if (!code.trim()) {
         return input;
       }
-      
-      try {
-        // Check if code is already a function expression/arrow function
-        const trimmedCode = code.trim();
-        if (trimmedCode.startsWith('(') || trimmedCode.startsWith('function') || trimmedCode.startsWith('async')) {
-          // Try as function expression first
-          try {
-            const fn = new Function("input", `return (${code})(input);`);
-            return fn(input);
-          } catch {
-            // Fall through to function body approach
-          }
-        }
-        
-        // Execute as function body (supports const, let, var, and other statements)
-        const fn = new Function("input", code);
-        const result = fn(input);
-        // If function doesn't return anything, return the input
-        return result !== undefined ? result : input;
-      } catch (error) {
-        console.error(`JavaScript node execution error:`, error);
-        throw new Error(`JavaScript execution failed: ${error instanceof Error ? error.message : String(error)}`);
-      }
+
+      // User code runs in the sandbox, never in the engine's runtime (see sandbox.ts)
+      const { value } = await runInSandbox(
+        { code, args: { input }, timeoutMs: getNumberProperty(config, 'timeout', 5000), onConsole, signal },
+        "JavaScript"
+      );
+      // If the code doesn't return anything, return the input
+      return value !== undefined ? value : input;
     }
 
     case "loop": {
@@ -2267,7 +3046,7 @@ async function executeNode(
       
       // Try to extract array from expression
       const cleanExpr = arrayExpr.trim().replace(/^\{\{|\}\}$/g, "").replace(/^input\./, "");
-      items = extractValue(cleanExpr, input) as unknown[] || [];
+      items = extractValue(cleanExpr, input, expressionVariables) as unknown[] || [];
       
       // If no array found, try common patterns
       if (!Array.isArray(items) || items.length === 0) {
@@ -2299,29 +3078,13 @@ async function executeNode(
       }
       
       // Limit iterations to prevent infinite loops
-      const iterations = Math.min(items.length, maxIterations);
-      
-      const results: unknown[] = [];
-      for (let i = 0; i < iterations; i++) {
-        results.push({
-          item: items[i],
-          index: i,
-          total: items.length
-        });
-      }
-      
-      return {
-        items: results,
-        count: results.length,
-        total: items.length,
-        ...extractInputObject(input)
-      };
+      return createLoopOutput(items, maxIterations, extractInputObject(input));
     }
 
     case "error_handler": {
       // Error Handler: Retry logic with fallback (note: this is a wrapper node)
-      // Actual retry logic should be implemented at the workflow execution level
-      // This node serves as a marker and can provide fallback values
+      // Retries, timeouts and on-error behaviour are per-node settings applied by the engine
+      // (see node-settings.ts); this node serves as a marker and can provide fallback values
       const retries = getNumberProperty(config, 'retries', 3);
       const retryDelay = getNumberProperty(config, 'retryDelay', 1000);
       const fallbackValueStr = getStringProperty(config, 'fallbackValue', 'null');
@@ -2333,44 +3096,18 @@ async function executeNode(
         } catch {
           // If parsing fails, use the string value
           fallbackValue = fallbackValueStr;
-        }
-      }
-      
-      // Note: Actual retry logic is handled at workflow execution level
-      // This node just passes through input, but can be used to mark error handling points
-      return {
-        ...extractInputObject(input),
-        _error_handler_config: {
-          retries,
-          retryDelay,
-          fallbackValue
-        }
-      };
-    }
-
-    case "javascript": {
-      const code = getStringProperty(config, 'code', 'return input;');
-      const timeout = getNumberProperty(config, 'timeout', 5000);
-      
-      console.log(`[JAVASCRIPT] Executing code with input:`, JSON.stringify(input));
-      console.log(`[JAVASCRIPT] Code:`, code);
-      
-      try {
-        const startTime = Date.now();
-        // Execute code directly as a function body (not as a function call)
-        const fn = new Function("input", code);
-        const result = fn(input);
-        const executionTime = Date.now() - startTime;
-        
-        if (executionTime > timeout) {
-          throw new Error(`JavaScript: Execution exceeded timeout of ${timeout}ms`);
-        }
-        
-        console.log(`[JAVASCRIPT] Result:`, JSON.stringify(result));
-        return result;
-      } catch (error) {
-        throw new Error(`JavaScript: Code execution failed. ${error instanceof Error ? error.message : String(error)}`);
+        }
       }
+      
+      // This node just passes through input, but can be used to mark error handling points
+      return {
+        ...extractInputObject(input),
+        _error_handler_config: {
+          retries,
+          retryDelay,
+          fallbackValue
+        }
+      };
     }
 
     case "function": {
@@ -2381,29 +3118,21 @@ async function executeNode(
       const inputObj = extractInputObject(input);
       const data = extractDataFromInput(input);
       
-      try {
-        const startTime = Date.now();
-        const fn = new Function("input", "data", `return (${code})(input, data);`);
-        const result = fn(input, data);
-        const executionTime = Date.now() - startTime;
-        
-        if (executionTime > timeout) {
-          throw new Error(`Function: Execution exceeded timeout of ${timeout}ms`);
-        }
-        
-        return {
-          result,
-          executionTime,
-          ...inputObj
-        };
-      } catch (error) {
-        try {
-          const fn = new Function("input", "data", code);
-          return fn(input, data);
-        } catch (innerError) {
-          throw new Error(`Function: Code execution failed. ${error instanceof Error ? error.message : String(error)}`);
-        }
+      const startTime = Date.now();
+      const { value, form } = await runInSandbox(
+        { code, args: { input, data }, timeoutMs: timeout, onConsole, signal },
+        "Function"
+      );
+
+      // A function body returns its result as is, a function expression's result is wrapped
+      if (form === "body") {
+        return value;
       }
+      return {
+        result: value,
+        executionTime: Date.now() - startTime,
+        ...inputObj
+      };
     }
 
     case "function_item": {
@@ -2418,25 +3147,12 @@ async function executeNode(
         throw new Error('Function Item: Input must be an array or contain an array');
       }
       
-      const results: unknown[] = [];
-      
-      for (let i = 0; i < data.length; i++) {
-        const item = data[i];
-        try {
-          const startTime = Date.now();
-          const fn = new Function("item", "index", "input", `return (${code})(item, index, input);`);
-          const result = fn(item, i, input);
-          const executionTime = Date.now() - startTime;
-          
-          if (executionTime > timeout) {
-            throw new Error(`Function Item: Execution exceeded timeout of ${timeout}ms for item ${i}`);
-          }
-          
-          results.push(result);
-        } catch (error) {
-          throw new Error(`Function Item: Code execution failed for item ${i}. ${error instanceof Error ? error.message : String(error)}`);
-        }
-      }
+      // All items run in one sandbox; the timeout covers the whole list
+      const { value } = await runInSandbox(
+        { code, args: { input, data }, eachItemOf: "data", timeoutMs: timeout, onConsole, signal },
+        "Function Item"
+      );
+      const results = value as unknown[];
       
       return {
         items: results,
@@ -2471,13 +3187,13 @@ async function executeNode(
       // Note: In Deno, we can use Deno.run() for command execution
       // However, for security, this is disabled by default
       // This is a placeholder implementation
-      throw new Error('Execute Command: Command execution is not enabled in this environment for security reasons. Use JavaScript/Function nodes instead.');
+      throw new Error('Execute Command: Command execution is not enabled in this environment for security reasons. Use the sandboxed JavaScript/Function nodes instead.');
     }
 
     case "json_parser": {
       const expression = config.expression as string;
       if (!expression) return input;
-      return extractValue(expression, input);
+      return extractValue(expression, input, expressionVariables);
     }
 
     case "text_formatter": {
@@ -2514,16 +3230,54 @@ async function executeNode(
         }
       }
 
-      return replaceTemplates(template, flattenedInput);
+      return replaceTemplates(template, flattenedInput, expressionVariables);
     }
 
     case "set_variable": {
       const name = config.name as string;
       const valueExpr = config.value as string;
-      const value = replaceTemplates(valueExpr, input);
+      const value = replaceTemplates(valueExpr, input, expressionVariables);
       return { [name]: value, ...((typeof input === "object" && input) || {}) };
     }
 
+    case "static_data": {
+      if (!staticData) {
+        throw new Error("Static Data: static data is not available in this execution");
+      }
+      const operation = getStringProperty(config, "operation", "get");
+      const inputObj = extractInputObject(input);
+      if (operation === "get_all") {
+        return { ...inputObj, staticData: { ...staticData.values } };
+      }
+
+      const key = replaceTemplates(getStringProperty(config, "key", ""), input, expressionVariables).trim();
+      if (!key) {
+        throw new Error("Static Data: key is required. Please set the key in the node properties.");
+      }
+      if (operation === "get") {
+        const value = Object.prototype.hasOwnProperty.call(staticData.values, key) ? staticData.values[key] : null;
+        return { ...inputObj, staticData: { key, value } };
+      }
+      if (!isStaticDataOperation(operation)) {
+        throw new Error(`Static Data: unknown operation "${operation}"`);
+      }
+
+      let value = resolveTypedValue(config.value, input, expressionVariables);
+      if (operation === "increment") {
+        // Empty increments by 1, text like "5" counts as a number
+        value = value === undefined || value === null || value === "" ? undefined : Number(value);
+        if (typeof value === "number" && Number.isNaN(value)) {
+          throw new Error(`Static Data: increment amount "${String(config.value)}" is not a number`);
+        }
+      }
+      const expected = operation === "compare_and_set"
+        ? resolveTypedValue(config.expected, input, expressionVariables)
+        : undefined;
+
+      const result = await staticData.update(key, operation, value, expected);
+      return { ...inputObj, staticData: { key, ...result } };
+    }
+
     case "csv_processor": {
       const delimiter = (config.delimiter as string) || ",";
       const hasHeader = config.hasHeader !== false; // Default to true
@@ -2603,112 +3357,11 @@ async function executeNode(
       return rows;
     }
 
-    case "merge":
-    case "merge_data": {
-      const mode = getStringProperty(config, 'mode', 'merge');
-      const inputObj = extractInputObject(input);
-
-      // Merge: Enhanced merge node with multiple modes
-      if (typeof input === "object" && input !== null) {
-        const keys = Object.keys(inputObj);
-
-        switch (mode) {
-          case "append": {
-            // Append mode: Add items to array
-            const arrays: unknown[] = [];
-            keys.forEach(key => {
-              const value = inputObj[key];
-              if (Array.isArray(value)) {
-                arrays.push(...value);
-              } else if (value !== undefined && value !== null) {
-                arrays.push(value);
-              }
-            });
-            return arrays;
-          }
-          
-          case "key_based": {
-            // Key-based merge: Merge objects using specified key
-            const mergeKey = getStringProperty(config, 'mergeKey', 'id');
-            const mergedMap = new Map<string, Record<string, unknown>>();
-            
-            keys.forEach(key => {
-              const value = inputObj[key];
-              if (Array.isArray(value)) {
-                value.forEach((item: unknown) => {
-                  if (typeof item === 'object' && item !== null) {
-                    const itemObj = item as Record<string, unknown>;
-                    const keyValue = String(itemObj[mergeKey] || key);
-                    if (!mergedMap.has(keyValue)) {
-                      mergedMap.set(keyValue, {});
-                    }
-                    Object.assign(mergedMap.get(keyValue)!, itemObj);
-                  }
-                });
-              } else if (typeof value === 'object' && value !== null) {
-                const valueObj = value as Record<string, unknown>;
-                const keyValue = String(valueObj[mergeKey] || key);
-                if (!mergedMap.has(keyValue)) {
-                  mergedMap.set(keyValue, {});
-                }
-                Object.assign(mergedMap.get(keyValue)!, valueObj);
-              }
-            });
-            
-            return Array.from(mergedMap.values());
-          }
-          
-          case "wait_all": {
-            // Wait-all mode: Wait for all inputs, return all
-            return inputObj;
-          }
-          
-          case "concat": {
-            // Concat mode: Concatenate arrays
-            const arrays: unknown[] = [];
-            keys.forEach(key => {
-              const value = inputObj[key];
-              if (Array.isArray(value)) {
-                arrays.push(...value);
-              } else if (value !== undefined && value !== null) {
-                arrays.push(value);
-              }
-            });
-            return arrays;
-          }
-          
-          case "merge":
-          default: {
-            // Merge mode: Combine all object properties
-            const merged: Record<string, unknown> = {};
-            keys.forEach(key => {
-              const value = inputObj[key];
-              if (value !== undefined && value !== null) {
-                if (typeof value === "object" && !Array.isArray(value)) {
-                  Object.assign(merged, value as Record<string, unknown>);
-                } else {
-                  merged[key] = value;
-                }
-              }
-            });
-            return merged;
-          }
-        }
-      }
-
-      // If input is an array and mode is concat/append, flatten it
-      if (Array.isArray(input) && (mode === "concat" || mode === "append")) {
-        return input.flat();
-      }
-
-      return input;
-    }
-
     case "log_output": {
       const messageStr = getStringProperty(config, 'message', '');
       console.log(`[LOG_OUTPUT] About to call replaceTemplates with input:`, JSON.stringify(input));
       console.log(`[LOG_OUTPUT] Message template:`, messageStr);
-      const message = replaceTemplates(messageStr, input);
+      const message = replaceTemplates(messageStr, input, expressionVariables);
       const level = (config.level as string) || "info";
       console.log(`[${level.toUpperCase()}] ${message}`);
       return { logged: message, level, input };
@@ -2728,7 +3381,7 @@ async function executeNode(
         throw new Error('Database Read: Supabase configuration not available');
       }
       
-      const supabaseClient = createClient(supabaseUrl, supabaseKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseKey, { global: { fetch } });
       
       try {
         let queryBuilder = supabaseClient.from(table).select(getStringProperty(config, 'columns', '*'));
@@ -2785,7 +3438,7 @@ async function executeNode(
         throw new Error('Database Write: Supabase configuration not available');
       }
       
-      const supabaseClient = createClient(supabaseUrl, supabaseKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseKey, { global: { fetch } });
       const inputObj = extractInputObject(input);
       
       // Extract data to write
@@ -2794,7 +3447,7 @@ async function executeNode(
       
       try {
         if (dataTemplate && dataTemplate.trim() !== '{}') {
-          dataToWrite = parseJSONSafe(replaceTemplates(dataTemplate, input), 'data') as Record<string, unknown>;
+          dataToWrite = parseJSONSafe(replaceTemplates(dataTemplate, input, expressionVariables), 'data') as Record<string, unknown>;
         } else {
           // Use input data
           dataToWrite = inputObj;
@@ -2890,7 +3543,7 @@ async function executeNode(
         throw new Error('PostgreSQL: Supabase configuration not available');
       }
       
-      const supabaseClient = createClient(supabaseUrl, supabaseKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseKey, { global: { fetch } });
       const inputObj = extractInputObject(input);
       
       try {
@@ -2943,12 +3596,12 @@ async function executeNode(
     case "google_sheets": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const operation = (config.operation as string) || 'read';
-      const spreadsheetId = replaceTemplates(config.spreadsheetId as string, input);
-      const sheetName = config.sheetName ? replaceTemplates(config.sheetName as string, input) : undefined;
-      const range = config.range ? replaceTemplates(config.range as string, input) : undefined;
+      const spreadsheetId = replaceTemplates(config.spreadsheetId as string, input, expressionVariables);
+      const sheetName = config.sheetName ? replaceTemplates(config.sheetName as string, input, expressionVariables) : undefined;
+      const range = config.range ? replaceTemplates(config.range as string, input, expressionVariables) : undefined;
       const outputFormat = (config.outputFormat as string) || 'json';
       const readDirection = (config.readDirection as string) || 'rows';
       const allowWrite = (config.allowWrite as boolean) || false;
@@ -2990,7 +3643,7 @@ async function executeNode(
         if (dataConfig) {
           if (typeof dataConfig === 'string') {
             try {
-              writeData = JSON.parse(replaceTemplates(dataConfig, input));
+              writeData = JSON.parse(replaceTemplates(dataConfig, input, expressionVariables));
             } catch (parseError) {
               throw new Error(`Google Sheets: Invalid JSON format for write data. Expected 2D array: [["col1", "col2"], ["val1", "val2"]]. Error: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
             }
@@ -3086,7 +3739,7 @@ async function executeNode(
     case "google_doc": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3097,7 +3750,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value.trim()) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           // If value is not a string but might contain templates, convert to string first
           if (typeof value === 'object' && value !== null) {
@@ -3107,7 +3760,7 @@ async function executeNode(
             // For other types, convert to string and try template replacement
             const strValue = String(value);
             if (strValue.includes('{{')) {
-              processedConfig[key] = replaceTemplates(strValue, input);
+              processedConfig[key] = replaceTemplates(strValue, input, expressionVariables);
             } else {
               processedConfig[key] = value;
             }
@@ -3202,7 +3855,7 @@ async function executeNode(
     case "google_drive": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3213,7 +3866,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3232,7 +3885,7 @@ async function executeNode(
     case "google_calendar": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3243,7 +3896,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3262,7 +3915,7 @@ async function executeNode(
     case "google_gmail": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3273,7 +3926,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3292,7 +3945,7 @@ async function executeNode(
     case "google_bigquery": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3303,7 +3956,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3321,7 +3974,7 @@ async function executeNode(
     case "google_tasks": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3332,7 +3985,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3351,7 +4004,7 @@ async function executeNode(
     case "google_contacts": {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey);
+      const supabaseClient = createClient(supabaseUrl, supabaseServiceKey, { global: { fetch } });
 
       const userId = (input as any)?._user_id;
       if (!userId) {
@@ -3362,7 +4015,7 @@ async function executeNode(
       const processedConfig: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(config)) {
         if (typeof value === 'string' && value) {
-          processedConfig[key] = replaceTemplates(value, input);
+          processedConfig[key] = replaceTemplates(value, input, expressionVariables);
         } else if (value !== null && value !== undefined) {
           processedConfig[key] = value;
         }
@@ -3538,7 +4191,7 @@ async function executeNode(
           extracted = inputObj[cleanExpression];
         } else {
           // Use extractValue for nested paths (e.g., "input.items")
-          extracted = extractValue(cleanExpression, input);
+          extracted = extractValue(cleanExpression, input, expressionVariables);
         }
         
         // If still not found, try common array property names
@@ -3563,19 +4216,7 @@ async function executeNode(
         array = extracted;
       }
 
-      // Split into batches
-      const batches: unknown[][] = [];
-      for (let i = 0; i < array.length; i += batchSize) {
-        batches.push(array.slice(i, i + batchSize));
-      }
-
-      return {
-        batches,
-        batchCount: batches.length,
-        totalItems: array.length,
-        batchSize,
-        ...extractInputObject(input)
-      };
+      return createBatchesOutput(array, batchSize, extractInputObject(input));
     }
 
     // ============================================
@@ -3650,7 +4291,7 @@ async function executeNode(
           console.log(`[SET] Preserving object/array for field "${key}":`, JSON.stringify(resolvedValue));
         } else if (typeof valueTemplate === 'string') {
           // For strings, apply template replacement
-          const resolvedValueStr = replaceTemplates(valueTemplate, input);
+          const resolvedValueStr = replaceTemplates(valueTemplate, input, expressionVariables);
           
           // Try to parse as number if it looks like a number and no template was used
           if (!valueTemplate.includes('{{')) {
@@ -3725,7 +4366,7 @@ async function executeNode(
             if (value !== undefined) {
               // Convert value to string for replaceTemplates
               const valueStr = typeof value === 'string' ? value : String(value);
-              output[field] = replaceTemplates(valueStr, input);
+              output[field] = replaceTemplates(valueStr, input, expressionVariables);
             }
             break;
           case 'delete':
@@ -4027,7 +4668,7 @@ async function executeNode(
       
       for (let i = 0; i < steps.length; i++) {
         const step = steps[i];
-        const stepPrompt = replaceTemplates(step.prompt, { input: currentInput, previous: stepOutputs[stepOutputs.length - 1] || currentInput });
+        const stepPrompt = replaceTemplates(step.prompt, { input: currentInput, previous: stepOutputs[stepOutputs.length - 1] || currentInput }, expressionVariables);
         const stepModel = step.model || model;
         
         try {
@@ -4076,7 +4717,7 @@ async function executeNode(
             const dateTemplate = getStringProperty(config, 'date', '');
             const format = getStringProperty(config, 'format', 'ISO');
             // Resolve template expressions in date field (e.g., {{result}}, {{input.result}})
-            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input) : '';
+            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input, expressionVariables) : '';
             const date = resolvedDateStr ? new Date(resolvedDateStr) : new Date();
             
             if (isNaN(date.getTime())) {
@@ -4106,7 +4747,7 @@ async function executeNode(
             const addUnit = getStringProperty(config, 'unit', 'days');
             const dateTemplate = getStringProperty(config, 'date', '');
             // Resolve template expressions in date field (e.g., {{result}}, {{input.result}})
-            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input) : '';
+            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input, expressionVariables) : '';
             const addDate = resolvedDateStr ? new Date(resolvedDateStr) : new Date();
             
             if (isNaN(addDate.getTime())) {
@@ -4130,7 +4771,7 @@ async function executeNode(
             const subUnit = getStringProperty(config, 'unit', 'days');
             const dateTemplate = getStringProperty(config, 'date', '');
             // Resolve template expressions in date field (e.g., {{result}}, {{input.result}})
-            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input) : '';
+            const resolvedDateStr = dateTemplate ? replaceTemplates(dateTemplate, input, expressionVariables) : '';
             const subDate = resolvedDateStr ? new Date(resolvedDateStr) : new Date();
             
             if (isNaN(subDate.getTime())) {
@@ -4218,7 +4859,7 @@ async function executeNode(
           console.log(`[MATH] Getting numeric value for template: "${template}"`);
           
           // First try to resolve template
-          const resolvedStr = replaceTemplates(template, input);
+          const resolvedStr = replaceTemplates(template, input, expressionVariables);
           console.log(`[MATH] Template "${template}" resolved to: "${resolvedStr}"`);
           
           // Try to parse as number
@@ -4388,8 +5029,8 @@ async function executeNode(
         throw new Error('Microsoft Teams: Webhook URL is required. Get it from Teams channel Connectors.');
       }
       
-      const message = replaceTemplates(getStringProperty(config, 'message', ''), input);
-      const title = replaceTemplates(getStringProperty(config, 'title', 'Workflow Notification'), input);
+      const message = replaceTemplates(getStringProperty(config, 'message', ''), input, expressionVariables);
+      const title = replaceTemplates(getStringProperty(config, 'title', 'Workflow Notification'), input, expressionVariables);
       
       try {
         const response = await fetch(webhookUrl, {
@@ -4425,7 +5066,7 @@ async function executeNode(
       // Telegram: Send message via Telegram Bot API
       const botToken = getStringProperty(config, 'botToken', '');
       const chatId = getStringProperty(config, 'chatId', '');
-      const message = replaceTemplates(getStringProperty(config, 'message', ''), input);
+      const message = replaceTemplates(getStringProperty(config, 'message', ''), input, expressionVariables);
       
       if (!botToken || !chatId) {
         throw new Error('Telegram: Bot Token and Chat ID are required');
@@ -4463,7 +5104,7 @@ async function executeNode(
       const phoneNumberId = getStringProperty(config, 'phoneNumberId', '');
       const accessToken = getStringProperty(config, 'accessToken', '');
       const to = getStringProperty(config, 'to', '');
-      const message = replaceTemplates(getStringProperty(config, 'message', ''), input);
+      const message = replaceTemplates(getStringProperty(config, 'message', ''), input, expressionVariables);
       
       if (!phoneNumberId || !accessToken || !to) {
         throw new Error('WhatsApp Cloud: Phone Number ID, Access Token, and recipient number are required');
@@ -4506,7 +5147,7 @@ async function executeNode(
       const authToken = getStringProperty(config, 'authToken', '');
       const from = getStringProperty(config, 'from', '');
       const to = getStringProperty(config, 'to', '');
-      const message = replaceTemplates(getStringProperty(config, 'message', ''), input);
+      const message = replaceTemplates(getStringProperty(config, 'message', ''), input, expressionVariables);
       
       if (!accountSid || !authToken || !from || !to) {
         throw new Error('Twilio: Account SID, Auth Token, From, and To are required');
@@ -4558,7 +5199,7 @@ async function executeNode(
       }
       
       // Evaluate template variables in file path (e.g., {{path}} from previous node)
-      const filePath = replaceTemplates(filePathTemplate, input);
+      const filePath = replaceTemplates(filePathTemplate, input, expressionVariables);
       
       console.log(`[READ_BINARY_FILE] Original path template: "${filePathTemplate}"`);
       console.log(`[READ_BINARY_FILE] Resolved path: "${filePath}"`);
@@ -4595,7 +5236,8 @@ async function executeNode(
           // Fallback: Check if previous node (Write Binary File) passed the content
           const inputObj = input as Record<string, unknown>;
           
-          // Check if we have content from Write Binary File output
+          // Check if we have content from Write Binary File output (a stored file, or base64 from older runs)
+          const inputBinary = isBinaryReference(inputObj.binary) ? inputObj.binary : null;
           const hasContent = inputObj.content && typeof inputObj.content === 'string';
           const inputPath = inputObj.path ? String(inputObj.path).trim() : '';
           const pathMatches = inputPath && (
@@ -4608,7 +5250,10 @@ async function executeNode(
           console.log(`[READ_BINARY_FILE] Fallback check: hasContent=${hasContent}, inputPath="${inputPath}", sanitizedPath="${sanitizedPath}", pathMatches=${pathMatches}`);
           
           // If the previous node was Write Binary File and we have the content in input
-          if (hasContent && (pathMatches || !inputPath)) {
+          if (inputBinary && binary && (pathMatches || !inputPath)) {
+            console.log(`[READ_BINARY_FILE] File not found on filesystem, using the file stored by the previous node`);
+            fileData = await binary.read(inputBinary);
+          } else if (hasContent && (pathMatches || !inputPath)) {
             console.log(`[READ_BINARY_FILE] File not found on filesystem, but content available from Write Binary File output`);
             console.log(`[READ_BINARY_FILE] Using content from previous node output`);
             
@@ -4661,16 +5306,18 @@ async function executeNode(
           throw new Error(`Read Binary File: File size ${fileData.length} exceeds limit ${maxSize}`);
         }
         
-        // Convert to base64 for JSON transmission
-        const base64 = btoa(String.fromCharCode(...fileData));
+        // The file is stored with the execution and passed on by reference instead of inline base64
+        const fileName = sanitizedPath.split('/').pop() || 'file';
+        const reference = await binary!.write(fileData, fileName);
         
         const inputObj = extractInputObject(input);
         return {
-          content: base64,
+          ...inputObj,
+          binary: reference,
+          fileName: reference.fileName,
+          mimeType: reference.mimeType,
           size: fileData.length,
           path: sanitizedPath,
-          encoding: 'base64',
-          ...inputObj
         };
       } catch (error) {
         if (error instanceof Deno.errors.NotFound) {
@@ -4684,12 +5331,14 @@ async function executeNode(
       // Write Binary File: Write file to path
       const filePath = getStringProperty(config, 'filePath', '');
       const content = getStringProperty(config, 'content', '');
+      // Without base64 content, the file passed in by reference (e.g. from Read Binary File) is written
+      const inputBinary = extractInputObject(input).binary;
       
       if (!filePath || filePath.trim() === '') {
         throw new Error('Write Binary File: File path is required');
       }
       
-      if (!content || content.trim() === '') {
+      if ((!content || content.trim() === '') && !isBinaryReference(inputBinary)) {
         throw new Error('Write Binary File: Content is required');
       }
       
@@ -4737,17 +5386,22 @@ async function executeNode(
           }
         }
         
-        // Decode base64 content
-        let binaryString: string;
-        try {
-          binaryString = atob(content);
-        } catch (decodeError) {
-          throw new Error(`Invalid base64 content: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`);
-        }
-        
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
+        let bytes: Uint8Array;
+        if (content && content.trim() !== '') {
+          // Decode base64 content
+          let binaryString: string;
+          try {
+            binaryString = atob(content);
+          } catch (decodeError) {
+            throw new Error(`Invalid base64 content: ${decodeError instanceof Error ? decodeError.message : String(decodeError)}`);
+          }
+          
+          bytes = new Uint8Array(binaryString.length);
+          for (let i = 0; i < binaryString.length; i++) {
+            bytes[i] = binaryString.charCodeAt(i);
+          }
+        } else {
+          bytes = await binary!.read(inputBinary as BinaryReference);
         }
         
         // Write file
@@ -4795,18 +5449,17 @@ async function executeNode(
           }
         }
         
-        // Also include the content as base64 in output for downstream nodes
-        // This allows Read Binary File to use it directly if filesystem access fails
-        const contentBase64 = btoa(String.fromCharCode(...bytes));
+        // Also store the file with the execution for downstream nodes
+        // This allows Read Binary File to use it if filesystem access fails (/tmp is not shared between runs)
+        const reference = await binary!.write(bytes, sanitizedPath.split('/').pop() || 'file');
         
         const inputObj = extractInputObject(input);
         return {
+          ...inputObj,
           success: true,
           path: sanitizedPath,
           size: bytes.length,
-          content: contentBase64, // Include content for downstream nodes
-          encoding: 'base64',
-          ...inputObj
+          binary: reference,
         };
       } catch (error) {
         throw new Error(`Write Binary File: Failed to write file. ${error instanceof Error ? error.message : String(error)}`);
@@ -5041,96 +5694,6 @@ async function executeNode(
       throw new Error('SFTP: SFTP node requires SSH/SFTP client library. For Edge Functions, consider using external SFTP service API.');
     }
 
-    case "google_drive": {
-      // Google Drive: Read/write/list/delete files
-      const accessToken = getStringProperty(config, 'accessToken', '');
-      const operation = getStringProperty(config, 'operation', 'read');
-      const fileId = getStringProperty(config, 'fileId', '');
-      const fileName = getStringProperty(config, 'fileName', '');
-      const content = getStringProperty(config, 'content', '');
-      const folderId = getStringProperty(config, 'folderId', '');
-      
-      if (!accessToken) {
-        throw new Error('Google Drive: Access Token is required');
-      }
-
-      try {
-        if (operation === 'read') {
-          if (!fileId) throw new Error('Google Drive: File ID is required for read operation');
-          
-          const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            },
-          });
-
-          if (!response.ok) {
-            throw new Error(`Google Drive API error: ${response.status} - ${await response.text()}`);
-          }
-
-          const data = await response.arrayBuffer();
-          const base64 = btoa(String.fromCharCode(...new Uint8Array(data)));
-          return { content: base64, size: data.byteLength, fileId };
-        } else if (operation === 'upload') {
-          if (!fileName || !content) {
-            throw new Error('Google Drive: File Name and Content are required for upload operation');
-          }
-
-          // Upload file metadata first, then content
-          const metadataResponse = await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-              'Content-Type': 'multipart/related; boundary=foo_bar_baz',
-            },
-            body: `--foo_bar_baz\nContent-Type: application/json; charset=UTF-8\n\n${JSON.stringify({ name: fileName, parents: folderId ? [folderId] : [] })}\n--foo_bar_baz\nContent-Type: text/plain\n\n${content}\n--foo_bar_baz--`,
-          });
-
-          if (!metadataResponse.ok) {
-            throw new Error(`Google Drive Upload failed: ${metadataResponse.status} - ${await metadataResponse.text()}`);
-          }
-
-          const fileData = await metadataResponse.json();
-          return { success: true, fileId: fileData.id, fileName };
-        } else if (operation === 'list') {
-          const query = folderId ? `'${folderId}' in parents` : '';
-          const url = `https://www.googleapis.com/drive/v3/files?${query ? `q=${encodeURIComponent(query)}&` : ''}fields=files(id,name,mimeType,size)`;
-          
-          const response = await fetch(url, {
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            },
-          });
-
-          if (!response.ok) {
-            throw new Error(`Google Drive List failed: ${response.status} - ${await response.text()}`);
-          }
-
-          const data = await response.json();
-          return { files: data.files || [], count: data.files?.length || 0 };
-        } else if (operation === 'delete') {
-          if (!fileId) throw new Error('Google Drive: File ID is required for delete operation');
-          
-          const response = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}`, {
-            method: 'DELETE',
-            headers: {
-              'Authorization': `Bearer ${accessToken}`,
-            },
-          });
-
-          if (!response.ok && response.status !== 204) {
-            throw new Error(`Google Drive Delete failed: ${response.status} - ${await response.text()}`);
-          }
-
-          return { success: true, fileId, deleted: true };
-        } else {
-          throw new Error(`Google Drive: Unknown operation: ${operation}`);
-        }
-      } catch (error) {
-        throw new Error(`Google Drive: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
-
     case "dropbox": {
       // Dropbox: Read/write/list/delete files
       const accessToken = getStringProperty(config, 'accessToken', '');
@@ -5522,7 +6085,7 @@ async function executeNode(
             throw new Error('Vector Store: Supabase configuration not available');
           }
           
-          const supabaseClient = createClient(supabaseUrl, supabaseKey);
+          const supabaseClient = createClient(supabaseUrl, supabaseKey, { global: { fetch } });
           
           if (operation === 'upsert') {
             const vectorsStr = getStringProperty(config, 'vectors', '[]');
@@ -6112,7 +6675,9 @@ async function executeGeminiNode(
   config: Record<string, unknown>,
   input: unknown,
   apiKey: string,
-  conversationHistory?: Array<{ role: string; content: string }>
+  conversationHistory?: Array<{ role: string; content: string }>,
+  // The node's fetch (cancellable, traced)
+  fetch: typeof globalThis.fetch = globalThis.fetch
 ): Promise<unknown> {
   const model = (config.model as string) || "gemini-2.5-flash";
   const prompt = (config.prompt as string) || "You are a helpful assistant.";
@@ -6182,22 +6747,17 @@ async function executeGeminiNode(
 }
 
 /**
- * Safely parses a JSON string if the value is a string that looks like JSON.
- * Returns the parsed object if successful, otherwise returns the original value.
+ * Expression variables for a node's input: `input` and, as bare identifiers, its properties
  */
-function tryParseJson(value: unknown): unknown {
-  if (typeof value === "string" && value.trim().startsWith("{")) {
-    try {
-      return JSON.parse(value);
-    } catch (e) {
-      // If parsing fails, return the original string
-      return value;
-    }
-  }
-  return value;
+function inputContext(input: unknown, variables: Record<string, unknown> = {}): ExpressionContext {
+  return { variables: { ...variables, input }, implicit: input };
 }
 
-function replaceTemplates(template: unknown, input: unknown): string {
+/**
+ * Replaces every {{ expression }} in the template with its value (see expressions.ts).
+ * Templates whose value is undefined, or that do not parse, are left unchanged.
+ */
+function replaceTemplates(template: unknown, input: unknown, variables: Record<string, unknown> = {}): string {
   // Handle non-string values safely
   if (template === null || template === undefined) {
     return "";
@@ -6211,247 +6771,68 @@ function replaceTemplates(template: unknown, input: unknown): string {
   console.log(`[TEMPLATE] Replacing templates in: "${templateStr}"`);
   console.log(`[TEMPLATE] Input:`, JSON.stringify(input));
 
-  // First replace {{input.property}} patterns
-  let result = templateStr.replace(/\{\{input\.([\w.]+)\}\}/g, (match, path) => {
-    console.log(`[TEMPLATE] Replacing ${match} with path: ${path}`);
-
-    if (input && typeof input === "object" && input !== null) {
-      const inputObj = input as Record<string, unknown>;
-      const keys = path.split('.');
-      let value: unknown = inputObj;
-      let found = true;
-
-      for (const key of keys) {
-        // Always try to parse JSON strings first before accessing properties
-        value = tryParseJson(value);
-        
-        if (value && typeof value === "object" && value !== null) {
-          if (key in value) {
-            value = (value as Record<string, unknown>)[key];
-          } else {
-            console.log(`[TEMPLATE] Key "${key}" not found in object:`, Object.keys(value));
-            found = false;
-            break;
-          }
-        } else {
-          console.log(`[TEMPLATE] Value is not an object after parsing. Type: ${typeof value}, Value:`, value);
-          found = false;
-          break;
-        }
-      }
-
-      // Special handling for executed_at: fallback to _timestamp if not found
-      if (!found && path === "executed_at") {
-        const timestampValue = inputObj._timestamp;
-        if (timestampValue !== undefined) {
-          console.log(`[TEMPLATE] Using _timestamp fallback for executed_at:`, timestampValue);
-          value = timestampValue;
-          found = true;
-        }
-      }
-
-      if (!found) {
-        console.log(`[TEMPLATE] Failed to find key in path "${path}"`);
-        return match; // Return original if not found
-      }
-
-      console.log(`[TEMPLATE] Extracted value for "${path}":`, value);
-
-      // Return the value as string
-      if (typeof value === "string") {
-        return value;
-      } else if (value === null || value === undefined) {
-        return String(value);
-      } else if (typeof value === "object") {
-        // For objects and arrays, use JSON.stringify
-        return JSON.stringify(value);
-      } else {
-        return String(value);
-      }
-    }
-
-    return match; // Return original if input is not an object
-  });
-
-  // Then replace {{property}} patterns (direct property access without input. prefix)
-  result = result.replace(/\{\{([\w.]+)\}\}/g, (match, path) => {
-    // Skip if already processed as {{input.property}}
-    if (match.includes('input.')) {
+  const result = templateStr.replace(/\{\{([\s\S]+?)\}\}/g, (match, expression: string) => {
+    let value: unknown;
+    try {
+      value = evaluateExpression(expression, inputContext(input, variables));
+    } catch (error) {
+      console.warn(`[TEMPLATE] Leaving ${match} unchanged:`, error instanceof Error ? error.message : error);
       return match;
     }
 
-    console.log(`[TEMPLATE] Replacing direct property ${match} with path: ${path}`);
-
-    if (input && typeof input === "object" && input !== null) {
-      const inputObj = input as Record<string, unknown>;
-      const keys = path.split('.');
-      let value: unknown = inputObj;
-      let found = true;
-
-      for (const key of keys) {
-        // Always try to parse JSON strings first before accessing properties
-        value = tryParseJson(value);
-        
-        if (value && typeof value === "object" && value !== null) {
-          if (key in value) {
-            value = (value as Record<string, unknown>)[key];
-          } else {
-            console.log(`[TEMPLATE] Key "${key}" not found in object:`, Object.keys(value));
-            found = false;
-            break;
-          }
-        } else {
-          console.log(`[TEMPLATE] Value is not an object after parsing. Type: ${typeof value}, Value:`, value);
-          found = false;
-          break;
-        }
-      }
-
-      if (!found) {
-        console.log(`[TEMPLATE] Failed to find direct property "${path}"`);
-        return match; // Return original if not found
-      }
-
-      console.log(`[TEMPLATE] Extracted direct property value for "${path}":`, value);
-
-      // Return the value as string
-      if (typeof value === "string") {
-        return value;
-      } else if (value === null || value === undefined) {
-        return String(value);
-      } else if (typeof value === "object") {
-        return JSON.stringify(value);
-      } else {
-        return String(value);
-      }
+    // Special handling for executed_at: fallback to _timestamp if not found
+    if (value === undefined && expression.trim() === "input.executed_at") {
+      value = readProperty(input, "_timestamp");
     }
 
-    return match; // Return original if input is not an object
-  });
+    if (value === undefined) {
+      console.log(`[TEMPLATE] No value for ${match}`);
+      return match; // Return original if not found
+    }
 
-  // Finally replace {{input}} pattern
-  result = result.replace(/\{\{input\}\}/g, () => {
-    return typeof input === "string" ? input : JSON.stringify(input);
+    return formatExpressionValue(value);
   });
 
   console.log(`[TEMPLATE] Final result: "${result}"`);
   return result;
 }
 
-function extractValue(expression: string, input: unknown): unknown {
+/**
+ * A config value for nodes that pass data on: a single {{expression}} keeps its type
+ * (number, list, object), other strings are templates
+ */
+function resolveTypedValue(value: unknown, input: unknown, variables: Record<string, unknown> = {}): unknown {
+  if (typeof value !== "string") return value;
+  const single = value.match(/^\s*\{\{((?:(?!\}\})[\s\S])+)\}\}\s*$/);
+  return single ? extractValue(single[1], input, variables) : replaceTemplates(value, input, variables);
+}
+
+function extractValue(expression: string, input: unknown, variables: Record<string, unknown> = {}): unknown {
   if (!expression) return input;
 
-  // Handle {{input}} and {{input.field}} patterns
-  const cleanExpr = expression.replace(/^\$\.?/, "").replace(/^input\.?/, "");
+  // "$.path" is accepted as an alias for "input.path"
+  const cleanExpr = expression.trim().replace(/^\$(\.|$)/, "");
 
   if (!cleanExpr) return input;
 
-  const parts = cleanExpr.split(".");
-  let result: unknown = input;
-
-  for (const part of parts) {
-    // Check if result is a JSON string and parse it first
-    result = tryParseJson(result);
-
-    if (result && typeof result === "object") {
-      // Handle array indexing like items[0]
-      const arrayMatch = part.match(/^(\w+)\[(\d+)\]$/);
-      if (arrayMatch) {
-        const [, key, index] = arrayMatch;
-        const arr = (result as Record<string, unknown>)[key];
-        if (Array.isArray(arr)) {
-          result = arr[parseInt(index, 10)];
-        } else {
-          result = undefined;
-        }
-      } else {
-        result = (result as Record<string, unknown>)[part];
-      }
-    } else {
-      return undefined;
-    }
-  }
-
-  return result;
+  return evaluateExpression(cleanExpr, inputContext(input, variables));
 }
 
-function evaluateCondition(condition: string, input: unknown): boolean {
-  try {
-    if (!condition || !condition.trim()) {
-      console.error("Empty condition provided");
-      return false;
-    }
-
-    console.log(`[CONDITION] Starting evaluation`);
-    console.log(`[CONDITION] Original condition: "${condition}"`);
-    console.log(`[CONDITION] Input:`, JSON.stringify(input));
-
-    // First, replace template variables with actual values
-    // IMPORTANT: Replace {{input.property}} FIRST, then {{input}}
-    let sanitized = condition.trim();
-
-    // Replace {{input.property}} with actual values FIRST
-    sanitized = sanitized.replace(/\{\{input\.([\w.]+)\}\}/g, (match, path) => {
-      console.log(`[CONDITION] Replacing ${match} with path: ${path}`);
-      if (input && typeof input === "object" && input !== null) {
-        const inputObj = input as Record<string, unknown>;
-        const keys = path.split('.');
-        let value: unknown = inputObj;
-
-        for (const key of keys) {
-          // Always try to parse JSON strings first before accessing properties
-          value = tryParseJson(value);
-
-          if (value && typeof value === "object" && value !== null && key in value) {
-            value = (value as Record<string, unknown>)[key];
-          } else {
-            console.log(`[CONDITION] Failed to find key "${key}" in path "${path}"`);
-            console.log(`[CONDITION] Current value:`, value, `(type: ${typeof value})`);
-            return "undefined";
-          }
-        }
-
-        console.log(`[CONDITION] Extracted value for "${path}":`, value, `(type: ${typeof value})`);
-
-        // Return properly formatted value for JavaScript evaluation
-        if (typeof value === "string") {
-          return `"${value.replace(/"/g, '\\"')}"`;
-        } else if (value === null) {
-          return "null";
-        } else if (value === undefined) {
-          return "undefined";
-        } else if (typeof value === "boolean") {
-          return String(value);
-        } else {
-          return String(value);
-        }
-      }
-      console.log(`[CONDITION] Input is not an object, returning undefined`);
-      return "undefined";
-    });
-
-    // Then replace {{input}} with the full input object (only if not already replaced)
-    sanitized = sanitized.replace(/\{\{input\}\}/g, () => {
-      return JSON.stringify(input);
-    });
-
-    console.log(`[CONDITION] Sanitized condition: "${sanitized}"`);
+function evaluateCondition(condition: string, input: unknown, variables: Record<string, unknown> = {}): boolean {
+  if (!condition || !condition.trim()) {
+    console.error("Empty condition provided");
+    return false;
+  }
 
-    // Evaluate the condition
-    const fn = new Function(`return ${sanitized};`);
-    const result = fn();
-    const boolResult = Boolean(result);
+  console.log(`[CONDITION] Evaluating "${condition}" with input:`, JSON.stringify(input));
 
-    console.log(`[CONDITION] Evaluation result: ${result} -> ${boolResult}`);
-    return boolResult;
+  let result: unknown;
+  try {
+    result = evaluateExpression(condition, inputContext(input, variables));
   } catch (error) {
-    console.error("[CONDITION] Evaluation error:", error);
-    console.error("[CONDITION] Condition was:", condition);
-    console.error("[CONDITION] Input was:", JSON.stringify(input));
-    if (error instanceof Error) {
-      console.error("[CONDITION] Error message:", error.message);
-      console.error("[CONDITION] Error stack:", error.stack);
-    }
-    return false;
+    throw new Error(`Invalid condition: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  console.log(`[CONDITION] Evaluation result: ${JSON.stringify(result)} -> ${Boolean(result)}`);
+  return Boolean(result);
 }
@@ -0,0 +1,37 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { countItems, executePerItem, getItemList, toItems } from "./items.ts";
+
+Deno.test("arrays and wrapped records are lists of items, other values a single item", () => {
+  assertEquals(countItems([1, 2]), 2);
+  assertEquals(countItems({ items: [{ id: 1 }, { id: 2 }, { id: 3 }] }), 3);
+  assertEquals(countItems({ data: [{ id: 1 }], total: 1 }), 1);
+  assertEquals(countItems({ name: "John" }), 1);
+  assertEquals(countItems(null), 0);
+});
+
+Deno.test("a field holding values other than records is not a list of items", () => {
+  assertEquals(getItemList({ items: ["a", "b"] }), null);
+});
+
+Deno.test("items are paired with the index of the input item", () => {
+  assertEquals(toItems([{ id: 1 }, { id: 2 }]), [{ json: { id: 1 }, pairedItem: 0 }, { json: { id: 2 }, pairedItem: 1 }]);
+});
+
+Deno.test("a per-item node runs once per item and keeps the order", async () => {
+  const output = await executePerItem({ items: [{ n: 1 }, { n: 2 }] }, (item, index) =>
+    Promise.resolve({ doubled: (item as { n: number }).n * 2, index })
+  );
+  assertEquals(output, [{ doubled: 2, index: 0 }, { doubled: 4, index: 1 }]);
+});
+
+Deno.test("a per-item node gets a single value unchanged", async () => {
+  assertEquals(await executePerItem({ n: 1 }, item => Promise.resolve(item)), { n: 1 });
+});
+
+Deno.test("a failing item is named in the error", async () => {
+  await assertRejects(
+    () => executePerItem([{ n: 1 }, { n: 2 }], (_item, index) => index === 1 ? Promise.reject(new Error("bad")) : Promise.resolve(1)),
+    Error,
+    "Item 1: bad"
+  );
+});
@@ -0,0 +1,134 @@
+/**
+ * Item-based data model for the workflow engine
+ *
+ * Every value that flows between nodes is treated as a list of items:
+ * - An array output is a list with one item per element
+ * - A list wrapped by a list node or integration ({ items: [...] }, { data: [...] } with
+ *   records inside) is a list with one item per record
+ * - Any other output is a list with a single item
+ *
+ * Nodes listed in PER_ITEM_NODE_TYPES are executed once per item by the engine,
+ * so they never need to look for the array inside their input themselves.
+ * All other nodes receive the whole list (an array when there is more than one item).
+ */
+
+export interface WorkflowItem {
+  json: unknown;
+  // Index of the input item this item was produced from
+  pairedItem?: number;
+}
+
+/**
+ * Node types that operate on a single record and run once per incoming item
+ */
+export const PER_ITEM_NODE_TYPES = new Set<string>([
+  "set",
+  "edit_fields",
+  "rename_keys",
+  "set_variable",
+  "static_data",
+  "text_formatter",
+  "json_parser",
+  "date_time",
+  "math",
+  "crypto",
+  "http_request",
+  "http_post",
+  "graphql",
+  "email_resend",
+  "slack_message",
+  "slack_webhook",
+  "discord_webhook",
+  "microsoft_teams",
+  "telegram",
+  "whatsapp_cloud",
+  "twilio",
+]);
+
+// Fields list nodes (filter, sort, limit...) and integrations wrap their records in
+const ITEM_LIST_FIELDS = ["items", "data"];
+
+export function isPerItemNode(type: string): boolean {
+  return PER_ITEM_NODE_TYPES.has(type);
+}
+
+function isRecord(value: unknown): boolean {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * The list of items a value holds: the value itself when it is an array, or the records it
+ * wraps in `items` or `data`. Null for a single item.
+ */
+export function getItemList(value: unknown): unknown[] | null {
+  if (Array.isArray(value)) {
+    return value;
+  }
+  if (!isRecord(value)) {
+    return null;
+  }
+  const valueObj = value as Record<string, unknown>;
+  const field = ITEM_LIST_FIELDS.find(key => Array.isArray(valueObj[key]) && (valueObj[key] as unknown[]).every(isRecord));
+  return field ? valueObj[field] as unknown[] : null;
+}
+
+/**
+ * Converts a node output (or workflow input) into a list of items
+ */
+export function toItems(value: unknown): WorkflowItem[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const list = getItemList(value);
+  if (list) {
+    return list.map((json, index) => ({ json, pairedItem: index }));
+  }
+  return [{ json: value, pairedItem: 0 }];
+}
+
+/**
+ * Converts a list of items back into the value handed to a node.
+ * A list that came from an array stays an array, even when it holds a single item,
+ * so list-level nodes (filter, aggregate, sort...) keep receiving arrays.
+ */
+export function fromItems(items: WorkflowItem[], asList: boolean): unknown {
+  if (asList) {
+    return items.map(item => item.json);
+  }
+  return items.length > 0 ? items[0].json : undefined;
+}
+
+/**
+ * Counts the items represented by a node input or output
+ */
+export function countItems(value: unknown): number {
+  return toItems(value).length;
+}
+
+/**
+ * Runs a per-item node once for every item of its input.
+ * A list input (an array or wrapped records) produces an array output (one result per item,
+ * in order); a single value produces the single result unchanged.
+ */
+export async function executePerItem(
+  input: unknown,
+  execute: (itemInput: unknown, index: number) => Promise<unknown>
+): Promise<unknown> {
+  if (!getItemList(input)) {
+    return execute(input, 0);
+  }
+
+  const items = toItems(input);
+  const results: WorkflowItem[] = [];
+  for (const item of items) {
+    try {
+      const output = await execute(item.json, item.pairedItem ?? results.length);
+      results.push({ json: output, pairedItem: item.pairedItem });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Item ${item.pairedItem}: ${message}`);
+    }
+  }
+
+  return fromItems(results, true);
+}
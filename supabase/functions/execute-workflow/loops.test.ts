@@ -0,0 +1,29 @@
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createBatchesOutput, createLoopOutput } from "./loops.ts";
+
+const range = (length: number) => Array.from({ length }, (_, i) => ({ id: i }));
+
+Deno.test("loop output holds at most maxIterations iterations", () => {
+  const output = createLoopOutput(range(20), 5, {});
+  assertEquals((output.items as unknown[]).length, 5);
+  assertEquals(output.count, 5);
+  assertEquals(output.total, 20);
+});
+
+Deno.test("an items array in the loop input does not replace the capped iterations", () => {
+  const input = { items: range(20), source: "sheet" };
+  const output = createLoopOutput(input.items, 5, input);
+  assertEquals((output.items as unknown[]).length, 5);
+  assertEquals((output.items as unknown[])[4], { item: { id: 4 }, index: 4, total: 20 });
+  assertEquals(output.source, "sheet");
+});
+
+Deno.test("a negative maxIterations runs no iteration", () => {
+  assertEquals(createLoopOutput(range(3), -1, {}).items, []);
+});
+
+Deno.test("a batches field in the input does not replace the batches", () => {
+  const output = createBatchesOutput(range(5), 2, { batches: "ignored" });
+  assertEquals(output.batches, [[{ id: 0 }, { id: 1 }], [{ id: 2 }, { id: 3 }], [{ id: 4 }]]);
+  assertEquals(output.batchCount, 3);
+});
@@ -0,0 +1,143 @@
+/**
+ * Graph helpers for Loop and Split In Batches nodes
+ *
+ * A loop node has two output handles:
+ * - "each": the sub-graph connected here runs once per element (or per batch)
+ * - "done": receives the collected results after the last iteration
+ *
+ * Edges going from a body node back into its loop node only close the loop visually;
+ * they are ignored when ordering and executing the graph.
+ */
+
+import type { WorkflowEdge, WorkflowNode } from "./types.ts";
+
+export const LOOP_NODE_TYPES = new Set<string>(["loop", "split_in_batches"]);
+
+export const LOOP_EACH_HANDLE = "each";
+export const LOOP_DONE_HANDLE = "done";
+
+export function isLoopNode(node: WorkflowNode | undefined): boolean {
+  return !!node && LOOP_NODE_TYPES.has(node.data.type);
+}
+
+/**
+ * Returns true when the loop node has its "each" handle connected,
+ * i.e. the engine must run a sub-graph per iteration
+ */
+export function hasLoopBody(loopId: string, edges: WorkflowEdge[]): boolean {
+  return edges.some(e => e.source === loopId && e.sourceHandle === LOOP_EACH_HANDLE);
+}
+
+/**
+ * Collects the ids of all nodes reachable from the loop's "each" handle.
+ * Traversal stops at the loop node itself, so loop-back edges do not pull
+ * the rest of the graph into the body.
+ */
+export function getLoopBody(loopId: string, edges: WorkflowEdge[]): Set<string> {
+  const body = new Set<string>();
+  const queue = edges
+    .filter(e => e.source === loopId && e.sourceHandle === LOOP_EACH_HANDLE)
+    .map(e => e.target);
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (nodeId === loopId || body.has(nodeId)) continue;
+    body.add(nodeId);
+    edges.filter(e => e.source === nodeId).forEach(e => queue.push(e.target));
+  }
+
+  return body;
+}
+
+/**
+ * Body of a loop without the bodies of loops nested inside it,
+ * which are executed by their own loop node
+ */
+export function getDirectLoopBody(loopId: string, nodes: WorkflowNode[], edges: WorkflowEdge[]): Set<string> {
+  const body = getLoopBody(loopId, edges);
+  nodes
+    .filter(n => body.has(n.id) && isLoopNode(n) && hasLoopBody(n.id, edges))
+    .forEach(nested => getLoopBody(nested.id, edges).forEach(id => body.delete(id)));
+  return body;
+}
+
+/**
+ * Ids of every node that belongs to some loop body
+ * (these are never executed directly by the main execution loop)
+ */
+export function getAllLoopBodyNodes(nodes: WorkflowNode[], edges: WorkflowEdge[]): Set<string> {
+  const bodyNodes = new Set<string>();
+  nodes
+    .filter(n => isLoopNode(n) && hasLoopBody(n.id, edges))
+    .forEach(loopNode => getLoopBody(loopNode.id, edges).forEach(id => bodyNodes.add(id)));
+  return bodyNodes;
+}
+
+/**
+ * Output of a Loop node: one iteration per element, at most `maxIterations`.
+ * The input's fields are kept but never replace the iterations, which the engine runs the body for
+ * (an `items` array in the input would otherwise bypass the cap).
+ */
+export function createLoopOutput(
+  items: unknown[],
+  maxIterations: number,
+  inputFields: Record<string, unknown>
+): Record<string, unknown> {
+  const iterations = items
+    .slice(0, Math.max(0, maxIterations))
+    .map((item, index) => ({ item, index, total: items.length }));
+  return {
+    ...inputFields,
+    items: iterations,
+    count: iterations.length,
+    total: items.length,
+  };
+}
+
+/**
+ * Output of a Split In Batches node: the elements in batches of `batchSize`, the input's fields
+ * kept without replacing the batches
+ */
+export function createBatchesOutput(
+  array: unknown[],
+  batchSize: number,
+  inputFields: Record<string, unknown>
+): Record<string, unknown> {
+  const batches: unknown[][] = [];
+  for (let i = 0; i < array.length; i += batchSize) {
+    batches.push(array.slice(i, i + batchSize));
+  }
+  return {
+    ...inputFields,
+    batches,
+    batchCount: batches.length,
+    totalItems: array.length,
+    batchSize,
+  };
+}
+
+/**
+ * Removes edges that lead from a loop body back into its loop node
+ */
+export function removeLoopBackEdges(nodes: WorkflowNode[], edges: WorkflowEdge[]): WorkflowEdge[] {
+  const loopBackEdges = new Set<string>();
+
+  nodes.filter(isLoopNode).forEach(loopNode => {
+    const body = getLoopBody(loopNode.id, edges);
+    edges
+      .filter(e => e.target === loopNode.id && body.has(e.source))
+      .forEach(e => loopBackEdges.add(e.id));
+  });
+
+  return edges.filter(e => !loopBackEdges.has(e.id));
+}
+
+/**
+ * Returns the body nodes whose output is an iteration result:
+ * nodes without outgoing edges inside the body (or that feed back into the loop)
+ */
+export function getLoopBodyOutputs(loopId: string, body: Set<string>, edges: WorkflowEdge[]): string[] {
+  return [...body].filter(nodeId =>
+    !edges.some(e => e.source === nodeId && body.has(e.target) && e.target !== loopId)
+  );
+}
@@ -0,0 +1,124 @@
+/**
+ * Per-node execution settings: retries, backoff, timeout and on-error behaviour
+ *
+ * The settings live in NodeData.config next to the node's own parameters:
+ * - maxRetries: retries after a failed attempt (0 = no retry)
+ * - retryBackoff: "fixed" or "exponential" (doubling, capped at 30s like fetchWithRetry)
+ * - retryInterval: delay before the first retry in ms
+ * - nodeTimeout: maximum duration of one attempt in ms (0 = no limit)
+ * - onError: "stop" the workflow, "continue" with the error as output,
+ *   or route the error to the node's "error" output handle ("error_output")
+ *
+ * Every attempt gets its own AbortSignal, chained to the execution's: a timed out attempt is
+ * aborted before the next one starts. Cancelling the execution is never retried.
+ */
+
+import { CancelledError, raceCancellation } from "./cancellation.ts";
+
+export type OnErrorBehaviour = "stop" | "continue" | "error_output";
+
+export interface NodeExecutionSettings {
+  maxRetries: number;
+  retryBackoff: "fixed" | "exponential";
+  retryInterval: number;
+  nodeTimeout: number;
+  onError: OnErrorBehaviour;
+}
+
+export const ERROR_OUTPUT_HANDLE = "error";
+
+const MAX_RETRIES = 10;
+const MAX_RETRY_DELAY = 30000;
+
+function toNonNegativeNumber(value: unknown, defaultValue: number): number {
+  const parsed = typeof value === "number" ? value : parseFloat(String(value ?? ""));
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : defaultValue;
+}
+
+export function getNodeExecutionSettings(config: Record<string, unknown> | undefined): NodeExecutionSettings {
+  const cfg = config || {};
+  const onError = cfg.onError === "continue" || cfg.onError === "error_output" ? cfg.onError : "stop";
+
+  return {
+    maxRetries: Math.min(Math.floor(toNonNegativeNumber(cfg.maxRetries, 0)), MAX_RETRIES),
+    retryBackoff: cfg.retryBackoff === "fixed" ? "fixed" : "exponential",
+    retryInterval: toNonNegativeNumber(cfg.retryInterval, 1000),
+    nodeTimeout: toNonNegativeNumber(cfg.nodeTimeout, 0),
+    onError,
+  };
+}
+
+export function hasErrorOutput(config: Record<string, unknown> | undefined): boolean {
+  return getNodeExecutionSettings(config).onError === "error_output";
+}
+
+/**
+ * Runs one attempt with its own AbortSignal, which aborts when `signal` (the execution's) does
+ * or when the attempt takes longer than timeoutMs (0 disables the timeout). Rejects with the
+ * timeout error, or CancelledError, without waiting for the attempt to settle.
+ */
+export async function runWithTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  label: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason ?? new CancelledError());
+  signal?.addEventListener("abort", abort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    if (!timeoutMs) return;
+    timer = setTimeout(() => {
+      const error = new Error(`${label}: timed out after ${timeoutMs}ms`);
+      reject(error);
+      controller.abort(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await raceCancellation(Promise.race([operation(controller.signal), timeout]), signal);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abort);
+  }
+}
+
+/**
+ * Runs one node execution with the node's timeout and retry settings.
+ * Retries wait for the failed attempt to be aborted; a cancelled execution is not retried.
+ */
+export async function runWithNodeSettings<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  settings: NodeExecutionSettings,
+  label: string,
+  signal?: AbortSignal
+): Promise<T> {
+  const backoffMultiplier = settings.retryBackoff === "fixed" ? 1 : 2;
+  let delay = settings.retryInterval;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runWithTimeout(operation, settings.nodeTimeout, label, signal);
+    } catch (error) {
+      if (error instanceof CancelledError || signal?.aborted || attempt >= settings.maxRetries) {
+        throw error;
+      }
+      console.log(`[${label}] Attempt ${attempt + 1} failed, retrying in ${delay}ms (attempt ${attempt + 1}/${settings.maxRetries})...`);
+      await raceCancellation(new Promise(resolve => setTimeout(resolve, delay)), signal);
+      delay = Math.min(delay * backoffMultiplier, MAX_RETRY_DELAY);
+    }
+  }
+}
+
+/**
+ * Output produced by a failed node when it continues or routes to its error output
+ */
+export function createErrorOutput(error: unknown, input: unknown): Record<string, unknown> {
+  const errorObj = error instanceof Error ? error : new Error(String(error));
+  return {
+    error: errorObj.message,
+    input,
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Partial execution ("execute up to here")
+ *
+ * Only the target node and its ancestors run; the rest of the graph is ignored.
+ * A target inside a loop body runs its loop node, which executes the whole body.
+ */
+
+import type { WorkflowEdge } from "./types.ts";
+
+/**
+ * Returns the target node and every node it depends on through the edges
+ */
+export function getPartialExecutionNodes(targetNodeId: string, edges: WorkflowEdge[]): Set<string> {
+  const nodes = new Set<string>([targetNodeId]);
+  const queue = [targetNodeId];
+
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const edge of edges) {
+      if (edge.target === nodeId && !nodes.has(edge.source)) {
+        nodes.add(edge.source);
+        queue.push(edge.source);
+      }
+    }
+  }
+
+  return nodes;
+}
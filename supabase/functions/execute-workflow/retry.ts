@@ -0,0 +1,98 @@
+/**
+ * Retry of a failed execution from the failed node
+ *
+ * The retried run reuses what the original run already did: every node that finished
+ * (successfully or skipped) keeps its output and is not run again. The failed node and
+ * everything that did not run are executed.
+ * Outputs come from the run's unmasked results (see ExecutionResults in _shared/binary-data.ts);
+ * the outputs in executions.logs have their secrets masked and are only used for runs that
+ * ended without storing results.
+ */
+
+import { getSwitchRoutedOutputs } from "../_shared/nodes/logic/switch-cases.ts";
+import { hasErrorOutput } from "./node-settings.ts";
+import type { ExecutionLog, WorkflowEdge, WorkflowNode } from "./types.ts";
+
+/**
+ * Workflow definition stored on executions.workflow_snapshot when an execution starts,
+ * so it can be retried with the version it originally ran
+ */
+export interface WorkflowSnapshot {
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
+/**
+ * Engine state rebuilt from the logs of a previous run
+ */
+export interface RestoredState {
+  nodeOutputs: Record<string, unknown>;
+  ifElseResults: Record<string, boolean>;
+  switchResults: Record<string, string[]>;
+  failedNodes: string[];
+  // Logs of the nodes that already finished, keyed by node id
+  nodeLogs: Record<string, ExecutionLog[]>;
+}
+
+/**
+ * Rebuilds the state of the finished nodes from a previous run's logs.
+ * `scheduledIds` are the nodes run by the scheduler (loop body and error handling logs
+ * belong to the scheduled node they were run by). Nodes that no longer exist in `nodes`,
+ * or whose type changed, are run again. `outputs` are the run's unmasked node outputs,
+ * when it stored them.
+ */
+export function restoreStateFromLogs(
+  logs: ExecutionLog[],
+  nodes: WorkflowNode[],
+  scheduledIds: Set<string>,
+  outputs?: Record<string, unknown>
+): RestoredState {
+  const state: RestoredState = {
+    nodeOutputs: {},
+    ifElseResults: {},
+    switchResults: {},
+    failedNodes: [],
+    nodeLogs: {},
+  };
+
+  // A scheduled node's logs are its loop body logs followed by its own log
+  let pending: ExecutionLog[] = [];
+  for (const log of logs) {
+    if (log.errorHandling) continue;
+    if (log.iteration !== undefined || !scheduledIds.has(log.nodeId)) {
+      pending.push(log);
+      continue;
+    }
+
+    const group = [...pending, log].map(l => ({ ...l, reused: true }));
+    pending = [];
+
+    const node = nodes.find(n => n.id === log.nodeId);
+    if (!node || (log.nodeType && node.data.type !== log.nodeType)) continue;
+
+    if (log.status === "skipped") {
+      state.nodeLogs[node.id] = group;
+      continue;
+    }
+    if (log.status !== "success") continue;
+
+    const output = outputs && Object.prototype.hasOwnProperty.call(outputs, node.id) ? outputs[node.id] : log.output;
+    state.nodeLogs[node.id] = group;
+    state.nodeOutputs[node.id] = output;
+
+    const outputObj = output && typeof output === "object" ? output as Record<string, unknown> : null;
+    if (node.data.type === "if_else" && typeof outputObj?.condition === "boolean") {
+      state.ifElseResults[node.id] = outputObj.condition;
+    }
+    const switchOutputs = node.data.type === "switch" ? getSwitchRoutedOutputs(outputObj) : undefined;
+    if (switchOutputs) {
+      state.switchResults[node.id] = switchOutputs;
+    }
+    // A successful log with an error comes from a node that routed its error to the error output
+    if (log.error && hasErrorOutput(node.data.config)) {
+      state.failedNodes.push(node.id);
+    }
+  }
+
+  return state;
+}
@@ -0,0 +1,76 @@
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { runInSandbox, type SandboxConsoleLine, SANDBOX_MEMORY_LIMIT_MB } from "./sandbox.ts";
+
+Deno.test("runs a function body and a function expression with the arguments", async () => {
+  const body = await runInSandbox({ code: "return input.a + 1", args: { input: { a: 1 } }, timeoutMs: 1000 }, "JS");
+  assertEquals(body, { value: 2, form: "body" });
+
+  const expression = await runInSandbox({ code: "(input) => input.a * 2", args: { input: { a: 4 } }, timeoutMs: 1000 }, "JS");
+  assertEquals(expression, { value: 8, form: "expression" });
+});
+
+Deno.test("runs the code once per item", async () => {
+  const { value } = await runInSandbox(
+    { code: "return item * index", args: { items: [1, 2, 3] }, eachItemOf: "items", timeoutMs: 1000 },
+    "JS"
+  );
+  assertEquals(value, [0, 2, 6]);
+});
+
+Deno.test("exposes no host globals", async () => {
+  const { value } = await runInSandbox(
+    { code: "return [typeof Deno, typeof fetch, typeof process, typeof WebAssembly]", args: {}, timeoutMs: 1000 },
+    "JS"
+  );
+  assertEquals(value, ["undefined", "undefined", "undefined", "undefined"]);
+});
+
+Deno.test("timers settle promises", async () => {
+  const { value } = await runInSandbox(
+    { code: "return await new Promise(resolve => setTimeout(() => resolve('done'), 20))", args: {}, timeoutMs: 1000 },
+    "JS"
+  );
+  assertEquals(value, "done");
+});
+
+Deno.test("a synchronous endless loop is stopped at the timeout", async () => {
+  await assertRejects(
+    () => runInSandbox({ code: "while (true) {}", args: {}, timeoutMs: 200 }, "JS"),
+    Error,
+    "JS: Execution exceeded timeout of 200ms"
+  );
+});
+
+Deno.test("allocations past the memory limit fail", async () => {
+  await assertRejects(
+    () => runInSandbox({ code: "const a = []; while (true) a.push('x'.repeat(1e6) + a.length)", args: {}, timeoutMs: 20000 }, "JS"),
+    Error,
+    `JS: Memory limit of ${SANDBOX_MEMORY_LIMIT_MB}MB exceeded`
+  );
+});
+
+Deno.test("cancelling stops a waiting run", async () => {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  await assertRejects(
+    () => runInSandbox(
+      { code: "await new Promise(resolve => setTimeout(resolve, 5000))", args: {}, timeoutMs: 10000, signal: controller.signal },
+      "JS"
+    ),
+    Error,
+    "JS: Execution was cancelled"
+  );
+});
+
+Deno.test("the console is captured when the code fails", async () => {
+  const lines: SandboxConsoleLine[] = [];
+  await assertRejects(
+    () => runInSandbox(
+      { code: "console.log('step', { n: 1 }); throw new Error('boom')", args: {}, timeoutMs: 1000, onConsole: l => lines.push(...l) },
+      "JS"
+    ),
+    Error,
+    "JS: Code execution failed. boom"
+  );
+  assertEquals(lines, [{ level: "log", message: 'step {"n":1}' }]);
+});
@@ -0,0 +1,336 @@
+/**
+ * Sandboxed runtime for user code (javascript, function and function_item nodes)
+ *
+ * User code never runs in the engine's JavaScript runtime, which holds SUPABASE_SERVICE_ROLE_KEY.
+ * It runs in QuickJS, a JavaScript interpreter compiled to WebAssembly, with a fresh instance per run:
+ * - only the ECMAScript built-ins, the node's arguments, `helpers`, a captured `console` and
+ *   `setTimeout`/`clearTimeout`: no env, network, file system or host objects
+ * - a memory limit: the instance's WebAssembly memory cannot grow past it
+ * - a time limit and cancellation, checked by the interpreter while the code runs, so
+ *   synchronous loops are stopped as well
+ * - limits on the size of the data passed in and out
+ */
+
+import {
+  newQuickJSWASMModuleFromVariant,
+  newVariant,
+  type QuickJSContext,
+  type QuickJSHandle,
+  type QuickJSRuntime,
+  type QuickJSWASMModule,
+} from "https://esm.sh/quickjs-emscripten-core@0.31.0";
+// The WebAssembly module is embedded, nothing is loaded from the file system or network
+import quickJSVariant from "https://esm.sh/@jitl/quickjs-singlefile-mjs-release-sync@0.31.0";
+
+// Upper bound for the node's configured timeout
+export const MAX_SANDBOX_TIMEOUT_MS = 60000;
+export const SANDBOX_MEMORY_LIMIT_MB = 64;
+// Limit on the serialized arguments and result
+export const MAX_SANDBOX_DATA_BYTES = 5 * 1024 * 1024;
+const MAX_CONSOLE_LINES = 100;
+const MAX_CONSOLE_LINE_LENGTH = 1000;
+// WebAssembly memory is sized in 64KB pages; QuickJS needs 16MB to start
+const WASM_PAGE_BYTES = 64 * 1024;
+const INITIAL_MEMORY_PAGES = 256;
+
+export interface SandboxConsoleLine {
+  level: "log" | "info" | "warn" | "error" | "debug";
+  message: string;
+}
+
+export interface SandboxRun {
+  code: string;
+  // Argument names and values the code is called with, e.g. { input, data }
+  args: Record<string, unknown>;
+  // Runs the code once per element of this argument, passing the element as \`item\` and its \`index\`
+  eachItemOf?: string;
+  timeoutMs: number;
+  // Receives the captured console output, also when the code fails
+  onConsole?: (lines: SandboxConsoleLine[]) => void;
+  // Stops the code when aborted (e.g. the execution was cancelled)
+  signal?: AbortSignal;
+}
+
+export interface SandboxResult {
+  // Result of the code, or the list of per-item results
+  value: unknown;
+  // "expression" when the code is a function expression, "body" when it is a function body
+  form: "expression" | "body";
+}
+
+/**
+ * Code evaluated in each QuickJS context before the user code. It defines the API the code
+ * can use and `__run`, which compiles and runs it. Timers are kept here and fired by the
+ * engine (`__nextTimer`, `__runTimers`) once no other job is pending.
+ */
+const SANDBOX_SOURCE = `
+const FunctionCtor = Function;
+const AsyncFunctionCtor = Object.getPrototypeOf(async function () {}).constructor;
+// Code written as a function expression is called with the arguments, anything else is a function body
+const FUNCTION_EXPRESSION = /^(\\(|function\\b|async\\b|[A-Za-z_$][\\w$]*\\s*=>)/;
+const MAX_CONSOLE_LINES = ${MAX_CONSOLE_LINES};
+const MAX_CONSOLE_LINE_LENGTH = ${MAX_CONSOLE_LINE_LENGTH};
+
+const lines = [];
+const capture = (level) => (...args) => {
+  if (lines.length >= MAX_CONSOLE_LINES) return;
+  const message = args.map(arg => {
+    if (typeof arg === "string") return arg;
+    try { return JSON.stringify(arg); } catch { return String(arg); }
+  }).join(" ");
+  lines.push({ level, message: message.slice(0, MAX_CONSOLE_LINE_LENGTH) });
+};
+const sandboxConsole = Object.freeze({
+  log: capture("log"), info: capture("info"), warn: capture("warn"), error: capture("error"), debug: capture("debug"),
+});
+
+const timers = new Map();
+let lastTimerId = 0;
+globalThis.setTimeout = (callback, delay = 0, ...args) => {
+  const id = ++lastTimerId;
+  timers.set(id, { at: Date.now() + Math.max(0, Number(delay) || 0), callback, args });
+  return id;
+};
+globalThis.clearTimeout = (id) => {
+  timers.delete(id);
+};
+globalThis.__nextTimer = () => {
+  let next = -1;
+  for (const timer of timers.values()) {
+    if (next < 0 || timer.at < next) next = timer.at;
+  }
+  return next < 0 ? -1 : Math.max(0, next - Date.now());
+};
+globalThis.__runTimers = () => {
+  const now = Date.now();
+  const due = [...timers.entries()].filter(([, timer]) => timer.at <= now).sort((a, b) => a[1].at - b[1].at || a[0] - b[0]);
+  for (const [id, timer] of due) {
+    if (!timers.delete(id)) continue;
+    if (typeof timer.callback === "function") timer.callback(...timer.args);
+  }
+};
+globalThis.__console = () => JSON.stringify(lines);
+
+const getPath = (obj, path, defaultValue) => {
+  const value = String(path).split(".").filter(Boolean).reduce((acc, key) => (acc == null ? undefined : acc[key]), obj);
+  return value === undefined ? defaultValue : value;
+};
+const helpers = Object.freeze({
+  get: getPath,
+  isEmpty: (value) => value == null || (typeof value === "object" ? Object.keys(value).length === 0 : String(value).trim() === ""),
+  toNumber: (value, defaultValue = 0) => { const n = Number(value); return Number.isFinite(n) ? n : defaultValue; },
+  sum: (items, path) => items.reduce((acc, item) => acc + (Number(path ? getPath(item, path) : item) || 0), 0),
+  groupBy: (items, path) => items.reduce((acc, item) => {
+    const key = String(getPath(item, path));
+    (acc[key] = acc[key] || []).push(item);
+    return acc;
+  }, {}),
+  unique: (items) => [...new Set(items)],
+  chunk: (items, size) => {
+    const chunks = [];
+    for (let i = 0; i < items.length; i += Math.max(1, size)) chunks.push(items.slice(i, i + Math.max(1, size)));
+    return chunks;
+  },
+  formatDate: (value, locale = "en-US", options = {}) => new Date(value).toLocaleString(locale, options),
+});
+
+const compile = (code, names) => {
+  if (FUNCTION_EXPRESSION.test(code.trim())) {
+    try {
+      return { fn: new FunctionCtor(...names, "return (" + code + ")(" + names.join(", ") + ");"), form: "expression" };
+    } catch {
+      // Not a complete expression (e.g. statements after it), run it as a function body
+    }
+  }
+  return { fn: new AsyncFunctionCtor(...names, code), form: "body" };
+};
+
+globalThis.__run = async (request) => {
+  const { code, args, eachItemOf } = JSON.parse(request);
+  let value;
+  let form;
+  if (eachItemOf) {
+    const names = ["item", "index", ...Object.keys(args), "helpers", "console"];
+    const compiled = compile(code, names);
+    form = compiled.form;
+    value = [];
+    const items = args[eachItemOf];
+    for (let index = 0; index < items.length; index++) {
+      try {
+        value.push(await compiled.fn(items[index], index, ...Object.values(args), helpers, sandboxConsole));
+      } catch (error) {
+        throw new Error("item " + index + ": " + (error instanceof Error ? error.message : String(error)));
+      }
+    }
+  } else {
+    const names = [...Object.keys(args), "helpers", "console"];
+    const compiled = compile(code, names);
+    form = compiled.form;
+    value = await compiled.fn(...Object.values(args), helpers, sandboxConsole);
+  }
+  return JSON.stringify({ value, form });
+};
+`;
+
+// Allocations fail with "out of memory" inside QuickJS once the memory reaches its maximum
+function createQuickJS(): Promise<QuickJSWASMModule> {
+  const wasmMemory = new WebAssembly.Memory({
+    initial: INITIAL_MEMORY_PAGES,
+    maximum: SANDBOX_MEMORY_LIMIT_MB * 1024 * 1024 / WASM_PAGE_BYTES,
+  });
+  return newQuickJSWASMModuleFromVariant(newVariant(quickJSVariant, { wasmMemory }));
+}
+
+// Message of an error thrown inside QuickJS; disposes its handle
+function readError(vm: QuickJSContext, handle: QuickJSHandle): string {
+  const error = vm.dump(handle);
+  handle.dispose();
+  if (error && typeof error === "object" && "message" in error) return String(error.message);
+  return typeof error === "string" ? error : JSON.stringify(error);
+}
+
+// Calls a function defined by SANDBOX_SOURCE with string arguments and returns its result
+function callSandbox(vm: QuickJSContext, name: string, ...args: string[]): QuickJSHandle {
+  const fn = vm.getProp(vm.global, name);
+  const argHandles = args.map(arg => vm.newString(arg));
+  const result = vm.callFunction(fn, vm.undefined, ...argHandles);
+  fn.dispose();
+  argHandles.forEach(handle => handle.dispose());
+  if (result.error) {
+    throw new Error(readError(vm, result.error));
+  }
+  return result.value;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Runs `__run` and the jobs and timers it schedules until its promise settles.
+ * Returns the serialized result.
+ */
+async function runToCompletion(
+  vm: QuickJSContext,
+  runtime: QuickJSRuntime,
+  request: string,
+  deadline: number,
+  signal?: AbortSignal
+): Promise<string> {
+  const promise = callSandbox(vm, "__run", request);
+  try {
+    for (;;) {
+      const jobs = runtime.executePendingJobs();
+      if (jobs.error) {
+        throw new Error(readError(vm, jobs.error));
+      }
+
+      const state = vm.getPromiseState(promise);
+      if (state.type === "fulfilled") {
+        const serialized = vm.getString(state.value);
+        state.value.dispose();
+        return serialized;
+      }
+      if (state.type === "rejected") {
+        throw new Error(readError(vm, state.error));
+      }
+
+      // Pending with no job left: only a timer can settle it
+      const delayHandle = callSandbox(vm, "__nextTimer");
+      const delay = vm.getNumber(delayHandle);
+      delayHandle.dispose();
+      if (delay < 0) {
+        throw new Error("The code returned a promise that never settles");
+      }
+      await sleep(Math.min(delay, Math.max(0, deadline - Date.now())), signal);
+      if (signal?.aborted || Date.now() > deadline) {
+        throw new Error("interrupted");
+      }
+      callSandbox(vm, "__runTimers").dispose();
+    }
+  } finally {
+    promise.dispose();
+  }
+}
+
+function readConsole(vm: QuickJSContext): SandboxConsoleLine[] {
+  try {
+    const handle = callSandbox(vm, "__console");
+    const lines = JSON.parse(vm.getString(handle));
+    handle.dispose();
+    return lines;
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Runs user code in a fresh QuickJS runtime and returns its result.
+ * Errors thrown by the code, timeouts and limit violations reject with a descriptive error.
+ */
+export async function runInSandbox(run: SandboxRun, label: string): Promise<SandboxResult> {
+  const timeoutMs = Math.min(Math.max(1, run.timeoutMs || MAX_SANDBOX_TIMEOUT_MS), MAX_SANDBOX_TIMEOUT_MS);
+  if (run.signal?.aborted) {
+    throw new Error(`${label}: Execution was cancelled`);
+  }
+
+  let serializedArgs: string;
+  try {
+    // Only JSON data crosses into the sandbox
+    serializedArgs = JSON.stringify(run.args) ?? "null";
+  } catch (error) {
+    throw new Error(`${label}: Input cannot be passed to the sandbox. ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (serializedArgs.length > MAX_SANDBOX_DATA_BYTES) {
+    throw new Error(`${label}: Input is larger than the sandbox limit of ${MAX_SANDBOX_DATA_BYTES / 1024 / 1024}MB`);
+  }
+  const request = `{"code":${JSON.stringify(run.code)},"args":${serializedArgs},"eachItemOf":${JSON.stringify(run.eachItemOf ?? null)}}`;
+
+  const runtime = (await createQuickJS()).newRuntime();
+  const deadline = Date.now() + timeoutMs;
+  // Called regularly while the interpreter runs
+  runtime.setInterruptHandler(() => run.signal?.aborted || Date.now() > deadline);
+  const vm = runtime.newContext();
+
+  let serializedResult: string;
+  try {
+    const setup = vm.evalCode(SANDBOX_SOURCE, "sandbox.js");
+    if (setup.error) {
+      throw new Error(readError(vm, setup.error));
+    }
+    setup.value.dispose();
+    serializedResult = await runToCompletion(vm, runtime, request, deadline, run.signal);
+  } catch (error) {
+    if (run.signal?.aborted) {
+      throw new Error(`${label}: Execution was cancelled`);
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`${label}: Execution exceeded timeout of ${timeoutMs}ms`);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.endsWith("out of memory")) {
+      throw new Error(`${label}: Memory limit of ${SANDBOX_MEMORY_LIMIT_MB}MB exceeded`);
+    }
+    throw new Error(`${label}: Code execution failed. ${message}`);
+  } finally {
+    // Lifted to read the console of a run that timed out
+    runtime.removeInterruptHandler();
+    run.onConsole?.(readConsole(vm));
+    vm.dispose();
+    runtime.dispose();
+  }
+
+  if (serializedResult.length > MAX_SANDBOX_DATA_BYTES) {
+    throw new Error(`${label}: Result is larger than the sandbox limit of ${MAX_SANDBOX_DATA_BYTES / 1024 / 1024}MB`);
+  }
+  const { value, form } = JSON.parse(serializedResult) as Partial<SandboxResult>;
+  return { value, form: form ?? "body" };
+}
@@ -0,0 +1,59 @@
+/**
+ * Concurrent scheduler for the workflow graph
+ *
+ * A node becomes ready once all of its dependencies have finished (successfully or skipped).
+ * Ready nodes are started in execution order, with at most `maxConcurrency` nodes in flight.
+ */
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+export const MAX_CONCURRENCY_LIMIT = 20;
+
+/**
+ * Normalizes a configured concurrency cap (workflows.max_concurrency)
+ */
+export function resolveMaxConcurrency(value: unknown): number {
+  const parsed = typeof value === "number" ? value : parseInt(String(value ?? ""), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) {
+    return DEFAULT_MAX_CONCURRENCY;
+  }
+  return Math.min(Math.floor(parsed), MAX_CONCURRENCY_LIMIT);
+}
+
+/**
+ * Runs every node once its dependencies are done.
+ * `shouldStop` is checked before starting new nodes; nodes already running are always awaited.
+ * Nodes whose dependencies never finish (e.g. after a stop) are not started.
+ * `alreadyFinished` lists nodes completed by a previous invocation (resumed executions).
+ */
+export async function runGraph<T extends { id: string }>(
+  order: T[],
+  getDependencies: (node: T) => string[],
+  maxConcurrency: number,
+  run: (node: T) => Promise<void>,
+  shouldStop: () => boolean,
+  alreadyFinished: Iterable<string> = []
+): Promise<void> {
+  const finished = new Set<string>(alreadyFinished);
+  const running = new Map<string, Promise<void>>();
+  const dependencies = new Map(order.map(node => [node.id, getDependencies(node)]));
+
+  while (!shouldStop()) {
+    const ready = order.filter(node =>
+      !finished.has(node.id) &&
+      !running.has(node.id) &&
+      dependencies.get(node.id)!.every(dep => finished.has(dep))
+    );
+
+    for (const node of ready.slice(0, Math.max(0, maxConcurrency - running.size))) {
+      running.set(node.id, run(node).finally(() => {
+        running.delete(node.id);
+        finished.add(node.id);
+      }));
+    }
+
+    if (running.size === 0) break;
+    await Promise.race(running.values());
+  }
+
+  await Promise.allSettled(running.values());
+}
@@ -0,0 +1,72 @@
+/**
+ * Workflow static data
+ *
+ * Key/value store per workflow that survives executions, e.g. the cursor of a polling workflow.
+ * The values are loaded when an execution starts and read by expressions as `$static`; the
+ * Static Data node changes them with update_workflow_static_data, which updates one key
+ * atomically so concurrent executions never lose each other's writes.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export const STATIC_DATA_OPERATIONS = ["set", "delete", "increment", "append", "max", "compare_and_set"] as const;
+
+export type StaticDataOperation = typeof STATIC_DATA_OPERATIONS[number];
+
+export interface StaticDataUpdate {
+  // Stored value after the update (null once deleted)
+  value: unknown;
+  // Whether the stored value changed (false when compare_and_set did not match)
+  updated: boolean;
+}
+
+export interface StaticData {
+  // Current values by key, kept up to date with the updates of this execution
+  values: Record<string, unknown>;
+  update(key: string, operation: StaticDataOperation, value?: unknown, expected?: unknown): Promise<StaticDataUpdate>;
+}
+
+export function isStaticDataOperation(operation: string): operation is StaticDataOperation {
+  return (STATIC_DATA_OPERATIONS as readonly string[]).includes(operation);
+}
+
+export async function loadStaticData(supabase: SupabaseClient, workflowId: string): Promise<StaticData> {
+  const { data, error } = await supabase
+    .from("workflow_static_data")
+    .select("key, value")
+    .eq("workflow_id", workflowId);
+  if (error) {
+    throw new Error(`Failed to load workflow static data: ${error.message}`);
+  }
+
+  const values: Record<string, unknown> = {};
+  for (const row of (data ?? []) as { key: string; value: unknown }[]) {
+    values[row.key] = row.value;
+  }
+
+  return {
+    values,
+    async update(key, operation, value, expected) {
+      const { data: rows, error: updateError } = await supabase.rpc("update_workflow_static_data", {
+        _workflow_id: workflowId,
+        _key: key,
+        _operation: operation,
+        // undefined would drop the argument, JSON null is stored instead
+        _value: value === undefined ? null : value,
+        _expected: expected === undefined ? null : expected,
+      });
+      if (updateError) {
+        throw new Error(`Static Data: failed to update "${key}": ${updateError.message}`);
+      }
+
+      const row = (Array.isArray(rows) ? rows[0] : rows) as StaticDataUpdate | undefined;
+      const result: StaticDataUpdate = { value: row?.value ?? null, updated: row?.updated ?? false };
+      if (operation === "delete") {
+        delete values[key];
+      } else {
+        values[key] = result.value;
+      }
+      return result;
+    },
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * Sub-workflows (Execute Workflow node)
+ *
+ * A workflow declares the inputs it accepts on its Workflow Trigger node: `inputs` maps each
+ * input name to a type ("string", "number", "boolean", "object", "array" or "any"; a trailing
+ * "?" makes it optional). Values mapped by the calling node are converted to those types
+ * before the child execution is created. Workflows without declared inputs accept any input.
+ *
+ * Child executions reference the calling execution (executions.parent_execution_id),
+ * which also bounds how deeply workflows can call each other.
+ */
+
+import type { WorkflowNode } from "./types.ts";
+
+// Maximum number of nested workflow calls (a workflow calling itself counts every level)
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+export type SubWorkflowMode = "wait" | "fire_and_forget";
+
+const INPUT_TYPES = ["string", "number", "boolean", "object", "array", "any"] as const;
+type WorkflowInputType = typeof INPUT_TYPES[number];
+
+interface WorkflowInputDefinition {
+  type: WorkflowInputType;
+  optional: boolean;
+}
+
+export function getSubWorkflowMode(config: Record<string, unknown>): SubWorkflowMode {
+  return config.mode === "fire_and_forget" ? "fire_and_forget" : "wait";
+}
+
+/**
+ * Reads the inputs declared on the workflow's Workflow Trigger node (null = none declared)
+ */
+export function getWorkflowInputSchema(nodes: WorkflowNode[]): Record<string, WorkflowInputDefinition> | null {
+  const trigger = nodes.find(n => n.data.type === "workflow_trigger");
+  let declared = trigger?.data.config.inputs;
+  if (typeof declared === "string") {
+    if (!declared.trim()) return null;
+    try {
+      declared = JSON.parse(declared);
+    } catch {
+      throw new Error("Workflow Trigger: inputs must be a JSON object of input names and types");
+    }
+  }
+  if (!declared || typeof declared !== "object" || Array.isArray(declared)) {
+    return null;
+  }
+
+  const schema: Record<string, WorkflowInputDefinition> = {};
+  for (const [name, value] of Object.entries(declared as Record<string, unknown>)) {
+    const raw = String(value).trim().toLowerCase();
+    const optional = raw.endsWith("?");
+    const type = (optional ? raw.slice(0, -1) : raw) as WorkflowInputType;
+    if (!INPUT_TYPES.includes(type)) {
+      throw new Error(`Workflow Trigger: input "${name}" has unknown type "${value}" (use ${INPUT_TYPES.join(", ")})`);
+    }
+    schema[name] = { type, optional };
+  }
+  return Object.keys(schema).length > 0 ? schema : null;
+}
+
+/**
+ * Checks mapped values against the declared inputs and converts them to the declared types
+ */
+export function coerceWorkflowInputs(
+  schema: Record<string, WorkflowInputDefinition> | null,
+  values: Record<string, unknown>
+): Record<string, unknown> {
+  if (!schema) return values;
+
+  const undeclared = Object.keys(values).filter(name => !(name in schema));
+  if (undeclared.length > 0) {
+    throw new Error(`Input ${undeclared.map(n => `"${n}"`).join(", ")} is not declared by the called workflow`);
+  }
+
+  const inputs: Record<string, unknown> = {};
+  for (const [name, definition] of Object.entries(schema)) {
+    const value = values[name];
+    if (value === undefined || value === null || value === "") {
+      if (!definition.optional) {
+        throw new Error(`Input "${name}" (${definition.type}) is required by the called workflow`);
+      }
+      continue;
+    }
+    inputs[name] = coerceValue(name, definition.type, value);
+  }
+  return inputs;
+}
+
+function coerceValue(name: string, type: WorkflowInputType, value: unknown): unknown {
+  const invalid = () => new Error(`Input "${name}" must be ${type === "array" || type === "object" ? "an" : "a"} ${type}, got ${JSON.stringify(value)}`);
+
+  switch (type) {
+    case "string":
+      return typeof value === "object" ? JSON.stringify(value) : String(value);
+    case "number": {
+      const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof number !== "number" || Number.isNaN(number)) throw invalid();
+      return number;
+    }
+    case "boolean":
+      if (typeof value === "boolean") return value;
+      if (value === "true" || value === "false") return value === "true";
+      throw invalid();
+    case "object":
+    case "array": {
+      let parsed = value;
+      if (typeof value === "string") {
+        try {
+          parsed = JSON.parse(value);
+        } catch {
+          throw invalid();
+        }
+      }
+      const isArray = Array.isArray(parsed);
+      if (typeof parsed !== "object" || parsed === null || isArray !== (type === "array")) throw invalid();
+      return parsed;
+    }
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,320 @@
+/**
+ * Execution tracing
+ *
+ * Every execution records a trace: a span for the engine invocation, one per node run and
+ * child spans for the requests nodes make (HTTP, LLM calls with token counts, database queries
+ * through PostgREST). The trace continues the W3C `traceparent` header of the request that started
+ * the engine and is propagated on outbound requests, so runs can be correlated with other services;
+ * the trace id is stored on the execution (executions.trace_id).
+ *
+ * Spans are exported over OTLP/HTTP (JSON) at the end of the invocation when
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT or OTEL_EXPORTER_OTLP_ENDPOINT is set.
+ * OTEL_EXPORTER_OTLP_HEADERS adds request headers ("key=value,key2=value2") and
+ * OTEL_SERVICE_NAME names the service (default "workflow-engine").
+ */
+
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+const DEFAULT_SERVICE_NAME = "workflow-engine";
+const EXPORT_TIMEOUT_MS = 5000;
+
+type AttributeValue = string | number | boolean;
+export type SpanKind = "internal" | "server" | "client";
+
+// OTLP span kind and status codes
+const SPAN_KIND_CODES: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+const TRACEPARENT_PATTERN = /^00-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+/**
+ * Parses a W3C traceparent header; invalid or all-zero ids are ignored
+ */
+export function parseTraceparent(header: string | null | undefined): SpanContext | null {
+  const match = header?.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+  if (!match || /^0+$/.test(match[1]) || /^0+$/.test(match[2])) return null;
+  return { traceId: match[1], spanId: match[2] };
+}
+
+export function formatTraceparent(context: SpanContext): string {
+  return `00-${context.traceId}-${context.spanId}-01`;
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, "0")).join("");
+}
+
+function nowUnixNano(): string {
+  return BigInt(Math.round((performance.timeOrigin + performance.now()) * 1e6)).toString();
+}
+
+export class Span implements SpanContext {
+  readonly spanId = randomHex(8);
+  readonly attributes: Record<string, AttributeValue> = {};
+  private readonly startTime = nowUnixNano();
+  private endTime?: string;
+  private status?: { code: number; message?: string };
+  private readonly events: { name: string; timeUnixNano: string; attributes: Record<string, AttributeValue> }[] = [];
+
+  constructor(
+    readonly traceId: string,
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly parentSpanId: string | undefined,
+    attributes: Record<string, AttributeValue> = {}
+  ) {
+    this.setAttributes(attributes);
+  }
+
+  setAttributes(attributes: Record<string, AttributeValue | undefined>): void {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (value !== undefined) this.attributes[key] = value;
+    }
+  }
+
+  setOk(): void {
+    this.status = { code: STATUS_OK };
+  }
+
+  setError(message: string): void {
+    this.status = { code: STATUS_ERROR, message };
+  }
+
+  recordException(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    this.events.push({
+      name: "exception",
+      timeUnixNano: nowUnixNano(),
+      attributes: {
+        "exception.type": error instanceof Error ? error.name : typeof error,
+        "exception.message": message,
+      },
+    });
+    this.setError(message);
+  }
+
+  end(): void {
+    this.endTime = this.endTime ?? nowUnixNano();
+  }
+
+  toOtlp(): Record<string, unknown> {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: SPAN_KIND_CODES[this.kind],
+      startTimeUnixNano: this.startTime,
+      endTimeUnixNano: this.endTime ?? nowUnixNano(),
+      attributes: toOtlpAttributes(this.attributes),
+      events: this.events.map(event => ({ ...event, attributes: toOtlpAttributes(event.attributes) })),
+      status: this.status ?? { code: 0 },
+    };
+  }
+}
+
+function toOtlpAttributes(attributes: Record<string, AttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === "boolean" ? { boolValue: value }
+      : typeof value === "number" ? (Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value })
+      : { stringValue: value },
+  }));
+}
+
+/**
+ * Collects the spans of one engine invocation and exports them
+ */
+export class Tracer {
+  readonly traceId: string;
+  private readonly spans: Span[] = [];
+
+  constructor(private readonly parent: SpanContext | null = null) {
+    this.traceId = parent?.traceId ?? randomHex(16);
+  }
+
+  startSpan(
+    name: string,
+    options: { parent?: Span; kind?: SpanKind; attributes?: Record<string, AttributeValue> } = {}
+  ): Span {
+    const span = new Span(
+      this.traceId,
+      name,
+      options.kind ?? "internal",
+      options.parent?.spanId ?? this.parent?.spanId,
+      options.attributes
+    );
+    this.spans.push(span);
+    return span;
+  }
+
+  /**
+   * Sends the recorded spans to the configured OTLP endpoint (no-op without one).
+   * Export failures are logged, they never fail the execution.
+   */
+  async export(): Promise<void> {
+    const endpoint = getTracesEndpoint();
+    if (!endpoint || this.spans.length === 0) return;
+
+    const body = {
+      resourceSpans: [{
+        resource: {
+          attributes: toOtlpAttributes({ "service.name": Deno.env.get("OTEL_SERVICE_NAME") || DEFAULT_SERVICE_NAME }),
+        },
+        scopeSpans: [{
+          scope: { name: "execute-workflow" },
+          spans: this.spans.map(span => span.toOtlp()),
+        }],
+      }],
+    };
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { ...parseHeaders(Deno.env.get("OTEL_EXPORTER_OTLP_HEADERS")), "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(EXPORT_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        console.error(`Trace export failed: HTTP ${response.status} ${await response.text()}`);
+      }
+    } catch (error) {
+      console.error("Trace export failed:", error);
+    }
+  }
+}
+
+function getTracesEndpoint(): string | null {
+  const tracesEndpoint = Deno.env.get("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT");
+  if (tracesEndpoint) return tracesEndpoint;
+  const endpoint = Deno.env.get("OTEL_EXPORTER_OTLP_ENDPOINT");
+  return endpoint ? `${endpoint.replace(/\/+$/, "")}/v1/traces` : null;
+}
+
+function parseHeaders(value: string | undefined): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const pair of (value ?? "").split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      headers[decodeURIComponent(pair.slice(0, separator).trim())] = decodeURIComponent(pair.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+// Where spans of work done for a node (or the engine itself) are attached
+export interface TraceContext {
+  tracer: Tracer;
+  span: Span;
+}
+
+// LLM providers called by AI nodes, by host (gen_ai.system)
+const LLM_SYSTEMS: Record<string, string> = {
+  "api.openai.com": "openai",
+  "api.anthropic.com": "anthropic",
+  "generativelanguage.googleapis.com": "gemini",
+  "ai.gateway.lovable.dev": "lovable",
+};
+
+const DB_OPERATIONS: Record<string, string> = {
+  GET: "select",
+  HEAD: "select",
+  POST: "insert",
+  PATCH: "update",
+  PUT: "upsert",
+  DELETE: "delete",
+};
+
+/**
+ * fetch that records a client span per request under `trace.span` and propagates the trace.
+ * Requests to PostgREST become database spans and requests to LLM providers record the
+ * model and token usage. Query strings are left out of the recorded URL (they may hold API keys).
+ */
+export function createTracedFetch(trace: TraceContext, baseFetch: typeof fetch = globalThis.fetch): typeof fetch {
+  return async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const llmSystem = LLM_SYSTEMS[url.host];
+    const dbMatch = url.pathname.match(/\/rest\/v1\/(rpc\/)?([^/]+)/);
+
+    const attributes: Record<string, AttributeValue> = {
+      "http.request.method": method,
+      "url.full": `${url.origin}${url.pathname}`,
+      "server.address": url.hostname,
+    };
+    let name = `HTTP ${method} ${url.host}`;
+    if (dbMatch) {
+      const operation = dbMatch[1] ? "rpc" : DB_OPERATIONS[method] ?? method.toLowerCase();
+      name = `db ${operation} ${dbMatch[2]}`;
+      Object.assign(attributes, { "db.system": "postgresql", "db.operation": operation, "db.sql.table": dbMatch[2] });
+    } else if (llmSystem) {
+      const operation = /embed/i.test(url.pathname) ? "embeddings" : "chat";
+      const model = getRequestModel(url, init?.body);
+      name = model ? `${operation} ${model}` : `${operation} ${llmSystem}`;
+      Object.assign(attributes, { "gen_ai.system": llmSystem, "gen_ai.operation.name": operation });
+      if (model) attributes["gen_ai.request.model"] = model;
+    }
+
+    const span = trace.tracer.startSpan(name, { parent: trace.span, kind: "client", attributes });
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    headers.set("traceparent", formatTraceparent(span));
+
+    try {
+      const response = await baseFetch(input, { ...init, headers });
+      span.setAttributes({ "http.response.status_code": response.status });
+      if (response.status >= 400) {
+        span.setError(`HTTP ${response.status}`);
+      }
+      if (llmSystem && response.ok && response.headers.get("content-type")?.includes("application/json")) {
+        span.setAttributes(await getTokenUsage(response.clone()));
+      }
+      return response;
+    } catch (error) {
+      span.recordException(error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  };
+}
+
+function getRequestModel(url: URL, body: unknown): string | undefined {
+  // Gemini has the model in the path (/models/<model>:generateContent)
+  const pathModel = url.pathname.match(/\/models\/([^/:]+)/)?.[1];
+  if (pathModel) return pathModel;
+  if (typeof body !== "string") return undefined;
+  try {
+    const model = JSON.parse(body)?.model;
+    return typeof model === "string" ? model : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Token counts of an LLM response (OpenAI-compatible, Anthropic and Gemini formats)
+ */
+async function getTokenUsage(response: Response): Promise<Record<string, AttributeValue | undefined>> {
+  try {
+    const data = await response.json();
+    const usage = data?.usage ?? {};
+    const gemini = data?.usageMetadata ?? {};
+    return {
+      "gen_ai.usage.input_tokens": usage.prompt_tokens ?? usage.input_tokens ?? gemini.promptTokenCount,
+      "gen_ai.usage.output_tokens": usage.completion_tokens ?? usage.output_tokens ?? gemini.candidatesTokenCount,
+      "gen_ai.response.model": typeof data?.model === "string" ? data.model : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Shared types for the workflow execution engine
+ */
+
+export interface WorkflowNode {
+  id: string;
+  type: string;
+  data: {
+    label: string;
+    type: string;
+    category: string;
+    config: Record<string, unknown>;
+    // Output pinned in the builder, used instead of executing the node during manual runs
+    pinnedData?: unknown;
+  };
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+}
+
+export interface ExecutionLog {
+  nodeId: string;
+  nodeName: string;
+  nodeType?: string;
+  status: "running" | "success" | "failed" | "skipped" | "waiting" | "cancelled";
+  startedAt: string;
+  finishedAt?: string;
+  input?: unknown;
+  output?: unknown;
+  error?: string;
+  inputItems?: number;
+  outputItems?: number;
+  // Set for nodes executed inside a loop body (0-based)
+  iteration?: number;
+  // Set for Error Trigger nodes and their branches
+  errorHandling?: boolean;
+  // Set for logs copied from the original run when retrying from the failed node
+  reused?: boolean;
+  // Set when the node's pinned data was used instead of executing it
+  pinned?: boolean;
+  // Console output captured from sandboxed code nodes
+  console?: { level: string; message: string }[];
+  // Span of the node run in the execution's trace (executions.trace_id)
+  spanId?: string;
+}
@@ -0,0 +1,102 @@
+/**
+ * Durable Wait support
+ *
+ * Short waits sleep inside the invocation. Longer waits suspend the execution:
+ * the engine persists its state on the execution (status "waiting") and ends the invocation.
+ * The resume-execution function continues the run later, either when `resume_at` is reached
+ * or when the resume webhook is called with the execution's `resume_token`.
+ */
+
+import { type ExecutionDataStore, loadPrivateData, storePrivateData } from "../_shared/binary-data.ts";
+import type { RestoredState } from "./retry.ts";
+
+// Waits up to this duration are slept inline instead of suspending the execution
+export const INLINE_WAIT_LIMIT_MS = 5000;
+
+export type WaitMode = "duration" | "until" | "webhook";
+
+export interface WaitInstruction {
+  mode: WaitMode;
+  // Time after which the execution is resumed automatically (null = only via webhook)
+  resumeAt: Date | null;
+  // Remaining time for inline waits
+  delayMs: number;
+}
+
+/**
+ * State persisted while an execution is waiting. The engine resumes from the stored copy;
+ * executions.resume_state keeps one with the node outputs masked.
+ */
+export interface ResumeState extends RestoredState {
+  waitingNodeId: string;
+}
+
+export async function storeResumeState(store: ExecutionDataStore, executionId: string, state: ResumeState): Promise<void> {
+  await storePrivateData(store, executionId, "resume-state", state);
+}
+
+// Null when none was stored, the engine then resumes from executions.resume_state
+export function loadResumeState(store: ExecutionDataStore, executionId: string): Promise<ResumeState | null> {
+  return loadPrivateData(store, executionId, "resume-state");
+}
+
+/**
+ * Thrown by the engine when a Wait node suspends the execution
+ */
+export class WaitSignal extends Error {
+  constructor(
+    public readonly nodeId: string,
+    public readonly instruction: WaitInstruction
+  ) {
+    super(`Execution suspended by Wait node ${nodeId}`);
+    this.name = "WaitSignal";
+  }
+}
+
+export function getWaitInstruction(config: Record<string, unknown>, now = new Date()): WaitInstruction {
+  const mode: WaitMode = config.mode === "until" || config.mode === "webhook" ? config.mode : "duration";
+
+  if (mode === "until") {
+    const until = new Date(String(config.until ?? ""));
+    if (isNaN(until.getTime())) {
+      throw new Error(`Wait: "Resume At" must be a valid date/time (e.g. 2025-01-31T09:00:00Z), got "${config.until ?? ""}"`);
+    }
+    return { mode, resumeAt: until, delayMs: Math.max(0, until.getTime() - now.getTime()) };
+  }
+
+  if (mode === "webhook") {
+    // Optional limit after which the execution resumes without a webhook call
+    const maxWait = Number(config.maxWait) || 0;
+    return { mode, resumeAt: maxWait > 0 ? new Date(now.getTime() + maxWait) : null, delayMs: Infinity };
+  }
+
+  const duration = Math.max(0, Number(config.duration) || 0);
+  return { mode, resumeAt: new Date(now.getTime() + duration), delayMs: duration };
+}
+
+export function shouldSuspend(instruction: WaitInstruction): boolean {
+  return instruction.delayMs > INLINE_WAIT_LIMIT_MS;
+}
+
+export function createResumeToken(): string {
+  return crypto.randomUUID().replace(/-/g, "") + crypto.randomUUID().replace(/-/g, "");
+}
+
+export function getResumeUrl(supabaseUrl: string, executionId: string, token: string): string {
+  return `${supabaseUrl}/functions/v1/resume-execution?executionId=${executionId}&token=${token}`;
+}
+
+/**
+ * Output of a Wait node once the execution has been resumed
+ */
+export function createWaitOutput(input: unknown, mode: WaitMode, resumeData: unknown): unknown {
+  if (mode !== "webhook") {
+    return input;
+  }
+  const inputObj = input && typeof input === "object" && !Array.isArray(input) ? input as Record<string, unknown> : { value: input };
+  return {
+    ...inputObj,
+    resume: resumeData ?? null,
+    resumedBy: resumeData === undefined ? "timeout" : "webhook",
+  };
+}
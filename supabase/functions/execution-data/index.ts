@@ -0,0 +1,87 @@
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { createExecutionDataStore, guessMimeType, isExecutionDataPath } from "../_shared/binary-data.ts";
+
+/**
+ * Execution Data API
+ *
+ * Serves data the engine offloaded from an execution (large node inputs/outputs, binary files)
+ * to users who can view the execution. Goes through here instead of Storage directly so the
+ * filesystem backend works the same.
+ * - GET ?executionId=...&path=...: returns the stored bytes
+ */
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  if (req.method !== "GET") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (authError || !user) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const url = new URL(req.url);
+    const executionId = url.searchParams.get("executionId");
+    const path = url.searchParams.get("path");
+    if (!executionId || !path) {
+      return jsonResponse({ error: "executionId and path are required" }, 400);
+    }
+    if (!isExecutionDataPath(path, executionId)) {
+      return jsonResponse({ error: "Invalid path" }, 400);
+    }
+
+    // Same access as the executions RLS policy: own executions and executions of team workflows
+    const { data: execution } = await supabase
+      .from("executions")
+      .select("user_id, workflows(user_id, team_id)")
+      .eq("id", executionId)
+      .maybeSingle();
+
+    if (!execution) {
+      return jsonResponse({ error: "Execution not found" }, 404);
+    }
+
+    const workflow = execution.workflows as { user_id: string; team_id: string | null } | null;
+    let allowed = execution.user_id === user.id || workflow?.user_id === user.id;
+    if (!allowed && workflow?.team_id) {
+      const { data: isMember } = await supabase.rpc("is_team_member", { _user_id: user.id, _team_id: workflow.team_id });
+      allowed = isMember === true;
+    }
+    if (!allowed) {
+      return jsonResponse({ error: "Execution not found" }, 404);
+    }
+
+    const data = await createExecutionDataStore(supabase).get(path);
+    return new Response(data, {
+      headers: { ...corsHeaders, "Content-Type": guessMimeType(path) },
+    });
+  } catch (error) {
+    console.error("Execution data error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Internal server error" }, 500);
+  }
+});
@@ -0,0 +1,122 @@
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+// Supabase Edge Runtime: keeps the function alive for work that continues after the response
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+// Maximum number of queued executions started by one claim
+const CLAIM_BATCH_SIZE = 10;
+// Default maximum number of running executions per user (EXECUTION_QUEUE_USER_LIMIT overrides it)
+const DEFAULT_USER_LIMIT = 10;
+// The worker stops claiming new batches after this time, the next call continues
+const WORKER_TIME_BUDGET_MS = 10_000;
+
+interface QueuedExecution {
+  id: string;
+  workflow_id: string;
+  input: unknown;
+  // Trace context of whoever queued the execution, passed on to the engine
+  traceparent: string | null;
+}
+
+/**
+ * Starts queued executions (see webhook-trigger).
+ *
+ * Claims the oldest queued executions with claim_queued_executions, which skips executions
+ * locked by other workers and those over the per-user or per-workflow concurrency limit,
+ * and starts them with execute-workflow. Batches are claimed until the queue is drained, the
+ * limits are reached or the time budget is used up; the worker responds once they are claimed,
+ * the executions keep running in the background. Called by webhook-trigger after queueing an
+ * execution and every minute by a cron job (see the schedule_background_functions migration)
+ * to pick up executions whose limits cleared.
+ */
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+  const userLimit = parseInt(Deno.env.get("EXECUTION_QUEUE_USER_LIMIT") || "", 10) || DEFAULT_USER_LIMIT;
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const runExecution = async (execution: QueuedExecution) => {
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/execute-workflow`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+          "apikey": supabaseServiceKey,
+          ...(execution.traceparent ? { "traceparent": execution.traceparent } : {}),
+        },
+        body: JSON.stringify({
+          workflowId: execution.workflow_id,
+          executionId: execution.id,
+          input: execution.input ?? {},
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`execute-workflow returned error: ${await response.text()}`);
+      }
+    } catch (error) {
+      console.error(`Failed to run queued execution ${execution.id}:`, error);
+      // The engine records its own failures; this covers executions it never picked up
+      await supabase
+        .from("executions")
+        .update({
+          status: "failed",
+          error: `Failed to invoke execute-workflow: ${error instanceof Error ? error.message : "Unknown error"}`,
+          finished_at: new Date().toISOString(),
+        })
+        .eq("id", execution.id)
+        .eq("status", "running")
+        .is("finished_at", null);
+    }
+  };
+
+  try {
+    const startedAt = Date.now();
+    const started: string[] = [];
+
+    while (Date.now() - startedAt < WORKER_TIME_BUDGET_MS) {
+      const { data: claimed, error } = await supabase.rpc("claim_queued_executions", {
+        batch_size: CLAIM_BATCH_SIZE,
+        user_limit: userLimit,
+      });
+
+      if (error) {
+        throw new Error(`Failed to claim queued executions: ${error.message}`);
+      }
+
+      const batch = (claimed || []) as QueuedExecution[];
+      if (batch.length === 0) break;
+
+      console.log(`Claimed ${batch.length} queued execution(s)`);
+      started.push(...batch.map(e => e.id));
+      // Claimed executions count as running, so the next claim respects the limits without waiting for them
+      EdgeRuntime.waitUntil(Promise.all(batch.map(runExecution)));
+    }
+
+    return jsonResponse({ started });
+  } catch (error) {
+    console.error("Execution worker error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -247,8 +247,8 @@ class LLMAdapter {
 const AVAILABLE_NODES = {
   triggers: ['manual_trigger', 'webhook', 'schedule', 'chat_trigger', 'error_trigger', 'interval', 'workflow_trigger'],
   ai: ['openai_gpt', 'anthropic_claude', 'google_gemini', 'text_summarizer', 'sentiment_analyzer'],
-  logic: ['if_else', 'switch', 'loop', 'wait', 'error_handler', 'filter'],
-  data: ['javascript', 'json_parser', 'csv_processor', 'text_formatter', 'merge_data', 'set_variable', 'google_sheets'],
+  logic: ['if_else', 'switch', 'loop', 'wait', 'error_handler', 'filter', 'execute_workflow'],
+  data: ['javascript', 'json_parser', 'csv_processor', 'text_formatter', 'merge_data', 'set_variable', 'static_data', 'google_sheets'],
   http_api: ['http_request', 'graphql', 'respond_to_webhook'],
   output: ['http_post', 'email_resend', 'slack_message', 'slack_webhook', 'discord_webhook', 'database_write', 'log_output'],
   google: ['google_sheets', 'google_doc', 'google_drive', 'google_calendar', 'google_gmail', 'google_bigquery', 'google_tasks', 'google_contacts'],
@@ -331,7 +331,7 @@ TRIGGERS:
 - chat_trigger: Trigger from chat/AI/UI messages (no config, receives message and session_id)
 - error_trigger: Automatically fire when any node fails (no config, global scope)
 - interval: Run workflow at fixed intervals (config: interval like "10m", "30s", "1h")
-- workflow_trigger: Trigger one workflow from another (config: source_workflow_id)
+- workflow_trigger: Start this workflow from an Execute Workflow node of another workflow (config: inputs as JSON of input names and types, optional source_workflow_id)
 
 AI PROCESSING:
 - openai_gpt: Process with OpenAI GPT models (config: apiKey, model: gpt-4o/gpt-4o-mini/gpt-4-turbo, prompt, temperature, memory)
@@ -344,19 +344,21 @@ AI PROCESSING:
 
 LOGIC & CONTROL:
 - if_else: Conditional branching (config: condition expression like "{{input.value}} > 10")
-- switch: Multiple case branching (config: expression, cases as JSON array)
+- switch: Multiple case branching (config: expression, cases as JSON array of {value, label, operator?: equals/not_equals/contains/starts_with/ends_with/regex/gt/gte/lt/lte/between/expression, min/max for between}, matchMode: first/all). Edges use the case value as sourceHandle, "fallback" for unmatched values
 - loop: Iterate over items (config: array expression, maxIterations)
 - wait: Pause execution (config: duration in milliseconds)
 - error_handler: Handle errors gracefully (config: retries, retryDelay, fallbackValue)
 - filter: Filter array items (config: array expression, condition)
+- execute_workflow: Run another of the user's workflows (config: workflowId, inputs as JSON mapping input names to values or {{expressions}}, mode: wait/fire_and_forget)
 
 DATA TRANSFORM:
 - javascript: Run custom JavaScript code (config: code)
 - json_parser: Parse/transform JSON using JSONPath (config: expression like "$.data.items[*]")
 - csv_processor: Process CSV data (config: delimiter, hasHeader)
 - text_formatter: Format text with templates (config: template like "Hello {{name}}!")
-- merge_data: Combine multiple inputs (config: mode: merge/concat)
+- merge_data: Combine two inputs connected to its "input1" and "input2" handles (edge targetHandle) (config: mode: merge/join/position/append, joinType: inner/left/right/full/anti, key1, key2 for join)
 - set_variable: Store value in variable (config: name, value)
+- static_data: Values kept across executions, read in expressions as {{$static.key}} (config: operation: get/get_all/set/increment/append/max/compare_and_set/delete, key, value, expected). Use for polling cursors like lastSeenId
 - database_read: Read from database (config: table, columns, filters, limit, orderBy, ascending)
 
 GOOGLE NODES:
@@ -514,7 +516,8 @@ You must respond with a valid JSON object in this exact format:
       "id": "unique_edge_id",
       "source": "source_node_id",
       "target": "target_node_id",
-      "sourceHandle": "optional handle for conditional nodes"
+      "sourceHandle": "optional handle for conditional nodes",
+      "targetHandle": "optional input handle (input1/input2 for merge_data)"
     }
   ]
 }
@@ -572,7 +575,7 @@ CRITICAL RULES:
    - For respond_to_webhook: include statusCode (200 default), responseBody (JSON), headers if needed
    - For schedule: include time in HH:MM format (e.g., "09:00") and timezone (Asia/Kolkata default for IST)
    - For interval: include interval in format like "10m", "30s", "1h"
-   - For workflow_trigger: include source_workflow_id
+   - For workflow_trigger: include inputs (e.g. {"orderId": "number"}) when the workflow is called by others
    - For email: include to, from, subject, body
    - For database: include table name and operation
    - **IMPORTANT**: Use the USER PROVIDED CONFIGURATION values to populate these fields.
@@ -27,6 +27,7 @@ interface WorkflowData {
  * 1. Must have exactly two outputs: TRUE and FALSE.
  * 2. No split output conflicts (one condition = one path).
  * 3. Creates default paths if missing.
+ * Also connects the inputs of Merge nodes to their input handles.
  */
 export function validateAndFixWorkflow(workflow: WorkflowData): WorkflowData {
     // Deep clone to avoid mutating original
@@ -171,6 +172,22 @@ export function validateAndFixWorkflow(workflow: WorkflowData): WorkflowData {
         }
     }
 
+    // Merge nodes combine two named inputs: connect edges without a target handle to the free ones
+    const mergeNodes = nodes.filter(n => n.type === 'merge' || n.type === 'merge_data');
+
+    for (const node of mergeNodes) {
+        const incomingEdges = edges.filter(e => e.target === node.id);
+        const usedHandles = new Set(incomingEdges.map(e => e.targetHandle).filter(Boolean));
+        const freeHandles = ['input1', 'input2'].filter(handle => !usedHandles.has(handle));
+
+        for (const edge of incomingEdges) {
+            if (!edge.targetHandle) {
+                // More than two inputs: append the rest to Input 2
+                edge.targetHandle = freeHandles.shift() ?? 'input2';
+            }
+        }
+    }
+
     fixedWorkflow.nodes = nodes;
     fixedWorkflow.edges = edges;
     return fixedWorkflow;
@@ -0,0 +1,185 @@
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+
+// Maximum number of due executions resumed by one sweep
+const SWEEP_BATCH_SIZE = 20;
+
+interface ClaimedExecution {
+  id: string;
+  workflow_id: string;
+  traceparent: string | null;
+}
+
+/**
+ * Resumes executions suspended by a Wait node.
+ *
+ * - Resume webhook: `?executionId=...&token=...` (GET or POST). The JSON body is passed
+ *   to the Wait node as `resume`.
+ * - Sweep: called without an executionId (every minute by a cron job, see the
+ *   schedule_background_functions migration), resumes all waiting executions whose
+ *   `resume_at` has passed.
+ */
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  // Marks a waiting execution as running; returns null when it was already claimed
+  const claimExecution = async (executionId: string) => {
+    const { data, error } = await supabase
+      .from("executions")
+      .update({ status: "running" })
+      .eq("id", executionId)
+      .eq("status", "waiting")
+      .select("id, workflow_id, traceparent")
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to claim execution ${executionId}:`, error);
+      return null;
+    }
+    return data as ClaimedExecution | null;
+  };
+
+  const resumeExecution = async (execution: ClaimedExecution, data?: unknown) => {
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/execute-workflow`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+          "apikey": supabaseServiceKey,
+          // The resumed run continues the execution's trace
+          ...(execution.traceparent ? { "traceparent": execution.traceparent } : {}),
+        },
+        body: JSON.stringify({
+          workflowId: execution.workflow_id,
+          executionId: execution.id,
+          resume: { data },
+        }),
+      });
+
+      const text = await response.text();
+      if (!response.ok) {
+        throw new Error(`execute-workflow returned error: ${text}`);
+      }
+      return JSON.parse(text);
+    } catch (error) {
+      // The engine records its own failures; this covers a claimed execution it never picked up,
+      // which would otherwise stay "running" and never be swept again
+      await supabase
+        .from("executions")
+        .update({
+          status: "failed",
+          error: `Failed to resume the execution: ${error instanceof Error ? error.message : "Unknown error"}`,
+          finished_at: new Date().toISOString(),
+        })
+        .eq("id", execution.id)
+        .eq("status", "running")
+        .is("finished_at", null);
+      throw error;
+    }
+  };
+
+  try {
+    const url = new URL(req.url);
+    let body: Record<string, unknown> = {};
+    if (req.method === "POST") {
+      try {
+        const text = await req.text();
+        body = text ? JSON.parse(text) : {};
+      } catch {
+        console.log("No JSON body or invalid JSON, resuming without data");
+      }
+    }
+
+    const executionId = url.searchParams.get("executionId") || (body.executionId as string | undefined);
+
+    // Resume webhook for a single execution
+    if (executionId) {
+      const token = url.searchParams.get("token") || (body.token as string | undefined);
+
+      const { data: execution, error } = await supabase
+        .from("executions")
+        .select("id, status, resume_token")
+        .eq("id", executionId)
+        .single();
+
+      if (error || !execution) {
+        return jsonResponse({ error: "Execution not found" }, 404);
+      }
+      if (!execution.resume_token || execution.resume_token !== token) {
+        return jsonResponse({ error: "Invalid resume token" }, 403);
+      }
+      if (execution.status !== "waiting") {
+        return jsonResponse({ error: `Execution is ${execution.status}, not waiting` }, 409);
+      }
+
+      const claimed = await claimExecution(executionId);
+      if (!claimed) {
+        return jsonResponse({ error: "Execution was already resumed" }, 409);
+      }
+
+      // The query string carries the token; the body (or remaining query params) is the resume data
+      const queryData: Record<string, string> = {};
+      url.searchParams.forEach((value, key) => {
+        if (key !== "executionId" && key !== "token") queryData[key] = value;
+      });
+      const { executionId: _id, token: _token, ...bodyData } = body;
+      const data = { ...queryData, ...bodyData };
+
+      console.log(`Resuming execution ${executionId} via webhook`);
+      const result = await resumeExecution(claimed, data);
+      return jsonResponse(result);
+    }
+
+    // Sweep: resume every execution whose wait time has passed
+    const { data: due, error: dueError } = await supabase
+      .from("executions")
+      .select("id")
+      .eq("status", "waiting")
+      .lte("resume_at", new Date().toISOString())
+      .order("resume_at", { ascending: true })
+      .limit(SWEEP_BATCH_SIZE);
+
+    if (dueError) {
+      throw new Error(`Failed to load waiting executions: ${dueError.message}`);
+    }
+
+    const resumed: string[] = [];
+    await Promise.all((due || []).map(async ({ id }: { id: string }) => {
+      const claimed = await claimExecution(id);
+      if (!claimed) return;
+      try {
+        await resumeExecution(claimed);
+        resumed.push(id);
+      } catch (resumeError) {
+        console.error(`Failed to resume execution ${id}:`, resumeError);
+      }
+    }));
+
+    console.log(`Resumed ${resumed.length} waiting execution(s)`);
+    return jsonResponse({ resumed });
+  } catch (error) {
+    console.error("Resume execution error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -9,12 +9,24 @@ declare const Deno: {
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createExecutionDataStore, loadExecutionResults, loadValue, storeExecutionInput } from "../_shared/binary-data.ts";
+import { Redactor, parseRedactionPaths } from "../_shared/redaction.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// How long the webhook waits for its execution before answering 202 with the execution id
+const WEBHOOK_WAIT_TIMEOUT_MS = 25_000;
+const WEBHOOK_POLL_INTERVAL_MS = 1000;
+// Statuses after which the webhook can reply with the result
+const FINISHED_STATUSES = ["success", "failed", "cancelled"];
+
+// Finalized: a finished status and finished_at, which are written together once the results are stored
+const isFinished = (execution: { status: string; finished_at: string | null } | null) =>
+  !!execution && FINISHED_STATUSES.includes(execution.status) && execution.finished_at !== null;
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -95,18 +107,37 @@ serve(async (req) => {
       );
     }
 
-    // Create execution record
-    const startedAt = new Date().toISOString();
+    // The engine runs on the input as received, the row keeps it masked like the logs
+    const store = createExecutionDataStore(supabase);
+    const executionId = crypto.randomUUID();
+    try {
+      await storeExecutionInput(store, executionId, fullInput);
+    } catch (storeError) {
+      console.error("Failed to store execution input:", storeError);
+      return new Response(
+        JSON.stringify({ error: "Failed to create execution" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const maskedInput = new Redactor(parseRedactionPaths(workflow.redacted_fields)).redact(fullInput);
+
+    // Queue the execution; execution-worker starts it once the user's and the workflow's
+    // concurrency limits allow
+    const queuedAt = new Date().toISOString();
     const { data: execution, error: execError } = await supabase
       .from("executions")
       .insert({
+        id: executionId,
         workflow_id: workflowId,
         user_id: workflow.user_id,
         status: "pending",
         trigger: "webhook",
-        input: fullInput,
+        input: maskedInput,
         logs: [],
-        started_at: startedAt,
+        queued_at: queuedAt,
+        started_at: queuedAt,
+        // The engine continues the caller's trace (W3C Trace Context)
+        traceparent: req.headers.get("traceparent"),
       })
       .select()
       .single();
@@ -119,100 +150,83 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Created execution ${execution.id} for webhook trigger with session_id: ${sessionId}`);
+    console.log(`Queued execution ${execution.id} for webhook trigger with session_id: ${sessionId}`);
 
     // Note: Conversation history is now retrieved per AI node in execute-workflow
     // based on each node's memory limit configuration. This allows different AI nodes
     // in the same workflow to have different memory limits.
 
-    // Call the execute-workflow function and wait for completion
-    const executeUrl = `${supabaseUrl}/functions/v1/execute-workflow`;
-    
-    let executeResponse: Response;
-    try {
-      executeResponse = await fetch(executeUrl, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${supabaseServiceKey}`,
-          "apikey": supabaseServiceKey,
-      },
-      body: JSON.stringify({
-        workflowId,
-        executionId: execution.id,
-          input: fullInput, // session_id is already included in fullInput
-      }),
-    });
-    } catch (fetchError) {
-      console.error("Failed to call execute-workflow:", fetchError);
-      // Update execution status to failed
-      await supabase
+    // Start the worker, then wait for the execution to finish so the reply can be returned.
+    // An execution over the limits stays queued; the worker's periodic run starts it once a slot is free.
+    const runWorker = async () => {
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/execution-worker`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Authorization": `Bearer ${supabaseServiceKey}`,
+            "apikey": supabaseServiceKey,
+          },
+          body: "{}",
+        });
+        if (!response.ok) {
+          console.error("Execution worker failed:", await response.text());
+        }
+      } catch (workerError) {
+        console.error("Failed to call execution-worker:", workerError);
+      }
+    };
+
+    const loadExecution = async () => {
+      const { data, error: dbError } = await supabase
         .from("executions")
-        .update({
-          status: "failed",
-          error: `Failed to invoke execute-workflow: ${fetchError instanceof Error ? fetchError.message : "Unknown error"}`,
-          finished_at: new Date().toISOString(),
-        })
-        .eq("id", execution.id);
-      
-      return new Response(
-        JSON.stringify({
-          error: "Workflow execution failed",
-          reply: "Sorry, I encountered an error processing your request. Please try again.",
-        }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+        .select("output, logs, status, error, finished_at")
+        .eq("id", execution.id)
+        .single();
+
+      if (dbError) {
+        console.error("Failed to load execution:", dbError);
+      }
+      return data;
+    };
+
+    // Not awaited: the worker returns once it has claimed, the poll below waits for the result
+    const workerCall = runWorker();
+
+    const waitDeadline = Date.now() + WEBHOOK_WAIT_TIMEOUT_MS;
+    let dbExecution = await loadExecution();
+    while (!isFinished(dbExecution) && Date.now() < waitDeadline) {
+      await new Promise(resolve => setTimeout(resolve, WEBHOOK_POLL_INTERVAL_MS));
+      dbExecution = await loadExecution();
     }
 
-    if (!executeResponse.ok) {
-      const errorText = await executeResponse.text();
-      console.error("Execute workflow failed:", errorText);
-      
-      // Update execution status to failed
-      await supabase
-        .from("executions")
-        .update({
-          status: "failed",
-          error: `Execute-workflow returned error: ${errorText}`,
-          finished_at: new Date().toISOString(),
-        })
-        .eq("id", execution.id);
-      
+    await workerCall;
+    console.log("Execution from database:", JSON.stringify(dbExecution, null, 2));
+
+    // Still queued or running (or suspended by a Wait node): the caller can follow the execution by its id
+    if (!isFinished(dbExecution)) {
       return new Response(
         JSON.stringify({
-          error: "Workflow execution failed",
-          reply: "Sorry, I encountered an error processing your request. Please try again.",
+          success: true,
+          status: dbExecution?.status ?? "pending",
+          reply: "Your request was received and is being processed.",
+          executionId: execution.id,
         }),
-        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Get execution result
-    const executionResult = await executeResponse.json();
-    console.log("Execution result from execute-workflow:", JSON.stringify(executionResult, null, 2));
-    
-    // Also fetch the execution from database to get the actual stored output
-    const { data: dbExecution, error: dbError } = await supabase
-      .from("executions")
-      .select("output, logs, status, error")
-      .eq("id", execution.id)
-      .single();
-    
-    console.log("Execution from database:", JSON.stringify(dbExecution, null, 2));
-    
-    // Use database output if available, otherwise use response output
-    const actualOutput = dbExecution?.output !== null && dbExecution?.output !== undefined 
-      ? dbExecution.output 
-      : executionResult.output;
-    
-    console.log("Actual output to use:", JSON.stringify(actualOutput));
+    // The row keeps the output masked (and offloads a large one), the reply uses the stored results
+    const results = await loadExecutionResults(store, execution.id);
+    dbExecution.output = results ? results.output : await loadValue(store, dbExecution.output);
+    const actualOutput = dbExecution.output;
     
     // Extract AI response from execution output
     let reply = "";
     let responseStatusCode = 200;
     let responseHeaders: Record<string, string> = {};
     
-    if (executionResult.status === "success" || dbExecution?.status === "success") {
+    if (dbExecution.status === "success") {
       // Check if there's a respond_to_webhook node response
       if (actualOutput && typeof actualOutput === "object" && (actualOutput as any)._webhook_response) {
         const webhookResponse = actualOutput as any;
@@ -241,7 +255,7 @@ serve(async (req) => {
       }
       
       // If no output, check logs for respond_to_webhook or AI node output
-      const logsToCheck = dbExecution?.logs || executionResult.logs || [];
+      const logsToCheck = dbExecution.logs || [];
       if (!reply && logsToCheck.length > 0) {
         console.log("Checking logs for respond_to_webhook or AI output, total logs:", logsToCheck.length);
         
@@ -309,11 +323,9 @@ serve(async (req) => {
       }
     } else {
       // Execution failed
-      reply = executionResult.error || dbExecution?.error || "Sorry, I encountered an error. Please try again.";
+      reply = dbExecution.error || "Sorry, I encountered an error. Please try again.";
     }
     
-    console.log("Final reply:", reply);
-
     // Return response with proper status code and headers
     return new Response(
       JSON.stringify({
@@ -0,0 +1,201 @@
+// Deno global type declaration for TypeScript
+declare const Deno: {
+  env: {
+    get(key: string): string | undefined;
+  };
+};
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { corsHeaders } from "../_shared/cors.ts";
+import { getNextRun, getWorkflowSchedules, type ScheduledWorkflow, type WorkflowSchedule } from "./schedules.ts";
+
+// Runs more than this late (scheduler down, workflow inactive) are skipped instead of caught up
+const MISSED_RUN_GRACE_MS = 5 * 60_000;
+
+interface ScheduleRow {
+  workflow_id: string;
+  last_run_at: string | null;
+  next_run_at: string | null;
+  state: Record<string, string>;
+  updated_at: string;
+}
+
+/**
+ * Starts scheduled workflows.
+ *
+ * Considers active workflows with schedule or interval triggers or a cron_expression
+ * (see schedules.ts) and keeps the next run of each schedule in workflow_schedules.
+ * Due workflows are queued like webhook executions (trigger "schedule", input `_scheduled: true`)
+ * and started by execution-worker, so the concurrency limits apply. A workflow whose schedules
+ * are due together runs once. Called every minute by a cron job (see the
+ * schedule_background_functions migration); overlapping calls do not
+ * run a workflow twice, the schedule row is claimed by its updated_at.
+ */
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const runWorker = async () => {
+    try {
+      const response = await fetch(`${supabaseUrl}/functions/v1/execution-worker`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${supabaseServiceKey}`,
+          "apikey": supabaseServiceKey,
+        },
+        body: "{}",
+      });
+      if (!response.ok) {
+        console.error("Execution worker failed:", await response.text());
+      }
+    } catch (workerError) {
+      console.error("Failed to call execution-worker:", workerError);
+    }
+  };
+
+  // Saves the new schedule state; returns false when another scheduler call got there first
+  const saveSchedule = async (
+    workflowId: string,
+    row: ScheduleRow | undefined,
+    values: Pick<ScheduleRow, "next_run_at" | "state"> & { last_run_at?: string },
+  ) => {
+    if (!row) {
+      const { error } = await supabase.from("workflow_schedules").insert({ workflow_id: workflowId, ...values });
+      if (error && error.code !== "23505") {
+        console.error(`Failed to save schedule of workflow ${workflowId}:`, error);
+      }
+      return !error;
+    }
+
+    const { data, error } = await supabase
+      .from("workflow_schedules")
+      .update(values)
+      .eq("workflow_id", workflowId)
+      .eq("updated_at", row.updated_at)
+      .select("workflow_id")
+      .maybeSingle();
+
+    if (error) {
+      console.error(`Failed to save schedule of workflow ${workflowId}:`, error);
+    }
+    return !!data;
+  };
+
+  try {
+    const now = new Date();
+
+    const { data: workflowData, error: workflowsError } = await supabase.rpc("get_scheduled_workflows");
+    if (workflowsError) {
+      throw new Error(`Failed to load scheduled workflows: ${workflowsError.message}`);
+    }
+    const workflows = (workflowData || []) as ScheduledWorkflow[];
+    if (workflows.length === 0) {
+      return jsonResponse({ queued: [] });
+    }
+
+    const { data: rowData, error: rowsError } = await supabase
+      .from("workflow_schedules")
+      .select("*")
+      .in("workflow_id", workflows.map(w => w.id));
+    if (rowsError) {
+      throw new Error(`Failed to load workflow schedules: ${rowsError.message}`);
+    }
+    const rows = new Map(((rowData || []) as ScheduleRow[]).map(row => [row.workflow_id, row]));
+
+    const queued: string[] = [];
+
+    for (const workflow of workflows) {
+      const row = rows.get(workflow.id);
+      const previousState = row?.state || {};
+      const state: Record<string, string> = {};
+      const due: { schedule: WorkflowSchedule; at: Date }[] = [];
+
+      for (const schedule of getWorkflowSchedules(workflow)) {
+        const previousNext = previousState[schedule.key] ? new Date(previousState[schedule.key]) : null;
+        let next: Date | null;
+
+        if (!previousNext) {
+          // New or changed schedule
+          next = getNextRun(schedule, now);
+        } else if (previousNext > now) {
+          next = previousNext;
+        } else {
+          if (now.getTime() - previousNext.getTime() <= MISSED_RUN_GRACE_MS) {
+            due.push({ schedule, at: previousNext });
+          } else {
+            console.log(`Workflow ${workflow.id}: skipping missed run of ${schedule.source} at ${previousNext.toISOString()}`);
+          }
+          next = getNextRun(schedule, now, previousNext);
+        }
+
+        if (next) {
+          state[schedule.key] = next.toISOString();
+        }
+      }
+
+      const nextRuns = Object.values(state).sort();
+      const nextRunAt = nextRuns[0] ?? null;
+      const unchanged = due.length === 0 &&
+        JSON.stringify(Object.entries(state).sort()) === JSON.stringify(Object.entries(previousState).sort());
+      if (row && unchanged) continue;
+
+      const claimed = await saveSchedule(workflow.id, row, {
+        next_run_at: nextRunAt,
+        state,
+        ...(due.length > 0 ? { last_run_at: now.toISOString() } : {}),
+      });
+      if (!claimed || due.length === 0) continue;
+
+      const scheduledAt = due.map(d => d.at.getTime()).sort((a, b) => a - b)[0];
+      const queuedAt = new Date().toISOString();
+      const { data: execution, error: execError } = await supabase
+        .from("executions")
+        .insert({
+          workflow_id: workflow.id,
+          user_id: workflow.user_id,
+          status: "pending",
+          trigger: "schedule",
+          input: {
+            _scheduled: true,
+            scheduled_at: new Date(scheduledAt).toISOString(),
+            schedules: due.map(d => d.schedule.source),
+          },
+          logs: [],
+          queued_at: queuedAt,
+          started_at: queuedAt,
+        })
+        .select("id")
+        .single();
+
+      if (execError || !execution) {
+        console.error(`Failed to queue scheduled execution of workflow ${workflow.id}:`, execError);
+        continue;
+      }
+
+      console.log(`Queued scheduled execution ${execution.id} of workflow ${workflow.id}, next run ${nextRunAt ?? "none"}`);
+      queued.push(execution.id);
+    }
+
+    if (queued.length > 0) {
+      await runWorker();
+    }
+
+    return jsonResponse({ queued });
+  } catch (error) {
+    console.error("Workflow scheduler error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
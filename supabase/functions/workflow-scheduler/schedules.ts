@@ -0,0 +1,107 @@
+import { type CronSchedule, getNextCronRun, isValidTimeZone, parseCron } from "../_shared/cron.ts";
+
+/**
+ * Schedules of a workflow: its schedule and interval trigger nodes and the cron_expression
+ * set in the workflow's schedule settings (evaluated in UTC)
+ */
+
+export interface ScheduledWorkflow {
+  id: string;
+  user_id: string;
+  nodes: { id: string; data: { label?: string; type: string; config?: Record<string, unknown> } }[];
+  cron_expression: string | null;
+}
+
+export type WorkflowSchedule =
+  | { key: string; kind: "cron"; source: string; cron: CronSchedule; timeZone: string }
+  | { key: string; kind: "interval"; source: string; intervalMs: number };
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+// The scheduler runs every minute, shorter intervals fire once per run
+const MIN_INTERVAL_MS = 60_000;
+
+/**
+ * Parses an interval such as "30s", "10m", "1h" or "1d" (plain numbers are seconds)
+ */
+export function parseInterval(interval: string): number {
+  const match = interval.trim().toLowerCase().match(/^(\d+)\s*([smhd]?)$/);
+  if (!match) {
+    throw new Error(`Invalid interval "${interval}": use a number with s, m, h or d (e.g. 10m)`);
+  }
+  const ms = Number(match[1]) * UNIT_MS[match[2] || "s"];
+  if (ms <= 0) {
+    throw new Error(`Invalid interval "${interval}": must be greater than 0`);
+  }
+  return Math.max(ms, MIN_INTERVAL_MS);
+}
+
+function cronSchedule(expression: string, timeZone: string, source: string): WorkflowSchedule {
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone "${timeZone}"`);
+  }
+  const cron = parseCron(expression);
+  return { key: `cron:${cron.expression}@${timeZone}`, kind: "cron", source, cron, timeZone };
+}
+
+/**
+ * Collects the schedules of a workflow. Invalid schedules are logged and left out,
+ * so they do not stop the workflow's other schedules.
+ */
+export function getWorkflowSchedules(workflow: ScheduledWorkflow): WorkflowSchedule[] {
+  const schedules = new Map<string, WorkflowSchedule>();
+  const add = (source: string, build: () => WorkflowSchedule) => {
+    try {
+      const schedule = build();
+      schedules.set(schedule.key, schedule);
+    } catch (error) {
+      console.error(`Workflow ${workflow.id}: ${source} is not scheduled:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  for (const node of workflow.nodes || []) {
+    const config = node.data?.config || {};
+    const source = `node "${node.data?.label || node.id}"`;
+
+    if (node.data?.type === "schedule") {
+      // Same precedence as the engine: a cron expression overrides the daily time
+      const cron = typeof config.cron === "string" ? config.cron.trim() : "";
+      const time = typeof config.time === "string" ? config.time : "09:00";
+      const timeZone = typeof config.timezone === "string" && config.timezone ? config.timezone : "Asia/Kolkata";
+      add(source, () => {
+        if (cron) return cronSchedule(cron, timeZone, source);
+        const match = time.match(/^(\d{2}):(\d{2})$/);
+        if (!match) throw new Error(`Invalid time "${time}": use HH:MM`);
+        return cronSchedule(`${Number(match[2])} ${Number(match[1])} * * *`, timeZone, source);
+      });
+    } else if (node.data?.type === "interval") {
+      const interval = typeof config.interval === "string" ? config.interval : "10m";
+      add(source, () => {
+        const intervalMs = parseInterval(interval);
+        return { key: `interval:${intervalMs}`, kind: "interval", source, intervalMs };
+      });
+    }
+  }
+
+  if (workflow.cron_expression) {
+    add("schedule settings", () => cronSchedule(workflow.cron_expression!, "UTC", "schedule settings"));
+  }
+
+  return [...schedules.values()];
+}
+
+/**
+ * Next run of a schedule after `now`. Intervals continue from their previous run,
+ * so they keep their rhythm; a new interval first fires one interval from now.
+ */
+export function getNextRun(schedule: WorkflowSchedule, now: Date, previousRun?: Date): Date | null {
+  if (schedule.kind === "cron") {
+    return getNextCronRun(schedule.cron, now, schedule.timeZone);
+  }
+
+  if (!previousRun) {
+    return new Date(now.getTime() + schedule.intervalMs);
+  }
+  const elapsed = now.getTime() - previousRun.getTime();
+  const intervals = Math.max(Math.floor(elapsed / schedule.intervalMs) + 1, 1);
+  return new Date(previousRun.getTime() + intervals * schedule.intervalMs);
+}
@@ -0,0 +1,8 @@
+-- Migration: Parallel node execution
+-- Caps how many independent nodes of a workflow the engine runs at the same time
+
+ALTER TABLE public.workflows
+ADD COLUMN IF NOT EXISTS max_concurrency INTEGER NOT NULL DEFAULT 4
+  CHECK (max_concurrency BETWEEN 1 AND 20);
+
+COMMENT ON COLUMN public.workflows.max_concurrency IS 'Maximum number of nodes executed in parallel (1 = sequential)';
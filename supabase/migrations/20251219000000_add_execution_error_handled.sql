@@ -0,0 +1,7 @@
+-- Migration: Error Trigger branches
+-- Records whether the Error Trigger branches ran for a failed execution
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS error_handled BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.executions.error_handled IS 'True when Error Trigger branches ran after a node failure';
@@ -0,0 +1,18 @@
+-- Migration: Durable Wait
+-- Executions suspended by a Wait node keep their state until they are resumed
+-- by the resume-execution function (at resume_at, or via the resume webhook)
+
+ALTER TYPE public.execution_status ADD VALUE IF NOT EXISTS 'waiting';
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS resume_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS resume_token TEXT,
+ADD COLUMN IF NOT EXISTS resume_state JSONB;
+
+COMMENT ON COLUMN public.executions.resume_at IS 'When a waiting execution is resumed automatically (null = only via resume webhook)';
+COMMENT ON COLUMN public.executions.resume_token IS 'Secret required by the resume webhook of a waiting execution';
+COMMENT ON COLUMN public.executions.resume_state IS 'Engine state (node outputs, branch results, finished nodes) of a waiting execution';
+
+-- Index for the resume sweep
+CREATE INDEX IF NOT EXISTS idx_executions_resume_at ON public.executions(resume_at)
+  WHERE resume_at IS NOT NULL;
@@ -0,0 +1,10 @@
+-- Migration: Retry from failed node
+-- Stores the workflow version an execution ran, so a failed execution can be retried
+-- from the failed node with either its original version or the current one
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS workflow_snapshot JSONB,
+ADD COLUMN IF NOT EXISTS retry_of UUID REFERENCES public.executions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.executions.workflow_snapshot IS 'Nodes and edges of the workflow version this execution ran';
+COMMENT ON COLUMN public.executions.retry_of IS 'Failed execution this execution retried from the failed node';
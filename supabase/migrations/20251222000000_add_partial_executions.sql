@@ -0,0 +1,7 @@
+-- Migration: Partial executions
+-- Marks executions that only ran a node and its ancestors ("execute up to here")
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS partial_until TEXT;
+
+COMMENT ON COLUMN public.executions.partial_until IS 'Node id a partial execution ran up to (null = the whole workflow ran)';
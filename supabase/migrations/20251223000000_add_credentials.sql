@@ -0,0 +1,44 @@
+-- Migration: Encrypted credentials
+-- Secrets used by nodes (API keys, passwords, access keys) are stored encrypted and referenced by id
+-- from node config (credentialId), so workflows can be shared and exported without leaking them
+
+CREATE TABLE IF NOT EXISTS public.credentials (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  type TEXT NOT NULL,
+  data TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.credentials.type IS 'Credential type, e.g. openai, twilio, aws (defines which fields data holds)';
+COMMENT ON COLUMN public.credentials.data IS 'AES-GCM encrypted JSON of the credential fields, written and read by edge functions only';
+
+ALTER TABLE public.credentials ENABLE ROW LEVEL SECURITY;
+
+-- Credentials are created and updated by the credentials edge function, which encrypts them
+CREATE POLICY "Users can view own credentials" ON public.credentials
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own credentials" ON public.credentials
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Clients can list credentials but never read the encrypted data
+REVOKE SELECT ON public.credentials FROM anon, authenticated;
+GRANT SELECT (id, user_id, name, type, created_at, updated_at) ON public.credentials TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_credentials_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_credentials_updated_at
+  BEFORE UPDATE ON public.credentials
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_credentials_updated_at();
+
+CREATE INDEX IF NOT EXISTS idx_credentials_user_id ON public.credentials(user_id);
@@ -0,0 +1,90 @@
+-- Migration: Execution queue
+-- Webhook executions are queued (status pending, queued_at set) and started by the
+-- execution-worker function, which claims them with claim_queued_executions while
+-- respecting per-user and per-workflow concurrency limits
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS queued_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.executions.queued_at IS 'When the execution was queued (null = started directly); the wait time is started_at - queued_at';
+
+ALTER TABLE public.workflows
+ADD COLUMN IF NOT EXISTS max_concurrent_executions INTEGER NOT NULL DEFAULT 5
+  CHECK (max_concurrent_executions BETWEEN 1 AND 100);
+
+COMMENT ON COLUMN public.workflows.max_concurrent_executions IS 'Maximum number of executions of this workflow running at the same time';
+
+-- Index for claiming the oldest queued executions
+CREATE INDEX IF NOT EXISTS idx_executions_queued_at ON public.executions(queued_at)
+  WHERE status = 'pending' AND queued_at IS NOT NULL;
+
+-- Index for counting running executions per user and workflow
+CREATE INDEX IF NOT EXISTS idx_executions_running ON public.executions(user_id, workflow_id)
+  WHERE status = 'running';
+
+-- Claims up to batch_size queued executions (oldest first) and marks them running.
+-- Rows locked by another worker are skipped (FOR UPDATE SKIP LOCKED), and so are users
+-- another worker is currently claiming for, so the running counts checked here are exact.
+-- Executions running for longer than stale_after no longer count against the limits
+-- (their engine most likely died without recording a result).
+CREATE OR REPLACE FUNCTION public.claim_queued_executions(
+  batch_size INTEGER DEFAULT 10,
+  user_limit INTEGER DEFAULT 10,
+  stale_after INTERVAL DEFAULT INTERVAL '1 hour'
+)
+RETURNS SETOF public.executions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  candidate RECORD;
+  claimed public.executions;
+  claimed_count INTEGER := 0;
+  workflow_limit INTEGER;
+  user_running INTEGER;
+  workflow_running INTEGER;
+BEGIN
+  FOR candidate IN
+    SELECT e.id, e.user_id, e.workflow_id
+    FROM public.executions e
+    WHERE e.status = 'pending' AND e.queued_at IS NOT NULL
+    ORDER BY e.queued_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    EXIT WHEN claimed_count >= batch_size;
+
+    -- Another worker is claiming executions of this user
+    CONTINUE WHEN NOT pg_try_advisory_xact_lock(hashtext('execution_queue:' || COALESCE(candidate.user_id::text, '')));
+
+    SELECT count(*) INTO user_running
+    FROM public.executions
+    WHERE status = 'running'
+      AND user_id IS NOT DISTINCT FROM candidate.user_id
+      AND started_at > now() - stale_after;
+    CONTINUE WHEN user_running >= user_limit;
+
+    SELECT max_concurrent_executions INTO workflow_limit
+    FROM public.workflows
+    WHERE id = candidate.workflow_id;
+
+    SELECT count(*) INTO workflow_running
+    FROM public.executions
+    WHERE status = 'running'
+      AND workflow_id = candidate.workflow_id
+      AND started_at > now() - stale_after;
+    CONTINUE WHEN workflow_running >= COALESCE(workflow_limit, 1);
+
+    UPDATE public.executions
+    SET status = 'running', started_at = now()
+    WHERE id = candidate.id
+    RETURNING * INTO claimed;
+
+    claimed_count := claimed_count + 1;
+    RETURN NEXT claimed;
+  END LOOP;
+END;
+$$;
+
+-- Only the worker (service role) claims executions
+REVOKE EXECUTE ON FUNCTION public.claim_queued_executions(INTEGER, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
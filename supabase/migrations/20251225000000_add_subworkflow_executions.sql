@@ -0,0 +1,12 @@
+-- Migration: Sub-workflows
+-- Executions started by an Execute Workflow node reference the calling execution
+
+ALTER TYPE public.execution_trigger ADD VALUE IF NOT EXISTS 'workflow';
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS parent_execution_id UUID REFERENCES public.executions(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.executions.parent_execution_id IS 'Execution whose Execute Workflow node started this execution';
+
+CREATE INDEX IF NOT EXISTS idx_executions_parent_execution_id ON public.executions(parent_execution_id)
+  WHERE parent_execution_id IS NOT NULL;
@@ -0,0 +1,58 @@
+-- Migration: Workflow scheduler
+-- The workflow-scheduler function starts active workflows that have schedule or interval
+-- triggers (or a cron_expression) and records when each of them last and next runs.
+-- Kept apart from workflows so scheduler updates do not touch workflows.updated_at
+
+CREATE TABLE IF NOT EXISTS public.workflow_schedules (
+  workflow_id UUID PRIMARY KEY REFERENCES public.workflows(id) ON DELETE CASCADE,
+  last_run_at TIMESTAMPTZ,
+  next_run_at TIMESTAMPTZ,
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.workflow_schedules.last_run_at IS 'When the scheduler last started the workflow';
+COMMENT ON COLUMN public.workflow_schedules.next_run_at IS 'Earliest next run of any schedule of the workflow (null = nothing scheduled)';
+COMMENT ON COLUMN public.workflow_schedules.state IS 'Next run per schedule, keyed by the schedule definition (a changed schedule gets a new key)';
+
+ALTER TABLE public.workflow_schedules ENABLE ROW LEVEL SECURITY;
+
+-- Written by the scheduler (service role) only
+CREATE POLICY "Users can view schedules of own workflows" ON public.workflow_schedules
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.workflows w
+      WHERE w.id = workflow_id
+        AND (w.user_id = auth.uid() OR (w.team_id IS NOT NULL AND public.is_team_member(auth.uid(), w.team_id)))
+    )
+  );
+
+CREATE TRIGGER update_workflow_schedules_updated_at
+  BEFORE UPDATE ON public.workflow_schedules
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Index for the active workflows with a schedule or interval trigger
+CREATE INDEX IF NOT EXISTS idx_workflows_scheduled ON public.workflows(id)
+  WHERE status = 'active'
+    AND (cron_expression IS NOT NULL
+      OR nodes @> '[{"data": {"type": "schedule"}}]'::jsonb
+      OR nodes @> '[{"data": {"type": "interval"}}]'::jsonb);
+
+-- Active workflows the scheduler has to consider
+CREATE OR REPLACE FUNCTION public.get_scheduled_workflows()
+RETURNS TABLE (id UUID, user_id UUID, nodes JSONB, cron_expression TEXT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.user_id, w.nodes, w.cron_expression
+  FROM public.workflows w
+  WHERE w.status = 'active'
+    AND (w.cron_expression IS NOT NULL
+      OR w.nodes @> '[{"data": {"type": "schedule"}}]'::jsonb
+      OR w.nodes @> '[{"data": {"type": "interval"}}]'::jsonb);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_scheduled_workflows() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,8 @@
+-- Migration: Execution data storage
+-- Large node inputs/outputs and binary files of executions are offloaded to this private
+-- bucket under <execution id>/ (see supabase/functions/_shared/binary-data.ts).
+-- Only the service role accesses it; users read through the execution-data function
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('execution-data', 'execution-data', false)
+ON CONFLICT (id) DO NOTHING;
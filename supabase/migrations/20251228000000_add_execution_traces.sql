@@ -0,0 +1,14 @@
+-- Migration: Execution traces
+-- The engine records a trace per execution (spans per node, HTTP, LLM and database calls)
+-- and exports it over OTLP when configured. The trace id is kept on the execution to
+-- correlate runs with the traces of other services.
+
+ALTER TABLE public.executions
+ADD COLUMN IF NOT EXISTS trace_id TEXT,
+ADD COLUMN IF NOT EXISTS traceparent TEXT;
+
+COMMENT ON COLUMN public.executions.trace_id IS 'W3C trace id of the execution (spans are exported to the OTLP collector, if configured)';
+COMMENT ON COLUMN public.executions.traceparent IS 'W3C traceparent the next engine run continues: the caller''s context while queued, then the engine''s own span';
+
+CREATE INDEX IF NOT EXISTS idx_executions_trace_id ON public.executions(trace_id)
+  WHERE trace_id IS NOT NULL;
@@ -0,0 +1,114 @@
+-- Migration: Workflow static data
+-- Key/value store per workflow that survives executions, e.g. the cursor of a polling workflow
+-- ("last seen id"). Expressions read it as $static, the Static Data node updates it through
+-- update_workflow_static_data and the workflow settings edit it.
+
+CREATE TABLE IF NOT EXISTS public.workflow_static_data (
+  workflow_id UUID NOT NULL REFERENCES public.workflows(id) ON DELETE CASCADE,
+  key TEXT NOT NULL,
+  value JSONB NOT NULL DEFAULT 'null'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (workflow_id, key)
+);
+
+COMMENT ON COLUMN public.workflow_static_data.key IS 'Name the value is read by ($static.<key>)';
+COMMENT ON COLUMN public.workflow_static_data.value IS 'Stored JSON value (JSON null = not set)';
+
+ALTER TABLE public.workflow_static_data ENABLE ROW LEVEL SECURITY;
+
+-- Users who can edit the workflow can view, edit and reset its static data from the settings
+CREATE POLICY "Users can manage static data of own workflows" ON public.workflow_static_data
+  FOR ALL TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.workflows w
+      WHERE w.id = workflow_id
+        AND (w.user_id = auth.uid() OR (w.team_id IS NOT NULL AND public.is_team_member(auth.uid(), w.team_id)))
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.workflows w
+      WHERE w.id = workflow_id
+        AND (w.user_id = auth.uid() OR (w.team_id IS NOT NULL AND public.is_team_member(auth.uid(), w.team_id)))
+    )
+  );
+
+CREATE TRIGGER update_workflow_static_data_updated_at
+  BEFORE UPDATE ON public.workflow_static_data
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Atomic update of one key: the row is locked while the new value is computed, so concurrent
+-- executions never lose each other's writes. Returns the stored value and whether it changed
+-- (compare_and_set leaves the value alone when it is not the expected one).
+-- Operations: set, delete, increment (by _value, default 1), append (to a list),
+-- max (keep the larger value), compare_and_set (set to _value when the current value is _expected)
+CREATE OR REPLACE FUNCTION public.update_workflow_static_data(
+  _workflow_id UUID,
+  _key TEXT,
+  _operation TEXT,
+  _value JSONB DEFAULT NULL,
+  _expected JSONB DEFAULT NULL
+)
+RETURNS TABLE (value JSONB, updated BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _current JSONB;
+  _next JSONB;
+  _new_value JSONB := COALESCE(_value, 'null'::jsonb);
+BEGIN
+  IF _operation = 'delete' THEN
+    DELETE FROM public.workflow_static_data d WHERE d.workflow_id = _workflow_id AND d.key = _key;
+    RETURN QUERY SELECT 'null'::jsonb, true;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.workflow_static_data (workflow_id, key)
+  VALUES (_workflow_id, _key)
+  ON CONFLICT (workflow_id, key) DO NOTHING;
+
+  SELECT d.value INTO _current
+  FROM public.workflow_static_data d
+  WHERE d.workflow_id = _workflow_id AND d.key = _key
+  FOR UPDATE;
+
+  CASE _operation
+    WHEN 'set' THEN
+      _next := _new_value;
+    WHEN 'increment' THEN
+      IF jsonb_typeof(_current) NOT IN ('number', 'null') THEN
+        RAISE EXCEPTION 'Static data "%" is not a number', _key;
+      END IF;
+      IF jsonb_typeof(_new_value) NOT IN ('number', 'null') THEN
+        RAISE EXCEPTION 'Increment amount must be a number';
+      END IF;
+      _next := to_jsonb(
+        COALESCE((CASE WHEN jsonb_typeof(_current) = 'number' THEN _current #>> '{}' END)::numeric, 0)
+        + COALESCE((CASE WHEN jsonb_typeof(_new_value) = 'number' THEN _new_value #>> '{}' END)::numeric, 1)
+      );
+    WHEN 'append' THEN
+      IF jsonb_typeof(_current) NOT IN ('array', 'null') THEN
+        RAISE EXCEPTION 'Static data "%" is not a list', _key;
+      END IF;
+      _next := (CASE WHEN jsonb_typeof(_current) = 'array' THEN _current ELSE '[]'::jsonb END) || jsonb_build_array(_new_value);
+    WHEN 'max' THEN
+      _next := CASE WHEN jsonb_typeof(_current) = 'null' OR _new_value > _current THEN _new_value ELSE _current END;
+    WHEN 'compare_and_set' THEN
+      _next := CASE WHEN _current = COALESCE(_expected, 'null'::jsonb) THEN _new_value ELSE _current END;
+    ELSE
+      RAISE EXCEPTION 'Unknown static data operation "%"', _operation;
+  END CASE;
+
+  UPDATE public.workflow_static_data d
+  SET value = _next
+  WHERE d.workflow_id = _workflow_id AND d.key = _key;
+
+  RETURN QUERY SELECT _next, _next IS DISTINCT FROM _current;
+END;
+$$;
+
+-- Called by the engine (service role) only
+REVOKE EXECUTE ON FUNCTION public.update_workflow_static_data(UUID, TEXT, TEXT, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,8 @@
+-- Migration: Redacted fields
+-- Field paths the engine masks in execution logs, in addition to credential values and
+-- sensitive keys like password or apiKey (see execute-workflow/redaction.ts)
+
+ALTER TABLE public.workflows
+ADD COLUMN IF NOT EXISTS redacted_fields TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.workflows.redacted_fields IS 'Field paths masked in execution logs: a field name (any depth) or a dot path from the node input/output, * matches any field';
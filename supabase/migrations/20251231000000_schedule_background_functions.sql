@@ -0,0 +1,52 @@
+-- Migration: Cron jobs for the background functions
+-- Every minute pg_cron calls (through pg_net):
+-- - workflow-scheduler: starts due schedule and interval triggers
+-- - resume-execution: resumes executions whose Wait has timed out (resume_at passed)
+-- - execution-worker: starts queued executions whose concurrency limits cleared
+-- The project URL and service role key are read from Vault, create them once per project:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Calls an edge function without waiting for its response; returns the pg_net request id
+-- (null when the Vault secrets are missing)
+CREATE OR REPLACE FUNCTION public.invoke_background_function(_function_name TEXT)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _project_url TEXT;
+  _service_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _service_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF _project_url IS NULL OR _service_key IS NULL THEN
+    RAISE WARNING 'Cannot call %: create the Vault secrets project_url and service_role_key', _function_name;
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(_project_url, '/') || '/functions/v1/' || _function_name,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || _service_key,
+      'apikey', _service_key
+    ),
+    body := '{}'::jsonb,
+    timeout_milliseconds := 60000
+  );
+END;
+$$;
+
+-- Called by the cron jobs only
+REVOKE EXECUTE ON FUNCTION public.invoke_background_function(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Scheduling a job name again replaces the job, so re-running the migration is safe
+SELECT cron.schedule('workflow-scheduler', '* * * * *', $$SELECT public.invoke_background_function('workflow-scheduler')$$);
+SELECT cron.schedule('resume-execution', '* * * * *', $$SELECT public.invoke_background_function('resume-execution')$$);
+SELECT cron.schedule('execution-worker', '* * * * *', $$SELECT public.invoke_background_function('execution-worker')$$);
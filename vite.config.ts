@@ -13,6 +13,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // Node registry shared with the edge functions
+      "@nodes": path.resolve(__dirname, "./supabase/functions/_shared/nodes"),
     },
   },
 }));